@@ -1,12 +1,26 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Song, TimelineState, AudioState, MicrophoneState, VoiceAnalysis, PitchDetectionResult, VoiceHistory, SongResults } from './types';
-import { getDefaultSong, getAllSongs, getSong, getSongById, getAllAvailableSongs, AudioSynthesizer, frequencyToMidi, getMidiNoteName, getMidiNoteNameOnly, centsFromFrequencies, isOctaveEquivalent, exportSongToText, transposeNote, transposeKey } from './utils/musicUtils';
+import { Song, TimelineState, AudioState, MicrophoneState, VoiceAnalysis, PitchDetectionResult, VoiceHistory, SongResults, SongExportFormat, SharedSong, PitchAlgorithmId, PitchDetectorConfig, VoiceProfileId, VocalRange } from './types';
+import { getDefaultSong, getAllSongs, getSong, getSongById, getAllAvailableSongs, AudioSynthesizer, frequencyToMidi, getMidiNoteName, getMidiNoteNameOnly, centsFromFrequencies, isOctaveEquivalent, exportSongToText, transposeNote, transposeKey, downloadFile, formatVocalRange, saveSongToStorage, getSavedSongs, addScoreResult } from './utils/musicUtils';
+import { getVocalRange } from './utils/songAnalysis';
+import { getSetting, setSetting } from './utils/storage';
+import { getVoiceProfile, DEFAULT_CUSTOM_VOICE_RANGE } from './utils/voiceProfiles';
+import { loadPackSong } from './utils/songPacks';
+import { markSongPlayed } from './utils/songLibrary';
+import { exportSongToMidi } from './utils/midiFile';
+import { exportSongToUltraStar } from './utils/ultraStar';
+import { isSongShareFragment, encodeSongShareFragment, decodeSongShareFragment } from './utils/songShare';
 import Timeline from './components/Timeline';
+import NoteEditor from './components/NoteEditor';
+import RecordSongModal from './components/RecordSongModal';
+import MicCalibrationModal from './components/MicCalibrationModal';
+import LyricTapper from './components/LyricTapper';
+import SongTransformer from './components/SongTransformer';
 import Controls from './components/Controls';
 import VoiceAnalyzer from './components/VoiceAnalyzer';
 import ResultsDisplay from './components/ResultsDisplay';
 import MicrophoneAnalyzer from './components/MicrophoneAnalyzer';
 import SongSelectionModal from './components/SongSelectionModal';
+import SharedSongModal from './components/SharedSongModal';
 
 function App() {
   const [currentSong, setCurrentSong] = useState<Song | null>(null);
@@ -17,7 +31,10 @@ function App() {
   useEffect(() => {
     const initializeSongs = async () => {
       try {
-        const defaultSong = await getDefaultSong();
+        // The last song may come from a pack, which has to be fetched first
+        const lastSelectedSongId = getSetting<string | null>('vocalCoach_lastSelectedSong', null);
+        const packSong = lastSelectedSongId ? await loadPackSong(lastSelectedSongId).catch(() => null) : null;
+        const defaultSong = packSong ?? await getDefaultSong();
         const allSongs = await getAllAvailableSongs();
         setCurrentSong(defaultSong);
         setAvailableSongs(allSongs);
@@ -47,14 +64,8 @@ function App() {
   });
   
   const [microphone, setMicrophone] = useState<MicrophoneState>(() => {
-    // Load microphone mute state from localStorage
-    let isMuted = false;
-    try {
-      const saved = localStorage.getItem('vocalCoach_microphoneMuted');
-      isMuted = saved ? JSON.parse(saved) : false;
-    } catch {
-      isMuted = false;
-    }
+    // Load microphone mute state from storage
+    const isMuted = getSetting('vocalCoach_microphoneMuted', false);
     
     return {
       isRecording: false,
@@ -67,13 +78,9 @@ function App() {
     };
   });
   
-  // Save microphone mute state to localStorage
+  // Save microphone mute state to storage
   useEffect(() => {
-    try {
-      localStorage.setItem('vocalCoach_microphoneMuted', JSON.stringify(microphone.isMuted));
-    } catch (error) {
-      console.error('Failed to save microphone state:', error);
-    }
+    setSetting('vocalCoach_microphoneMuted', microphone.isMuted);
   }, [microphone.isMuted]);
   
   const [voiceAnalysis, setVoiceAnalysis] = useState<VoiceAnalysis>({
@@ -86,30 +93,31 @@ function App() {
   });
   
   const [voiceHistory, setVoiceHistory] = useState<VoiceHistory[]>([]);
+  // Full pitch history of the last take (voiceHistory only keeps a short trail for drawing)
+  const takeHistoryRef = useRef<VoiceHistory[]>([]);
+  const [hasTake, setHasTake] = useState(false);
   const [results, setResults] = useState<SongResults | null>(null);
   const [noteHits, setNoteHits] = useState<Set<string>>(new Set());
   const [songSelectionModal, setSongSelectionModal] = useState(false);
+  const [isEditingNotes, setIsEditingNotes] = useState(false);
+  const [recordSongModal, setRecordSongModal] = useState(false);
+  const [calibrationModal, setCalibrationModal] = useState(false);
+  const [isTappingLyrics, setIsTappingLyrics] = useState(false);
+  const [isTransformingSong, setIsTransformingSong] = useState(false);
+  // Song opened from a share link, waiting for the user to try or save it
+  const [sharedSong, setSharedSong] = useState<SharedSong | null>(null);
   
   // Countdown state for 3-second countdown before playback
   const [countdown, setCountdown] = useState<number | null>(null);
   
-  // Note sound control with localStorage
-  const [noteSoundEnabled, setNoteSoundEnabled] = useState(() => {
-    try {
-      const saved = localStorage.getItem('vocalCoach_noteSoundEnabled');
-      return saved ? JSON.parse(saved) : false; // Default to OFF as requested
-    } catch {
-      return false;
-    }
-  });
+  // Note sound control with persisted setting
+  const [noteSoundEnabled, setNoteSoundEnabled] = useState(() =>
+    getSetting('vocalCoach_noteSoundEnabled', false) // Default to OFF as requested
+  );
   
-  // Save note sound state to localStorage
+  // Save note sound state to storage
   useEffect(() => {
-    try {
-      localStorage.setItem('vocalCoach_noteSoundEnabled', JSON.stringify(noteSoundEnabled));
-    } catch (error) {
-      console.error('Failed to save note sound state:', error);
-    }
+    setSetting('vocalCoach_noteSoundEnabled', noteSoundEnabled);
   }, [noteSoundEnabled]);
   
   // Toggle note sound function
@@ -117,23 +125,46 @@ function App() {
     setNoteSoundEnabled((prev: boolean) => !prev);
   }, []);
   
-  // Transposition control with localStorage
-  const [transpositionSemitones, setTranspositionSemitones] = useState(() => {
-    try {
-      const saved = localStorage.getItem('vocalCoach_transposition');
-      return saved ? JSON.parse(saved) : 0; // Default to 0 (no transposition)
-    } catch {
-      return 0;
-    }
-  });
+  // Pitch detection algorithm, used the next time the microphone starts
+  const [pitchAlgorithm, setPitchAlgorithm] = useState<PitchAlgorithmId>(() =>
+    getSetting<PitchAlgorithmId>('vocalCoach_pitchAlgorithm', 'yin')
+  );
   
-  // Save transposition state to localStorage
   useEffect(() => {
-    try {
-      localStorage.setItem('vocalCoach_transposition', JSON.stringify(transpositionSemitones));
-    } catch (error) {
-      console.error('Failed to save transposition state:', error);
-    }
+    setSetting('vocalCoach_pitchAlgorithm', pitchAlgorithm);
+  }, [pitchAlgorithm]);
+  
+  // Voice profile: tunes the detector's search range and the timeline's default pitch range
+  const [voiceProfileId, setVoiceProfileId] = useState<VoiceProfileId>(() =>
+    getSetting<VoiceProfileId>('vocalCoach_voiceProfile', 'any')
+  );
+  const [customVoiceRange, setCustomVoiceRange] = useState<VocalRange>(() =>
+    getSetting<VocalRange>('vocalCoach_customVoiceRange', DEFAULT_CUSTOM_VOICE_RANGE)
+  );
+  
+  useEffect(() => {
+    setSetting('vocalCoach_voiceProfile', voiceProfileId);
+  }, [voiceProfileId]);
+  
+  useEffect(() => {
+    setSetting('vocalCoach_customVoiceRange', customVoiceRange);
+  }, [customVoiceRange]);
+  
+  const voiceProfile = useMemo(() => getVoiceProfile(voiceProfileId, customVoiceRange), [voiceProfileId, customVoiceRange]);
+  // Memoized so the microphone is only rebuilt when a setting actually changes
+  const pitchConfig = useMemo<PitchDetectorConfig>(
+    () => ({ algorithm: pitchAlgorithm, ...voiceProfile.detector }),
+    [pitchAlgorithm, voiceProfile]
+  );
+  
+  // Transposition control with persisted setting
+  const [transpositionSemitones, setTranspositionSemitones] = useState(() =>
+    getSetting('vocalCoach_transposition', 0) // Default to 0 (no transposition)
+  );
+  
+  // Save transposition state to storage
+  useEffect(() => {
+    setSetting('vocalCoach_transposition', transpositionSemitones);
   }, [transpositionSemitones]);
   
   // Transposition control functions
@@ -168,6 +199,7 @@ function App() {
   
   // Optimized voice history update
   const handleVoiceHistoryUpdate = useCallback((newPoint: VoiceHistory) => {
+    takeHistoryRef.current.push(newPoint);
     setVoiceHistory(prev => {
       const newHistory = [...prev, newPoint];
       return newHistory.slice(-100); // Keep only last 100 points
@@ -298,6 +330,7 @@ function App() {
     setResults(null);
     setNoteHits(new Set());
     setVoiceHistory([]);
+    takeHistoryRef.current = [];
     
     // Play current notes after a longer delay to ensure audio is ready
     setTimeout(() => {
@@ -306,8 +339,16 @@ function App() {
     }, 300); // Increased delay for Safari
   }, [audio.isLoaded, initializeAudio, audioSynthesizer, playCurrentNotes]);
   
+  // A take becomes exportable once playback stops
+  useEffect(() => {
+    if (!timeline.isPlaying) {
+      setHasTake(takeHistoryRef.current.length > 0);
+    }
+  }, [timeline.isPlaying]);
+  
   // Combined play/record function - Enhanced for cross-browser compatibility
   const togglePlayback = useCallback(async () => {
+    if (isEditingNotes || isTappingLyrics || isTransformingSong || recordSongModal || calibrationModal) return; // These tools work on a stopped timeline
     if (timeline.isPlaying) {
       // Stop everything
       setTimeline(prev => ({ ...prev, isPlaying: false }));
@@ -321,9 +362,12 @@ function App() {
       if (hasPermission) {
         // Start countdown only if microphone permission granted
         startCountdown();
+        if (currentSong) {
+          markSongPlayed(currentSong.id);
+        }
       }
     }
-  }, [timeline.isPlaying, audioSynthesizer, startCountdown, requestMicrophonePermission]);
+  }, [timeline.isPlaying, audioSynthesizer, startCountdown, requestMicrophonePermission, currentSong, isEditingNotes, isTappingLyrics, isTransformingSong, recordSongModal, calibrationModal]);
   
   // Update currentTime ref whenever timeline changes
   useEffect(() => {
@@ -397,80 +441,157 @@ function App() {
     }
   }, [timeline.isPlaying, audio.isLoaded, playCurrentNotes]); // Removed timeline.currentTime to fix jerky playback
   
+  // Switch to a song and reset playback, results and the recorded take
+  const loadSong = useCallback((song: Song) => {
+    setCurrentSong(song);
+    setIsEditingNotes(false);
+    setIsTappingLyrics(false);
+    setIsTransformingSong(false);
+    setTimeline(prev => ({ ...prev, currentTime: 0, isPlaying: false }));
+    setResults(null);
+    setNoteHits(new Set());
+    setVoiceHistory([]);
+    takeHistoryRef.current = [];
+    setHasTake(false);
+    audioSynthesizer.stopAll();
+  }, [audioSynthesizer]);
+  
+  // Remember every finished take in the score history (only when a new result arrives)
+  useEffect(() => {
+    if (results && currentSong) {
+      addScoreResult(currentSong.id, results);
+    }
+  }, [results]);
+  
   // Song change handler - Updated to work with imported songs
   const handleSongChange = useCallback(async (songId: string) => {
     console.log('Attempting to change song to:', songId);
     
-    // Use new getSongById function that searches both default and saved songs
-    const song = await getSongById(songId);
+    // Use new getSongById function that searches both default and saved songs,
+    // then song packs, and fall back to the available songs list
+    let song: Song | null | undefined;
+    try {
+      song = await getSongById(songId) ?? await loadPackSong(songId) ?? availableSongs.find(s => s.id === songId);
+    } catch (error) {
+      console.error('Failed to load song:', error);
+      alert(`Could not load the song: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
     
     if (song) {
       console.log('Successfully found and loading song:', song.title);
-      setCurrentSong(song);
-      
-      // Save last selected song ID to localStorage for default song loading
-      try {
-        localStorage.setItem('vocalCoach_lastSelectedSong', songId);
-      } catch (error) {
-        console.error('Failed to save last selected song:', error);
-      }
+      loadSong(song);
       
-      setTimeline(prev => ({ ...prev, currentTime: 0, isPlaying: false }));
-      setResults(null);
-      setNoteHits(new Set());
-      setVoiceHistory([]);
-      audioSynthesizer.stopAll();
+      // Save last selected song ID for default song loading
+      setSetting('vocalCoach_lastSelectedSong', songId);
     } else {
       console.error('Song not found:', songId);
-      // Try to fallback to available songs list
-      const fallbackSong = availableSongs.find(s => s.id === songId);
-      if (fallbackSong) {
-        console.log('Found song in fallback search:', fallbackSong.title);
-        setCurrentSong(fallbackSong);
-        
-        // Save last selected song ID even for fallback
-        try {
-          localStorage.setItem('vocalCoach_lastSelectedSong', songId);
-        } catch (error) {
-          console.error('Failed to save last selected song:', error);
-        }
-        
-        setTimeline(prev => ({ ...prev, currentTime: 0, isPlaying: false }));
-        setResults(null);
-        setNoteHits(new Set());
-        setVoiceHistory([]);
-        audioSynthesizer.stopAll();
-      }
     }
-  }, [audioSynthesizer, availableSongs]);
+  }, [loadSong, availableSongs]);
   
   // Refresh songs list - for when new songs are imported
   const refreshSongs = useCallback(async () => {
     const allSongs = await getAllAvailableSongs();
     setAvailableSongs(allSongs);
+    // Pick up edits to the current song, e.g. a new title
+    setCurrentSong(prev => prev ? allSongs.find(s => s.id === prev.id) ?? prev : prev);
+  }, []);
+  
+  // Save edited notes or lyrics and switch to the saved song (a new one when a built-in song was edited)
+  const handleSaveEditedNotes = useCallback(async (song: Song) => {
+    saveSongToStorage(song);
+    setIsEditingNotes(false);
+    setIsTappingLyrics(false);
+    setIsTransformingSong(false);
+    await refreshSongs();
+    loadSong(song);
+    setSetting('vocalCoach_lastSelectedSong', song.id);
+  }, [refreshSongs, loadSong]);
+  
+  // A permanent transposition moves the playback one back the other way, so the song sounds the same
+  const handleSaveTransformedSong = useCallback(async (song: Song, transposedBy: number) => {
+    await handleSaveEditedNotes(song);
+    if (transposedBy !== 0) {
+      setTranspositionSemitones((prev: number) => Math.max(-12, Math.min(12, prev - transposedBy)));
+    }
+  }, [handleSaveEditedNotes]);
+  
+  // Open a song transcribed from singing in the note editor, ready for lyrics
+  const handleCreateRecordedSong = useCallback(async (song: Song) => {
+    saveSongToStorage(song);
+    setRecordSongModal(false);
+    await refreshSongs();
+    loadSong(song);
+    setSetting('vocalCoach_lastSelectedSong', song.id);
+    setIsEditingNotes(true);
+  }, [refreshSongs, loadSong]);
+  
+  // Copy a link that carries the current song and transposition in its fragment
+  const handleCopyShareLink = useCallback(async () => {
+    if (!currentSong) return;
+    const fragment = await encodeSongShareFragment(currentSong, transpositionSemitones);
+    await navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}${fragment}`);
+  }, [currentSong, transpositionSemitones]);
+  
+  // Open a song from a share link once the default song has loaded
+  useEffect(() => {
+    const openShareLink = async () => {
+      const hash = window.location.hash;
+      if (!isSongShareFragment(hash)) return;
+      // Drop the fragment so a reload does not offer the song again
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      try {
+        setSharedSong(await decodeSongShareFragment(hash));
+      } catch (error) {
+        console.error('Failed to open shared song:', error);
+        alert(`Could not open the shared song: ${error instanceof Error ? error.message : error}`);
+      }
+    };
+    
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
   }, []);
   
-  // Export current song to TSV file
-  const handleExportSong = useCallback(() => {
+  const handlePreviewSharedSong = useCallback(() => {
+    if (!sharedSong) return;
+    loadSong(sharedSong.song);
+    setTranspositionSemitones(sharedSong.transposition);
+    setSharedSong(null);
+  }, [sharedSong, loadSong]);
+  
+  const handleSaveSharedSong = useCallback(async () => {
+    if (!sharedSong) return;
+    if (!getSavedSongs()[sharedSong.song.id]) {
+      saveSongToStorage(sharedSong.song);
+      await refreshSongs();
+    }
+    await handleSongChange(sharedSong.song.id);
+    setTranspositionSemitones(sharedSong.transposition);
+    setSharedSong(null);
+  }, [sharedSong, refreshSongs, handleSongChange]);
+  
+  // Export current song to TSV or MIDI file
+  const handleExportSong = useCallback((format: SongExportFormat = 'tsv') => {
     if (!currentSong) return;
     
     try {
-      const exportText = exportSongToText(currentSong);
-      const blob = new Blob([exportText], { type: 'text/tab-separated-values' });
-      const url = URL.createObjectURL(blob);
-      
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${currentSong.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_notes.tsv`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const baseName = currentSong.title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+      if (format === 'tsv' || format === 'tsv-beats') {
+        const timing = format === 'tsv-beats' ? 'beats' : 'timestamps';
+        downloadFile(exportSongToText(currentSong, timing), `${baseName}_notes.tsv`, 'text/tab-separated-values');
+      } else if (format === 'ultrastar') {
+        downloadFile(exportSongToUltraStar(currentSong), `${baseName}.txt`, 'text/plain');
+      } else {
+        const take = format === 'midi-take' ? takeHistoryRef.current : undefined;
+        const midiData = exportSongToMidi(currentSong, transpositionSemitones, take);
+        downloadFile(midiData, `${baseName}${take ? '_take' : ''}.mid`, 'audio/midi');
+      }
     } catch (error) {
       console.error('Failed to export song:', error);
       // Could show a toast notification here instead of alert
     }
-  }, [currentSong]);
+  }, [currentSong, transpositionSemitones]);
   
   // Restart current song
   const handleRestart = useCallback(() => {
@@ -517,6 +638,9 @@ function App() {
     };
   }, [audioSynthesizer]);
   
+  // Songs saved before range analysis have no stored vocalRange
+  const vocalRange = currentSong ? currentSong.vocalRange ?? getVocalRange(currentSong.notes) : null;
+  
   return (
     <div className="min-h-screen bg-gray-900 text-white flex flex-col overflow-y-auto md:overflow-hidden md:h-screen">
       {/* Loading state while songs are initializing */}
@@ -536,6 +660,7 @@ function App() {
             currentTimeRef={currentTimeRef}
             currentSong={currentSong}
             transpositionSemitones={transpositionSemitones}
+            pitchConfig={pitchConfig}
             onVoiceAnalysisUpdate={debouncedVoiceAnalysisUpdate}
             onVoiceHistoryUpdate={handleVoiceHistoryUpdate}
             onNoteHit={handleNoteHit}
@@ -549,6 +674,7 @@ function App() {
               <h1 className="text-xl font-bold text-white">Vocal Coach</h1>
               <div className="text-sm text-gray-400">
                 {currentSong.title} • {currentSong.artist} • {transposeKey(currentSong.key, transpositionSemitones)}{transpositionSemitones !== 0 ? ` (${transpositionSemitones > 0 ? '+' : ''}${transpositionSemitones})` : ''}
+                {vocalRange && ` • ${formatVocalRange(vocalRange, transpositionSemitones)}`} • {Math.round(currentSong.tempo)} BPM
               </div>
             </div>
             
@@ -575,8 +701,17 @@ function App() {
           onToggleMicrophoneMute={toggleMicrophoneMute}
           onSongsUpdate={refreshSongs}
           onExportSong={handleExportSong}
+          onCopyShareLink={handleCopyShareLink}
+          hasTake={hasTake}
           noteSoundEnabled={noteSoundEnabled}
           onToggleNoteSound={toggleNoteSound}
+          pitchAlgorithm={pitchAlgorithm}
+          onPitchAlgorithmChange={setPitchAlgorithm}
+          voiceProfile={voiceProfileId}
+          customVoiceRange={customVoiceRange}
+          onVoiceProfileChange={setVoiceProfileId}
+          onCustomVoiceRangeChange={setCustomVoiceRange}
+          onCalibrateMicrophone={() => setCalibrationModal(true)}
         />
       </div>
       
@@ -591,16 +726,102 @@ function App() {
           </div>
         )}
         
-        <Timeline
-          song={currentSong}
-          timeline={timeline}
-          voiceAnalysis={voiceAnalysis}
-          voiceHistory={voiceHistory}
-          onTimelineChange={(changes) => setTimeline(prev => ({ ...prev, ...changes }))}
-          transpositionSemitones={transpositionSemitones}
-          onTransposeUp={transposeUp}
-          onTransposeDown={transposeDown}
-        />
+        {isEditingNotes ? (
+          <NoteEditor
+            key={currentSong.id}
+            song={currentSong}
+            isUserSong={!!getSavedSongs()[currentSong.id]}
+            timeline={timeline}
+            voiceAnalysis={voiceAnalysis}
+            voiceHistory={voiceHistory}
+            onTimelineChange={(changes) => setTimeline(prev => ({ ...prev, ...changes }))}
+            transpositionSemitones={transpositionSemitones}
+            pitchRange={voiceProfile.timelineRange}
+            onTransposeUp={transposeUp}
+            onTransposeDown={transposeDown}
+            onSave={handleSaveEditedNotes}
+            onCancel={() => setIsEditingNotes(false)}
+          />
+        ) : isTappingLyrics ? (
+          <LyricTapper
+            key={currentSong.id}
+            song={currentSong}
+            isUserSong={!!getSavedSongs()[currentSong.id]}
+            timeline={timeline}
+            onTimelineChange={(changes) => setTimeline(prev => ({ ...prev, ...changes }))}
+            transpositionSemitones={transpositionSemitones}
+            pitchRange={voiceProfile.timelineRange}
+            onTransposeUp={transposeUp}
+            onTransposeDown={transposeDown}
+            audioSynthesizer={audioSynthesizer}
+            noteSoundEnabled={noteSoundEnabled}
+            onSave={handleSaveEditedNotes}
+            onCancel={() => setIsTappingLyrics(false)}
+          />
+        ) : isTransformingSong ? (
+          <SongTransformer
+            key={currentSong.id}
+            song={currentSong}
+            isUserSong={!!getSavedSongs()[currentSong.id]}
+            timeline={timeline}
+            voiceAnalysis={voiceAnalysis}
+            voiceHistory={voiceHistory}
+            onTimelineChange={(changes) => setTimeline(prev => ({ ...prev, ...changes }))}
+            transpositionSemitones={transpositionSemitones}
+            pitchRange={voiceProfile.timelineRange}
+            onTransposeUp={transposeUp}
+            onTransposeDown={transposeDown}
+            onSave={handleSaveTransformedSong}
+            onCancel={() => setIsTransformingSong(false)}
+          />
+        ) : (
+          <Timeline
+            song={currentSong}
+            timeline={timeline}
+            voiceAnalysis={voiceAnalysis}
+            voiceHistory={voiceHistory}
+            onTimelineChange={(changes) => setTimeline(prev => ({ ...prev, ...changes }))}
+            transpositionSemitones={transpositionSemitones}
+            onTransposeUp={transposeUp}
+            onTransposeDown={transposeDown}
+            pitchRange={voiceProfile.timelineRange}
+            toolbar={
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setIsEditingNotes(true)}
+                  disabled={timeline.isPlaying || countdown !== null}
+                  className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Edit Notes
+                </button>
+                <button
+                  onClick={() => setIsTappingLyrics(true)}
+                  disabled={timeline.isPlaying || countdown !== null}
+                  className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Paste lyrics and tap along to place them on the notes"
+                >
+                  Tap Lyrics
+                </button>
+                <button
+                  onClick={() => setIsTransformingSong(true)}
+                  disabled={timeline.isPlaying || countdown !== null}
+                  className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Quantize, stretch, shift or transpose the whole song"
+                >
+                  Transform
+                </button>
+                <button
+                  onClick={() => setRecordSongModal(true)}
+                  disabled={timeline.isPlaying || countdown !== null}
+                  className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Sing a melody to turn it into a new song"
+                >
+                  Record New Song
+                </button>
+              </div>
+            }
+          />
+        )}
       </div>
       
       {/* Bottom Panel with corrected layout */}
@@ -608,7 +829,7 @@ function App() {
         <div className="flex items-center justify-between h-full px-4">
           {/* LEFT: Download Notes button */}
           <button
-            onClick={handleExportSong}
+            onClick={() => handleExportSong('tsv')}
             disabled={timeline.isPlaying}
             className="text-xs text-blue-400 hover:text-blue-300 underline transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             title="Download Notes"
@@ -641,6 +862,25 @@ function App() {
             />
           )}
           
+          {/* Record a new song by singing it */}
+          {recordSongModal && (
+            <RecordSongModal
+              audioSynthesizer={audioSynthesizer}
+              pitchConfig={pitchConfig}
+              onCreate={handleCreateRecordedSong}
+              onClose={() => setRecordSongModal(false)}
+            />
+          )}
+          
+          {/* Measure room noise, singing level and latency for the microphone */}
+          {calibrationModal && (
+            <MicCalibrationModal
+              audioSynthesizer={audioSynthesizer}
+              pitchConfig={pitchConfig}
+              onClose={() => setCalibrationModal(false)}
+            />
+          )}
+          
           {/* Song Selection Modal */}
           <SongSelectionModal
             isOpen={songSelectionModal}
@@ -651,6 +891,17 @@ function App() {
             onSongsUpdate={refreshSongs}
             isPlaying={timeline.isPlaying}
           />
+          
+          {/* Song received through a share link */}
+          {sharedSong && (
+            <SharedSongModal
+              sharedSong={sharedSong}
+              isSaved={!!getSavedSongs()[sharedSong.song.id]}
+              onSave={handleSaveSharedSong}
+              onPreview={handlePreviewSharedSong}
+              onDismiss={() => setSharedSong(null)}
+            />
+          )}
         </>
       )}
     </div>
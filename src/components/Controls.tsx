@@ -1,8 +1,9 @@
 import React, { useRef, useState } from 'react';
-import { Song, MicrophoneState } from '../types';
-import { exportSongToText, parseTextToSong, saveSongToStorage, getAllAvailableSongs } from '../utils/musicUtils';
+import { Song, MicrophoneState, SongExportFormat, SongDiagnostic, PitchAlgorithmId, VoiceProfileId, VocalRange } from '../types';
+import { exportSongToText, parseTextToSongWithDiagnostics, saveSongToStorage, getAllAvailableSongs } from '../utils/musicUtils';
 import UploadModal from './UploadModal';
 import SongSelectionModal from './SongSelectionModal';
+import MicrophoneSettingsMenu from './MicrophoneSettingsMenu';
 
 interface ControlsProps {
   isPlaying: boolean;
@@ -15,9 +16,18 @@ interface ControlsProps {
   microphone: MicrophoneState;
   onToggleMicrophoneMute: () => void;
   onSongsUpdate?: () => void;
-  onExportSong?: () => void;
+  onExportSong?: (format: SongExportFormat) => void;
+  onCopyShareLink?: () => Promise<void>;
+  hasTake?: boolean;
   noteSoundEnabled: boolean;
   onToggleNoteSound: () => void;
+  pitchAlgorithm: PitchAlgorithmId;
+  onPitchAlgorithmChange: (algorithm: PitchAlgorithmId) => void;
+  voiceProfile: VoiceProfileId;
+  customVoiceRange: VocalRange;
+  onVoiceProfileChange: (profile: VoiceProfileId) => void;
+  onCustomVoiceRangeChange: (range: VocalRange) => void;
+  onCalibrateMicrophone: () => void;
 }
 
 const Controls: React.FC<ControlsProps> = ({
@@ -32,12 +42,28 @@ const Controls: React.FC<ControlsProps> = ({
   onToggleMicrophoneMute,
   onSongsUpdate,
   onExportSong,
+  onCopyShareLink,
+  hasTake = false,
   noteSoundEnabled,
-  onToggleNoteSound
+  onToggleNoteSound,
+  pitchAlgorithm,
+  onPitchAlgorithmChange,
+  voiceProfile,
+  customVoiceRange,
+  onVoiceProfileChange,
+  onCustomVoiceRangeChange,
+  onCalibrateMicrophone
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [uploadModal, setUploadModal] = useState({ isOpen: false, title: '', message: '', isSuccess: false });
+  const [uploadModal, setUploadModal] = useState<{
+    isOpen: boolean;
+    title: string;
+    message: string;
+    isSuccess: boolean;
+    diagnostics?: SongDiagnostic[];
+  }>({ isOpen: false, title: '', message: '', isSuccess: false });
   const [songSelectionModal, setSongSelectionModal] = useState(false);
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
   
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -45,11 +71,108 @@ const Controls: React.FC<ControlsProps> = ({
     return `${mins}:${secs.padStart(4, '0')}`;
   };
   
-  const handleExportSong = () => {
+  const handleExportSong = (format: SongExportFormat) => {
+    setExportMenuOpen(false);
     if (onExportSong) {
-      onExportSong();
+      onExportSong(format);
     }
   };
+
+  const handleCopyShareLink = async () => {
+    setExportMenuOpen(false);
+    if (!onCopyShareLink) return;
+    try {
+      await onCopyShareLink();
+      setUploadModal({
+        isOpen: true,
+        title: 'Link Copied',
+        message: `A link to "${currentSong.title}" is on your clipboard. Whoever opens it can try the song and save it to their library.`,
+        isSuccess: true
+      });
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+      setUploadModal({
+        isOpen: true,
+        title: 'Copy Failed',
+        message: 'Could not copy the share link. Please allow clipboard access and try again.',
+        isSuccess: false
+      });
+    }
+  };
+
+  const microphoneSettings = (
+    <MicrophoneSettingsMenu
+      disabled={isPlaying}
+      pitchAlgorithm={pitchAlgorithm}
+      onPitchAlgorithmChange={onPitchAlgorithmChange}
+      voiceProfile={voiceProfile}
+      customVoiceRange={customVoiceRange}
+      onVoiceProfileChange={onVoiceProfileChange}
+      onCustomVoiceRangeChange={onCustomVoiceRangeChange}
+      onCalibrate={onCalibrateMicrophone}
+    />
+  );
+
+  const exportMenu = (
+    <div className="relative">
+      <button
+        onClick={() => setExportMenuOpen(prev => !prev)}
+        disabled={isPlaying || !onExportSong}
+        className="w-10 h-10 rounded-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-gray-300 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Export song"
+      >
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M19 9h-4V3H9v6H5l7 7 7-7zM5 18v2h14v-2H5z" />
+        </svg>
+      </button>
+      {exportMenuOpen && !isPlaying && (
+        <div className="absolute right-0 mt-2 w-56 bg-gray-800 border border-gray-600 rounded-lg shadow-lg z-40 overflow-hidden">
+          <button
+            onClick={() => handleExportSong('tsv')}
+            className="w-full text-left px-4 py-2 text-sm text-white hover:bg-gray-700"
+          >
+            Notes (.tsv)
+          </button>
+          <button
+            onClick={() => handleExportSong('tsv-beats')}
+            className="w-full text-left px-4 py-2 text-sm text-white hover:bg-gray-700"
+            title="Note lines written as bar.beat+length at the song tempo"
+          >
+            Notes in bars &amp; beats (.tsv)
+          </button>
+          <button
+            onClick={() => handleExportSong('ultrastar')}
+            className="w-full text-left px-4 py-2 text-sm text-white hover:bg-gray-700"
+          >
+            UltraStar (.txt)
+          </button>
+          <button
+            onClick={() => handleExportSong('midi')}
+            className="w-full text-left px-4 py-2 text-sm text-white hover:bg-gray-700"
+          >
+            MIDI (.mid)
+          </button>
+          <button
+            onClick={() => handleExportSong('midi-take')}
+            disabled={!hasTake}
+            className="w-full text-left px-4 py-2 text-sm text-white hover:bg-gray-700 disabled:text-gray-500 disabled:hover:bg-gray-800 disabled:cursor-not-allowed"
+            title={hasTake ? 'Melody plus your last take as a second track' : 'Sing the song first to record a take'}
+          >
+            MIDI with my take (.mid)
+          </button>
+          {onCopyShareLink && (
+            <button
+              onClick={handleCopyShareLink}
+              className="w-full text-left px-4 py-2 text-sm text-white hover:bg-gray-700 border-t border-gray-600"
+              title="Copy a link that opens this song, with your transposition, for someone else"
+            >
+              Copy share link
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
   
   const handleImportSong = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -70,7 +193,19 @@ const Controls: React.FC<ControlsProps> = ({
         }
         
         const title = file.name.replace(/\.[^/.]+$/, '').replace(/_/g, ' ');
-        const song = parseTextToSong(text, title, 'Imported');
+        const { song, diagnostics } = parseTextToSongWithDiagnostics(text, title, 'Imported');
+        const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+        
+        if (errorCount > 0) {
+          setUploadModal({
+            isOpen: true,
+            title: 'Upload Failed',
+            message: `Found ${errorCount} error${errorCount === 1 ? '' : 's'} in the file. Fix the lines below and try again.`,
+            isSuccess: false,
+            diagnostics
+          });
+          return;
+        }
         
         if (song.notes.length === 0) {
           setUploadModal({
@@ -93,7 +228,8 @@ const Controls: React.FC<ControlsProps> = ({
           isOpen: true,
           title: 'Upload Successful',
           message: `Successfully imported "${song.title}" with ${song.notes.length} notes! The song has been automatically selected.`,
-          isSuccess: true
+          isSuccess: true,
+          diagnostics
         });
       } catch (error) {
         console.error('Failed to import song:', error);
@@ -226,6 +362,8 @@ const Controls: React.FC<ControlsProps> = ({
         </div>
         
         <div className="flex items-center space-x-4">
+          {microphoneSettings}
+          {exportMenu}
           <div className="text-right">
             <div className="text-lg font-mono text-white">
               {formatTime(currentTime)}
@@ -334,6 +472,9 @@ const Controls: React.FC<ControlsProps> = ({
               </svg>
             )}
           </button>
+          
+          {microphoneSettings}
+          {exportMenu}
         </div>
         
         {/* Row 3: Time Display and Progress */}
@@ -379,6 +520,7 @@ const Controls: React.FC<ControlsProps> = ({
         title={uploadModal.title}
         message={uploadModal.message}
         isSuccess={uploadModal.isSuccess}
+        diagnostics={uploadModal.diagnostics}
       />
       
       <input
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Song, SongMatch, DuplicateResolution } from '../types';
+
+interface DuplicateSongPanelProps {
+  song: Song; // The song being imported
+  matches: SongMatch[];
+  isUserSong: (songId: string) => boolean; // Built-in songs cannot be merged into or replaced
+  onResolve: (resolution: DuplicateResolution, match?: SongMatch) => void;
+  onCancel: () => void;
+}
+
+const describeMatch = (match: SongMatch): string => {
+  if (match.exact) return 'Identical notes and lyrics';
+  const parts = ['Same melody'];
+  if (match.transposition !== 0) {
+    const steps = Math.abs(match.transposition);
+    parts.push(`${steps} semitone${steps === 1 ? '' : 's'} ${match.transposition > 0 ? 'higher' : 'lower'}`);
+  }
+  if (match.lyricsDiffer) parts.push('different lyrics');
+  if (match.transposition === 0 && !match.lyricsDiffer) parts.push('slightly different timing');
+  return parts.join(', ');
+};
+
+const DuplicateSongPanel: React.FC<DuplicateSongPanelProps> = ({ song, matches, isUserSong, onResolve, onCancel }) => {
+  const hasExactMatch = matches.some(match => match.exact);
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-yellow-500 bg-gray-800">
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <h3 className="font-semibold text-white">Already in your library?</h3>
+          <p className="text-sm text-gray-400">"{song.title}" has the same melody as:</p>
+        </div>
+        <button
+          onClick={onCancel}
+          className="text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        {matches.map(match => {
+          const canChange = isUserSong(match.song.id) && !match.exact;
+          return (
+            <div key={match.song.id} className="p-3 rounded-lg border border-gray-600 bg-gray-900 flex justify-between items-center gap-3">
+              <div className="min-w-0">
+                <div className="text-white font-medium truncate">
+                  {match.song.title}
+                  <span className="text-gray-400 font-normal"> • {match.song.artist}</span>
+                </div>
+                <div className="text-xs text-gray-500">{describeMatch(match)}</div>
+              </div>
+              <div className="flex gap-2 flex-shrink-0 text-sm">
+                <button
+                  onClick={() => onResolve('open-existing', match)}
+                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+                >
+                  Open
+                </button>
+                {canChange && match.lyricsDiffer && (
+                  <button
+                    onClick={() => onResolve('merge', match)}
+                    className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+                    title="Keep this song and add lyrics from the import where it has none"
+                  >
+                    Merge lyrics
+                  </button>
+                )}
+                {canChange && (
+                  <button
+                    onClick={() => onResolve('replace', match)}
+                    className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+                    title="Use the imported notes; scores and tags stay with the song"
+                  >
+                    Replace
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {!hasExactMatch && (
+        <div className="flex justify-end">
+          <button
+            onClick={() => onResolve('keep-both')}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            Import as New Song
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateSongPanel;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Song, LibraryBackup, LibraryConflictPolicy } from '../types';
+
+interface LibraryRestorePanelProps {
+  fileName: string;
+  backup: LibraryBackup;
+  conflicts: Song[]; // Backup songs whose ID belongs to a different song in the library
+  onRestore: (conflictPolicy: LibraryConflictPolicy, restoreSettings: boolean) => void;
+  onCancel: () => void;
+}
+
+const CONFLICT_CHOICES: { policy: LibraryConflictPolicy; label: string; detail: string }[] = [
+  { policy: 'keep-both', label: 'Keep both', detail: 'Import them as copies marked "(imported)"' },
+  { policy: 'replace', label: 'Replace', detail: 'Overwrite your versions with the backup' },
+  { policy: 'skip', label: 'Skip', detail: 'Keep your versions and ignore the backup ones' }
+];
+
+const LibraryRestorePanel: React.FC<LibraryRestorePanelProps> = ({ fileName, backup, conflicts, onRestore, onCancel }) => {
+  const [conflictPolicy, setConflictPolicy] = useState<LibraryConflictPolicy>('keep-both');
+  const [restoreSettings, setRestoreSettings] = useState(false);
+  const historyCount = Object.values(backup.scoreHistory).reduce((sum, results) => sum + results.length, 0);
+  const exportedAt = backup.exportedAt ? new Date(backup.exportedAt).toLocaleString() : null;
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-blue-500 bg-gray-800">
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <h3 className="font-semibold text-white">Import library</h3>
+          <p className="text-sm text-gray-400">
+            {fileName}{exportedAt && ` • saved ${exportedAt}`}
+          </p>
+        </div>
+        <button
+          onClick={onCancel}
+          className="text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-300 mb-3">
+        {backup.songs.length} song{backup.songs.length === 1 ? '' : 's'} and {historyCount} score{historyCount === 1 ? '' : 's'} in the backup.
+      </p>
+
+      {conflicts.length > 0 && (
+        <div className="mb-3">
+          <p className="text-sm text-yellow-400 mb-2">
+            {conflicts.length} song{conflicts.length === 1 ? ' is' : 's are'} already in your library with different content:
+          </p>
+          <ul className="text-sm text-gray-400 mb-3 max-h-24 overflow-y-auto list-disc list-inside">
+            {conflicts.map(song => (
+              <li key={song.id} className="truncate">{song.title}</li>
+            ))}
+          </ul>
+          <div className="space-y-2">
+            {CONFLICT_CHOICES.map(choice => (
+              <label key={choice.policy} className="flex items-start space-x-2 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  name="conflictPolicy"
+                  checked={conflictPolicy === choice.policy}
+                  onChange={() => setConflictPolicy(choice.policy)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="text-white">{choice.label}</span>
+                  <span className="text-gray-400"> — {choice.detail}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {Object.keys(backup.settings).length > 0 && (
+        <label className="flex items-center space-x-2 text-sm text-gray-300 mb-4 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={restoreSettings}
+            onChange={e => setRestoreSettings(e.target.checked)}
+          />
+          <span>Also restore settings (the app will reload)</span>
+        </label>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => onRestore(conflictPolicy, restoreSettings)}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+        >
+          Import
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryRestorePanel;
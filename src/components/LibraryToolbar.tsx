@@ -0,0 +1,131 @@
+import React from 'react';
+import { LibraryView, LibrarySort, LibraryLength, SongDifficulty } from '../types';
+import { getMidiNoteName } from '../utils/musicUtils';
+import { DEFAULT_LIBRARY_VIEW, isLibraryViewFiltered } from '../utils/songLibrary';
+
+interface LibraryToolbarProps {
+  view: LibraryView;
+  onChange: (view: LibraryView) => void;
+  tags: string[]; // Every tag in the library
+  keys: string[]; // Every key of the known songs
+  resultCount: number;
+}
+
+const SORT_LABELS: Record<LibrarySort, string> = {
+  'default': 'Sections',
+  'title': 'Title',
+  'last-played': 'Last played',
+  'best-score': 'Best score'
+};
+
+const LENGTH_LABELS: Record<LibraryLength, string> = {
+  short: 'Under 1 min',
+  medium: '1–3 min',
+  long: 'Over 3 min'
+};
+
+const DIFFICULTIES: SongDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+// C2 to C6 covers the range of nearly every singer
+const RANGE_NOTES = Array.from({ length: 49 }, (_, i) => 36 + i);
+
+const selectClass = 'bg-gray-900 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500';
+
+const LibraryToolbar: React.FC<LibraryToolbarProps> = ({ view, onChange, tags, keys, resultCount }) => {
+  const update = (changes: Partial<LibraryView>) => onChange({ ...view, ...changes });
+  const isFiltered = isLibraryViewFiltered(view);
+
+  return (
+    <div className="mb-6 space-y-3">
+      <div className="flex gap-3">
+        <input
+          type="search"
+          value={view.query}
+          onChange={e => update({ query: e.target.value })}
+          placeholder="Search titles, artists and lyrics"
+          className="flex-1 bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+        />
+        <select
+          value={view.sort}
+          onChange={e => update({ sort: e.target.value as LibrarySort })}
+          className={selectClass}
+          title="Sort by"
+        >
+          {(Object.keys(SORT_LABELS) as LibrarySort[]).map(sort => (
+            <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button
+          onClick={() => update({ favoritesOnly: !view.favoritesOnly })}
+          className={`px-3 py-1 rounded-lg border transition-colors ${
+            view.favoritesOnly ? 'border-yellow-500 text-yellow-400 bg-yellow-900/30' : 'border-gray-600 text-gray-400 hover:text-white'
+          }`}
+        >
+          ★ Favourites
+        </button>
+        <select value={view.tag ?? ''} onChange={e => update({ tag: e.target.value || null })} className={selectClass}>
+          <option value="">Any tag</option>
+          {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+        </select>
+        <select value={view.key ?? ''} onChange={e => update({ key: e.target.value || null })} className={selectClass}>
+          <option value="">Any key</option>
+          {keys.map(key => <option key={key} value={key}>{key}</option>)}
+        </select>
+        <select
+          value={view.difficulty ?? ''}
+          onChange={e => update({ difficulty: (e.target.value || null) as SongDifficulty | null })}
+          className={`${selectClass} capitalize`}
+        >
+          <option value="">Any difficulty</option>
+          {DIFFICULTIES.map(difficulty => <option key={difficulty} value={difficulty}>{difficulty}</option>)}
+        </select>
+        <select
+          value={view.length ?? ''}
+          onChange={e => update({ length: (e.target.value || null) as LibraryLength | null })}
+          className={selectClass}
+        >
+          <option value="">Any length</option>
+          {(Object.keys(LENGTH_LABELS) as LibraryLength[]).map(length => (
+            <option key={length} value={length}>{LENGTH_LABELS[length]}</option>
+          ))}
+        </select>
+        <span className="text-gray-400">Range</span>
+        <select
+          value={view.rangeLow ?? ''}
+          onChange={e => update({ rangeLow: e.target.value ? Number(e.target.value) : null })}
+          className={selectClass}
+          title="Lowest note you can sing"
+        >
+          <option value="">Lowest</option>
+          {RANGE_NOTES.map(note => <option key={note} value={note}>{getMidiNoteName(note)}</option>)}
+        </select>
+        <span className="text-gray-500">–</span>
+        <select
+          value={view.rangeHigh ?? ''}
+          onChange={e => update({ rangeHigh: e.target.value ? Number(e.target.value) : null })}
+          className={selectClass}
+          title="Highest note you can sing"
+        >
+          <option value="">Highest</option>
+          {RANGE_NOTES.map(note => <option key={note} value={note}>{getMidiNoteName(note)}</option>)}
+        </select>
+        {isFiltered && (
+          <>
+            <span className="text-gray-400 ml-auto">{resultCount} song{resultCount === 1 ? '' : 's'}</span>
+            <button
+              onClick={() => onChange({ ...DEFAULT_LIBRARY_VIEW, sort: view.sort })}
+              className="text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              Clear filters
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryToolbar;
@@ -0,0 +1,274 @@
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { Song, TimelineState, VoiceAnalysis, VocalRange } from '../types';
+import { AudioSynthesizer, midiToFrequency } from '../utils/musicUtils';
+import { syllabifyLyrics, findTapNoteIndex, applyLyricAssignments, lyricsToText } from '../utils/lyricAlignment';
+import { buildEditedSong } from '../utils/noteEditor';
+import Timeline from './Timeline';
+
+interface LyricTapperProps {
+  song: Song;
+  isUserSong: boolean; // Built-in songs are saved as a new song
+  timeline: TimelineState;
+  onTimelineChange: (changes: Partial<TimelineState>) => void;
+  transpositionSemitones: number;
+  pitchRange: VocalRange; // Timeline pitch range from the voice profile
+  onTransposeUp: () => void;
+  onTransposeDown: () => void;
+  audioSynthesizer: AudioSynthesizer;
+  noteSoundEnabled: boolean;
+  onSave: (song: Song) => void;
+  onCancel: () => void;
+}
+
+type TapPhase = 'text' | 'tapping' | 'review';
+
+const LEAD_IN = 1.5; // Seconds before the first note, to get ready
+const SPEED_OPTIONS = [1, 0.75, 0.5];
+
+// The tapper plays the melody itself, so the pitch display stays empty
+const SILENT_ANALYSIS: VoiceAnalysis = {
+  currentPitch: null,
+  targetNote: null,
+  accuracy: 0,
+  deviation: 0,
+  isOnPitch: false,
+  octaveAdjusted: false
+};
+
+const buttonClass = 'px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const LyricTapper: React.FC<LyricTapperProps> = ({
+  song,
+  isUserSong,
+  timeline,
+  onTimelineChange,
+  transpositionSemitones,
+  pitchRange,
+  onTransposeUp,
+  onTransposeDown,
+  audioSynthesizer,
+  noteSoundEnabled,
+  onSave,
+  onCancel
+}) => {
+  const notes = useMemo(() => [...song.notes].sort((a, b) => a.time - b.time), [song.notes]);
+  const [text, setText] = useState(() => lyricsToText(notes));
+  const [phase, setPhase] = useState<TapPhase>('text');
+  const [speed, setSpeed] = useState(1);
+  const [assignments, setAssignments] = useState<number[]>([]);
+  const [clock, setClock] = useState(0);
+
+  const syllables = useMemo(() => syllabifyLyrics(text), [text]);
+  const lyricNotes = useMemo(() => applyLyricAssignments(notes, syllables, assignments), [notes, syllables, assignments]);
+  const songEnd = notes.length > 0 ? notes[notes.length - 1].time + notes[notes.length - 1].duration : 0;
+
+  const frameRef = useRef<number | null>(null);
+  const clockRef = useRef(0);
+  const assignmentsRef = useRef<number[]>([]);
+  assignmentsRef.current = assignments;
+
+  const stopPlayback = () => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    audioSynthesizer.stopAll();
+  };
+
+  useEffect(() => stopPlayback, []);
+
+  const startTapping = async () => {
+    await audioSynthesizer.initialize();
+    assignmentsRef.current = [];
+    setAssignments([]);
+    setPhase('tapping');
+
+    const startedAt = performance.now();
+    let nextNote = 0;
+    const tick = () => {
+      const time = ((performance.now() - startedAt) / 1000) * speed - LEAD_IN;
+      clockRef.current = time;
+      setClock(Math.max(0, time));
+      while (nextNote < notes.length && notes[nextNote].time <= time) {
+        const note = notes[nextNote++];
+        if (noteSoundEnabled) {
+          audioSynthesizer.playNote(midiToFrequency(note.pitch + transpositionSemitones), note.duration / speed);
+        }
+      }
+      if (time > songEnd + 0.5) {
+        frameRef.current = null;
+        setPhase('review');
+        return;
+      }
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+  };
+
+  const stopTapping = () => {
+    stopPlayback();
+    setPhase('review');
+  };
+
+  const tap = () => {
+    const placed = assignmentsRef.current;
+    if (placed.length >= syllables.length) return;
+    const index = findTapNoteIndex(notes, placed.length > 0 ? placed[placed.length - 1] : -1, clockRef.current);
+    if (index === null) return;
+    // Taps can come faster than renders, so the ref is updated straight away
+    assignmentsRef.current = [...placed, index];
+    setAssignments(assignmentsRef.current);
+  };
+
+  const undoTap = () => {
+    assignmentsRef.current = assignmentsRef.current.slice(0, -1);
+    setAssignments(assignmentsRef.current);
+  };
+
+  // One syllable per note, for songs without melismas
+  const fillInOrder = () => {
+    setAssignments(syllables.slice(0, notes.length).map((_, i) => i));
+    setPhase('review');
+  };
+
+  // Space or Enter taps, Backspace takes the last tap back
+  useEffect(() => {
+    if (phase !== 'tapping') return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat) return;
+      if (event.code === 'Space' || event.key === 'Enter') {
+        event.preventDefault();
+        tap();
+      } else if (event.key === 'Backspace') {
+        event.preventDefault();
+        undoTap();
+      } else if (event.key === 'Escape') {
+        stopTapping();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleSave = () => {
+    stopPlayback();
+    onSave(buildEditedSong(song, lyricNotes, isUserSong));
+  };
+
+  const handleCancel = () => {
+    stopPlayback();
+    onCancel();
+  };
+
+  const placedCount = assignments.length;
+  const upcoming = syllables.slice(placedCount, placedCount + 8);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-shrink-0 p-3 bg-gray-800 border-b border-gray-700 space-y-3">
+        {phase === 'text' && (
+          <>
+            <textarea
+              value={text}
+              onChange={e => setText(e.target.value)}
+              rows={3}
+              placeholder="Paste the lyrics here, one line per phrase. Hyphens you type (Hap-py) are kept as syllable breaks."
+              className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+            />
+            <div className="text-xs text-gray-400 max-h-12 overflow-y-auto">
+              {syllables.length} syllable{syllables.length === 1 ? '' : 's'} for {notes.length} notes:{' '}
+              <span className="font-mono text-gray-500">{syllables.map(s => s.text).join(' ')}</span>
+            </div>
+          </>
+        )}
+
+        {phase === 'tapping' && (
+          <div className="flex items-center gap-3 text-sm">
+            <span className="text-gray-400">Next:</span>
+            <div className="flex gap-2 font-mono overflow-hidden">
+              {upcoming.length > 0
+                ? upcoming.map((syllable, i) => (
+                  <span key={placedCount + i} className={i === 0 ? 'px-2 rounded bg-blue-600 text-white' : 'text-gray-400'}>
+                    {syllable.text}
+                  </span>
+                ))
+                : <span className="text-green-400">All syllables placed</span>}
+            </div>
+          </div>
+        )}
+
+        {phase === 'review' && (
+          <div className="text-sm text-gray-300">
+            Placed {placedCount} of {syllables.length} syllables.
+            {placedCount < syllables.length && ' The rest are left off; tap again or edit the text to place them.'}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 flex-wrap">
+          {phase === 'text' && (
+            <>
+              <label className="flex items-center gap-1 text-xs text-gray-400">
+                Speed
+                <select
+                  value={speed}
+                  onChange={e => setSpeed(Number(e.target.value))}
+                  className="bg-gray-700 border border-gray-600 rounded px-1 py-0.5 text-xs text-white"
+                >
+                  {SPEED_OPTIONS.map(option => <option key={option} value={option}>{option * 100}%</option>)}
+                </select>
+              </label>
+              <button onClick={startTapping} disabled={syllables.length === 0 || notes.length === 0} className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed">
+                Start Tapping
+              </button>
+              <button onClick={fillInOrder} disabled={syllables.length === 0} className={buttonClass} title="Put one syllable on each note, in order">
+                Fill in Order
+              </button>
+            </>
+          )}
+          {phase === 'tapping' && (
+            <>
+              <button onClick={tap} className="px-6 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors">
+                Tap (Space)
+              </button>
+              <button onClick={undoTap} disabled={placedCount === 0} className={buttonClass}>Undo Tap (Backspace)</button>
+              <button onClick={stopTapping} className={buttonClass}>Stop</button>
+            </>
+          )}
+          {phase === 'review' && (
+            <>
+              <button onClick={startTapping} className={buttonClass}>Tap Again</button>
+              <button onClick={() => setPhase('text')} className={buttonClass}>Edit Text</button>
+              <button
+                onClick={handleSave}
+                disabled={placedCount === 0}
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+                title={isUserSong ? 'Save the lyrics to this song' : 'Built-in songs are saved as a new song'}
+              >
+                {isUserSong ? 'Save' : 'Save as New Song'}
+              </button>
+            </>
+          )}
+          <button onClick={handleCancel} className="px-3 py-1 text-sm text-gray-400 hover:text-white transition-colors">Cancel</button>
+        </div>
+      </div>
+
+      <Timeline
+        song={phase === 'text' ? song : { ...song, notes: lyricNotes }}
+        timeline={{ ...timeline, currentTime: phase === 'tapping' ? clock : 0, isPlaying: phase === 'tapping' }}
+        voiceAnalysis={SILENT_ANALYSIS}
+        voiceHistory={[]}
+        onTimelineChange={changes => {
+          // Playback position belongs to the tapper; only the zoom goes back to the app
+          if (changes.zoom !== undefined) onTimelineChange({ zoom: changes.zoom });
+        }}
+        transpositionSemitones={transpositionSemitones}
+        onTransposeUp={onTransposeUp}
+        onTransposeDown={onTransposeDown}
+        pitchRange={pitchRange}
+        toolbar={<span className="text-xs text-blue-400 font-semibold">Tap-along lyrics</span>}
+      />
+    </div>
+  );
+};
+
+export default LyricTapper;
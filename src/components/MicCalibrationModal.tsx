@@ -0,0 +1,295 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { MicCalibration, PitchDetectorConfig, PitchObservation } from '../types';
+import { PitchDetector } from '../utils/pitchDetection';
+import { AudioSynthesizer } from '../utils/musicUtils';
+import { InputDevice, SingingLevelCheck, getMicCalibration, saveMicCalibration, measureNoiseFloor, measureSingingLevel, checkSingingLevel, chooseGate, estimateLatency, TEST_TONE_DURATION, TEST_TONE_INTERVAL } from '../utils/micCalibration';
+
+interface MicCalibrationModalProps {
+  audioSynthesizer: AudioSynthesizer;
+  pitchConfig: PitchDetectorConfig;
+  onClose: () => void;
+}
+
+type CalibrationStep = 'intro' | 'noise' | 'singing' | 'latency' | 'done';
+
+const NOISE_MS = 3000;
+const SINGING_MS = 4000;
+const TONE_NOISE_MS = 1000; // Quiet before the test tones, on the raw input they are heard through
+const TEST_TONE_COUNT = 5;
+const TEST_TONE_FREQUENCY = 880;
+const POLL_MS = 20; // AnalyserNode fallback; the worklet reports every hop by itself
+const METER_UPDATE_MS = 100;
+const METER_FLOOR_DB = -60;
+
+const SINGING_ADVICE: Record<SingingLevelCheck, string> = {
+  'too-quiet': 'Quiet. Move closer to the microphone or raise its input volume.',
+  good: 'Good level.',
+  'too-loud': 'Very loud and may distort. Move back a little or lower the input volume.'
+};
+
+const toDecibels = (rms: number): number => 20 * Math.log10(Math.max(rms, 1e-5));
+const formatDecibels = (rms: number): string => `${Math.round(toDecibels(rms))} dB`;
+const meterPercent = (rms: number): number => Math.max(0, Math.min(100, (1 - toDecibels(rms) / METER_FLOOR_DB) * 100));
+
+const MicCalibrationModal: React.FC<MicCalibrationModalProps> = ({ audioSynthesizer, pitchConfig, onClose }) => {
+  const [step, setStep] = useState<CalibrationStep>('intro');
+  const [device, setDevice] = useState<InputDevice | null>(null);
+  const [previous, setPrevious] = useState<MicCalibration | null>(null);
+  const [level, setLevel] = useState(0);
+  const [noiseFloor, setNoiseFloor] = useState<number | null>(null);
+  const [singingLevel, setSingingLevel] = useState<number | null>(null);
+  const [latencyHeard, setLatencyHeard] = useState<boolean | null>(null);
+  const [latencyMs, setLatencyMs] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const detectorRef = useRef<PitchDetector | null>(null);
+  const stopLoopRef = useRef<(() => void) | null>(null);
+  const rawInputRef = useRef(false); // Whether the open detector bypasses echo cancellation
+  const deviceRef = useRef<InputDevice | null>(null);
+  const timersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const framesRef = useRef<PitchObservation[]>([]);
+  const lastMeterRef = useRef(0);
+
+  const wait = (ms: number) => new Promise<void>(resolve => {
+    timersRef.current.push(setTimeout(resolve, ms));
+  });
+
+  const stopDetector = () => {
+    stopLoopRef.current?.();
+    stopLoopRef.current = null;
+    detectorRef.current?.cleanup();
+    detectorRef.current = null;
+  };
+
+  const release = () => {
+    timersRef.current.forEach(timer => clearTimeout(timer));
+    timersRef.current = [];
+    stopDetector();
+    audioSynthesizer.stopAll();
+  };
+
+  useEffect(() => release, []);
+
+  const handleObservation = (observation: PitchObservation) => {
+    framesRef.current.push(observation);
+    const now = Date.now();
+    if (now - lastMeterRef.current >= METER_UPDATE_MS) {
+      lastMeterRef.current = now;
+      setLevel(observation.rms);
+    }
+  };
+
+  // No gate or stored latency. Noise and singing are measured on the same processed input
+  // as playback; only the test tones need raw input, or echo cancellation removes them.
+  const openMicrophone = async (rawInput: boolean): Promise<boolean> => {
+    if (detectorRef.current && rawInputRef.current === rawInput) return true;
+    stopDetector();
+    const detector = new PitchDetector({ ...pitchConfig, rmsThreshold: 0.001 }, { rawInput, calibrated: false });
+    try {
+      await detector.initialize();
+    } catch (initError) {
+      console.error('Failed to start calibration:', initError);
+      setError(initError instanceof Error ? initError.message : 'Microphone access failed');
+      return false;
+    }
+    detectorRef.current = detector;
+    rawInputRef.current = rawInput;
+    if (detector.usesWorklet) {
+      stopLoopRef.current = detector.onPitch(handleObservation);
+    } else {
+      const interval = setInterval(() => {
+        const observation = detector.observe();
+        if (observation) handleObservation(observation);
+      }, POLL_MS);
+      stopLoopRef.current = () => clearInterval(interval);
+    }
+
+    if (!deviceRef.current) {
+      const inputDevice = detector.inputDevice;
+      const stored = inputDevice ? getMicCalibration(inputDevice.key) : null;
+      deviceRef.current = inputDevice;
+      setDevice(inputDevice);
+      setPrevious(stored);
+      if (stored) setLatencyMs(Math.round(stored.latency * 1000));
+    }
+    return true;
+  };
+
+  const record = async (next: CalibrationStep, ms: number): Promise<PitchObservation[]> => {
+    framesRef.current = [];
+    setStep(next);
+    await wait(ms);
+    return framesRef.current;
+  };
+
+  const measureSinging = async () => {
+    if (!(await openMicrophone(false))) return;
+    setSingingLevel(measureSingingLevel(await record('singing', SINGING_MS)));
+  };
+
+  const measureLatency = async () => {
+    if (!(await openMicrophone(true))) return;
+    await audioSynthesizer.initialize();
+    // The raw input is noisier than the processed one, so its own floor separates the tones
+    const noise = measureNoiseFloor(await record('latency', TONE_NOISE_MS));
+    framesRef.current = [];
+    const playedAt: number[] = [];
+    for (let i = 0; i < TEST_TONE_COUNT; i++) {
+      await audioSynthesizer.playNote(TEST_TONE_FREQUENCY, TEST_TONE_DURATION);
+      playedAt.push(Date.now());
+      await wait(TEST_TONE_INTERVAL * 1000);
+    }
+    const latency = estimateLatency(framesRef.current, playedAt, noise);
+    setLatencyHeard(latency !== null);
+    if (latency !== null) setLatencyMs(Math.round(latency * 1000));
+  };
+
+  const runCalibration = async () => {
+    setError(null);
+    if (!(await openMicrophone(false))) return;
+    setNoiseFloor(measureNoiseFloor(await record('noise', NOISE_MS)));
+    await measureSinging();
+    await measureLatency();
+    setStep('done');
+  };
+
+  const repeat = async (measure: () => Promise<void>) => {
+    await measure();
+    setStep('done');
+  };
+
+  const handleSave = () => {
+    if (!device || noiseFloor === null) return;
+    saveMicCalibration({
+      deviceKey: device.key,
+      deviceLabel: device.label,
+      noiseFloor,
+      singingLevel,
+      rmsThreshold: chooseGate(noiseFloor, singingLevel),
+      latency: Math.max(0, latencyMs) / 1000,
+      calibratedAt: Date.now()
+    });
+    release();
+    onClose();
+  };
+
+  const handleClose = () => {
+    release();
+    onClose();
+  };
+
+  const gate = noiseFloor !== null ? chooseGate(noiseFloor, singingLevel) : null;
+  const instructions: Record<CalibrationStep, string> = {
+    intro: 'Measures your room and microphone so quiet singing is heard, background noise is ignored, and notes are scored at the right moment. Use speakers rather than headphones for the latency step.',
+    noise: 'Stay quiet for a moment while the room noise is measured…',
+    singing: 'Now sing a comfortable “aah” and hold it…',
+    latency: 'Playing test tones. Keep quiet while the delay through your speakers and microphone is measured…',
+    done: 'Save to use these settings whenever this microphone is used.'
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 max-w-lg w-full mx-4 border border-gray-600">
+        <h3 className="text-lg font-medium text-white mb-1">Calibrate Microphone</h3>
+        <p className="text-sm text-gray-400 mb-4">{instructions[step]}</p>
+
+        {device && (
+          <div className="text-xs text-gray-500 mb-3">
+            {device.label}
+            {previous && ` • last calibrated ${new Date(previous.calibratedAt).toLocaleDateString()}`}
+          </div>
+        )}
+
+        {step !== 'intro' && (
+          <div className="bg-gray-900 rounded-lg p-4 mb-4 border border-gray-700">
+            <div className="relative h-3 bg-gray-700 rounded overflow-hidden">
+              <div
+                className={`h-full transition-all duration-100 ${step === 'singing' ? 'bg-green-500' : 'bg-blue-500'}`}
+                style={{ width: `${meterPercent(level)}%` }}
+              />
+              {gate !== null && (
+                <div className="absolute top-0 bottom-0 w-0.5 bg-yellow-400" style={{ left: `${meterPercent(gate)}%` }} title="Gate" />
+              )}
+            </div>
+            <div className="text-xs text-gray-400 mt-1 text-right">{formatDecibels(level)}</div>
+          </div>
+        )}
+
+        {step === 'done' && noiseFloor !== null && (
+          <div className="space-y-2 text-sm mb-4">
+            <div className="flex justify-between text-gray-300">
+              <span>Room noise</span>
+              <span>{formatDecibels(noiseFloor)} → gate at {formatDecibels(gate!)}</span>
+            </div>
+            <div className="flex justify-between text-gray-300">
+              <span>Singing</span>
+              <span className={singingLevel !== null && checkSingingLevel(singingLevel) === 'good' ? 'text-green-400' : 'text-yellow-400'}>
+                {singingLevel !== null ? `${formatDecibels(singingLevel)}: ${SINGING_ADVICE[checkSingingLevel(singingLevel)]}` : 'No sung note was heard.'}
+              </span>
+            </div>
+            <label className="flex justify-between items-center text-gray-300">
+              <span>Latency (ms)</span>
+              <input
+                type="number"
+                min={0}
+                max={1000}
+                value={latencyMs}
+                onChange={e => setLatencyMs(Number(e.target.value))}
+                className="w-24 bg-gray-900 border border-gray-600 rounded-lg px-2 py-1 text-white text-right focus:outline-none focus:border-blue-500"
+              />
+            </label>
+            {latencyHeard === false && (
+              <p className="text-xs text-yellow-400">
+                The test tones were not heard, so the latency was not measured. Turn the volume up or unplug headphones and measure again, or enter it yourself.
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          {step === 'intro' && (
+            <button
+              onClick={runCalibration}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+            >
+              Start
+            </button>
+          )}
+          {step === 'done' && (
+            <>
+              <button
+                onClick={() => repeat(measureSinging)}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+              >
+                Sing Again
+              </button>
+              <button
+                onClick={() => repeat(measureLatency)}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+              >
+                Measure Latency Again
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!device}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MicCalibrationModal;
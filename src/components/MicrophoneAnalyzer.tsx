@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useCallback } from 'react';
-import { VoiceAnalysis, MicrophoneState, PitchDetectionResult, VoiceHistory } from '../types';
+import { VoiceAnalysis, MicrophoneState, PitchDetectionResult, PitchObservation, VoiceHistory, PitchDetectorConfig } from '../types';
 import { PitchDetector } from '../utils/pitchDetection';
+import { PitchTracker } from '../utils/pitchTracker';
 import { frequencyToMidi, getMidiNoteName, getMidiNoteNameOnly, centsFromFrequencies, isOctaveEquivalent, transposeNote } from '../utils/musicUtils';
 
 // Deviation in cents wrapped to the nearest octave ([-600, 600] range)
@@ -19,6 +20,7 @@ interface MicrophoneAnalyzerProps {
   currentTimeRef: React.MutableRefObject<number>;
   currentSong: any;
   transpositionSemitones: number;
+  pitchConfig: PitchDetectorConfig; // Algorithm and voice profile; takes effect the next time the microphone starts
   onVoiceAnalysisUpdate: (analysis: VoiceAnalysis) => void;
   onVoiceHistoryUpdate: (history: VoiceHistory) => void;
   onNoteHit: (noteId: string) => void;
@@ -31,13 +33,15 @@ const MicrophoneAnalyzer: React.FC<MicrophoneAnalyzerProps> = ({
   currentTimeRef,
   currentSong,
   transpositionSemitones,
+  pitchConfig,
   onVoiceAnalysisUpdate,
   onVoiceHistoryUpdate,
   onNoteHit,
   onMicrophoneStateChange
 }) => {
   const pitchDetectorRef = useRef<PitchDetector | null>(null);
-  const analysisIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Stops whichever analysis loop is running: worklet subscription or interval poll
+  const stopAnalysisLoopRef = useRef<(() => void) | null>(null);
   const isInitializingRef = useRef(false);
   
   const lastUIUpdateTsRef = useRef(0);
@@ -59,7 +63,7 @@ const MicrophoneAnalyzer: React.FC<MicrophoneAnalyzerProps> = ({
     
     try {
       console.log('Initializing microphone...');
-      const detector = new PitchDetector();
+      const detector = new PitchDetector(pitchConfig);
       
       // Enhanced initialization with retry logic
       let initSuccess = false;
@@ -107,7 +111,7 @@ const MicrophoneAnalyzer: React.FC<MicrophoneAnalyzerProps> = ({
     } finally {
       isInitializingRef.current = false;
     }
-  }, [onMicrophoneStateChange]);
+  }, [onMicrophoneStateChange, pitchConfig]);
   
   useEffect(() => {
     currentNoteIndexRef.current = 0;
@@ -116,10 +120,8 @@ const MicrophoneAnalyzer: React.FC<MicrophoneAnalyzerProps> = ({
   
   // Release microphone completely
   const releaseMicrophone = useCallback(() => {
-    if (analysisIntervalRef.current) {
-      clearInterval(analysisIntervalRef.current);
-      analysisIntervalRef.current = null;
-    }
+    stopAnalysisLoopRef.current?.();
+    stopAnalysisLoopRef.current = null;
 
     if (pitchDetectorRef.current) {
       pitchDetectorRef.current.cleanup();
@@ -138,25 +140,24 @@ const MicrophoneAnalyzer: React.FC<MicrophoneAnalyzerProps> = ({
   
   // Start analysis loop - Enhanced error handling and browser compatibility
   const startAnalysis = useCallback(() => {
-    if (analysisIntervalRef.current || !pitchDetectorRef.current) {
+    const detector = pitchDetectorRef.current;
+    if (stopAnalysisLoopRef.current || !detector) {
       return;
     }
     
     console.log('Starting voice analysis...');
     onMicrophoneStateChange({ isRecording: true });
     
-    analysisIntervalRef.current = setInterval(() => {
-      const detector = pitchDetectorRef.current;
-      if (!detector) return;
-
+    const analysePitch = (pitchResult: PitchDetectionResult | null) => {
       try {
         const now = Date.now();
-        const pitchResult = detector.detectPitch();
 
         // Determine current target note in O(1) amortized time using a moving index
         const notes: any[] = currentSong?.notes || [];
         const idxRef = currentNoteIndexRef;
-        const t = currentTimeRef.current;
+        // Worklet results are stamped with when the sound was made, slightly before now
+        const age = pitchResult ? Math.max(0, now - pitchResult.timestamp) / 1000 : 0;
+        const t = currentTimeRef.current - age;
         let idx = idxRef.current;
 
         // advance index while we've passed the end of current note
@@ -179,7 +180,7 @@ const MicrophoneAnalyzer: React.FC<MicrophoneAnalyzerProps> = ({
               noteNameOnly: pitchResult.noteNameOnly,
               confidence: pitchResult.confidence,
               clarity: pitchResult.clarity,
-              timestamp: now,
+              timestamp: pitchResult.timestamp,
             },
             targetNote: targetNote || null,
             accuracy: 0,
@@ -249,16 +250,31 @@ const MicrophoneAnalyzer: React.FC<MicrophoneAnalyzerProps> = ({
         console.error('Error in voice analysis:', error);
         // Continue the loop despite errors
       }
-    }, 80); // Optimized frequency for cross-browser performance
+    };
+
+    // Raw frames flicker between octaves; scoring and the timeline get the smoothed track
+    const tracker = new PitchTracker(detector.config);
+    const trackObservation = (observation: PitchObservation) => {
+      tracker.push(observation).forEach(tracked => analysePitch(tracked.result));
+    };
+
+    if (detector.usesWorklet) {
+      // Every hop of the stream arrives from the AudioWorklet
+      stopAnalysisLoopRef.current = detector.onPitch(trackObservation);
+    } else {
+      const interval = setInterval(() => {
+        const observation = pitchDetectorRef.current?.observe();
+        if (observation) trackObservation(observation);
+      }, 80); // Optimized frequency for cross-browser performance
+      stopAnalysisLoopRef.current = () => clearInterval(interval);
+    }
   }, [currentTimeRef, currentSong, onVoiceAnalysisUpdate, onVoiceHistoryUpdate, onNoteHit, onMicrophoneStateChange]);
   
   // Stop analysis loop
   const stopAnalysis = useCallback(() => {
     console.log('Stopping voice analysis...');
-    if (analysisIntervalRef.current) {
-      clearInterval(analysisIntervalRef.current);
-      analysisIntervalRef.current = null;
-    }
+    stopAnalysisLoopRef.current?.();
+    stopAnalysisLoopRef.current = null;
     onMicrophoneStateChange({ isRecording: false });
   }, [onMicrophoneStateChange]);
   
@@ -266,7 +282,7 @@ const MicrophoneAnalyzer: React.FC<MicrophoneAnalyzerProps> = ({
   useEffect(() => {
     const shouldRecord = isPlaying && !isMuted;
     const hasDetector = pitchDetectorRef.current !== null;
-    const isAnalyzing = analysisIntervalRef.current !== null;
+    const isAnalyzing = stopAnalysisLoopRef.current !== null;
     
     console.log('Microphone lifecycle check:', { 
       shouldRecord, 
@@ -281,7 +297,7 @@ const MicrophoneAnalyzer: React.FC<MicrophoneAnalyzerProps> = ({
         // Need to initialize microphone first
         initializeMicrophone().then(() => {
           // Start analysis after successful initialization
-          if (pitchDetectorRef.current && !analysisIntervalRef.current) {
+          if (pitchDetectorRef.current && !stopAnalysisLoopRef.current) {
             startAnalysis();
           }
         });
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { PitchAlgorithmId, VoiceProfileId, VocalRange } from '../types';
+import { PITCH_ALGORITHMS } from '../utils/pitchAlgorithms';
+import { VOICE_PROFILES, CUSTOM_VOICE_PROFILE_LABEL, getVoiceProfile } from '../utils/voiceProfiles';
+import { formatVocalRange, getMidiNoteName } from '../utils/musicUtils';
+
+// Notes offered for a custom range, E1 to C7
+const CUSTOM_RANGE_NOTES = Array.from({ length: 96 - 28 + 1 }, (_, i) => 28 + i);
+
+interface MicrophoneSettingsMenuProps {
+  disabled: boolean; // The detector is rebuilt on the next start, so changes wait for playback to stop
+  pitchAlgorithm: PitchAlgorithmId;
+  onPitchAlgorithmChange: (algorithm: PitchAlgorithmId) => void;
+  voiceProfile: VoiceProfileId;
+  customVoiceRange: VocalRange;
+  onVoiceProfileChange: (profile: VoiceProfileId) => void;
+  onCustomVoiceRangeChange: (range: VocalRange) => void;
+  onCalibrate: () => void;
+}
+
+const MicrophoneSettingsMenu: React.FC<MicrophoneSettingsMenuProps> = ({
+  disabled,
+  pitchAlgorithm,
+  onPitchAlgorithmChange,
+  voiceProfile,
+  customVoiceRange,
+  onVoiceProfileChange,
+  onCustomVoiceRangeChange,
+  onCalibrate
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const profile = getVoiceProfile(voiceProfile, customVoiceRange);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        className="w-10 h-10 rounded-full flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-gray-300 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Microphone settings"
+      >
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M19.14 12.94c.04-.3.06-.61.06-.94 0-.32-.02-.64-.07-.94l2.03-1.58a.49.49 0 0 0 .12-.61l-1.92-3.32a.488.488 0 0 0-.59-.22l-2.39.96c-.5-.38-1.03-.7-1.62-.94l-.36-2.54a.484.484 0 0 0-.48-.41h-3.84c-.24 0-.43.17-.47.41l-.36 2.54c-.59.24-1.13.57-1.62.94l-2.39-.96c-.22-.08-.47 0-.59.22L2.74 8.87c-.12.21-.08.47.12.61l2.03 1.58c-.05.3-.09.63-.09.94s.02.64.07.94l-2.03 1.58a.49.49 0 0 0-.12.61l1.92 3.32c.12.22.37.29.59.22l2.39-.96c.5.38 1.03.7 1.62.94l.36 2.54c.05.24.24.41.48.41h3.84c.24 0 .44-.17.47-.41l.36-2.54c.59-.24 1.13-.56 1.62-.94l2.39.96c.22.08.47 0 .59-.22l1.92-3.32c.12-.22.07-.47-.12-.61l-2.01-1.58zM12 15.6c-1.98 0-3.6-1.62-3.6-3.6s1.62-3.6 3.6-3.6 3.6 1.62 3.6 3.6-1.62 3.6-3.6 3.6z" />
+        </svg>
+      </button>
+      {isOpen && !disabled && (
+        <div className="absolute right-0 mt-2 w-72 bg-gray-800 border border-gray-600 rounded-lg shadow-lg z-40 p-3 space-y-2">
+          <div className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Voice</div>
+          <select
+            value={voiceProfile}
+            onChange={(e) => onVoiceProfileChange(e.target.value as VoiceProfileId)}
+            className="w-full bg-gray-700 text-white text-sm rounded px-2 py-1 border border-gray-600"
+          >
+            {VOICE_PROFILES.map(option => (
+              <option key={option.id} value={option.id}>
+                {option.label}{option.range ? ` (${formatVocalRange(option.range)})` : ''}
+              </option>
+            ))}
+            <option value="custom">{CUSTOM_VOICE_PROFILE_LABEL}</option>
+          </select>
+          {voiceProfile === 'custom' && (
+            <div className="flex items-center gap-2 text-sm text-gray-300">
+              <span>From</span>
+              <select
+                value={customVoiceRange.lowest}
+                onChange={(e) => onCustomVoiceRangeChange({ ...customVoiceRange, lowest: Number(e.target.value) })}
+                className="bg-gray-700 text-white rounded px-2 py-1 border border-gray-600"
+              >
+                {CUSTOM_RANGE_NOTES.filter(note => note < customVoiceRange.highest).map(note => (
+                  <option key={note} value={note}>{getMidiNoteName(note)}</option>
+                ))}
+              </select>
+              <span>to</span>
+              <select
+                value={customVoiceRange.highest}
+                onChange={(e) => onCustomVoiceRangeChange({ ...customVoiceRange, highest: Number(e.target.value) })}
+                className="bg-gray-700 text-white rounded px-2 py-1 border border-gray-600"
+              >
+                {CUSTOM_RANGE_NOTES.filter(note => note > customVoiceRange.lowest).map(note => (
+                  <option key={note} value={note}>{getMidiNoteName(note)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="text-xs text-gray-400">
+            Listens for {profile.detector.minFreq}–{profile.detector.maxFreq} Hz; the timeline shows {formatVocalRange(profile.timelineRange)}.
+          </div>
+          <div className="text-xs font-semibold text-gray-400 uppercase tracking-wide pt-2">Pitch detection</div>
+          {PITCH_ALGORITHMS.map(option => (
+            <label
+              key={option.id}
+              className={`block p-2 rounded-lg cursor-pointer border transition-colors ${
+                pitchAlgorithm === option.id ? 'border-blue-500 bg-gray-700' : 'border-transparent hover:bg-gray-700'
+              }`}
+            >
+              <div className="flex items-center gap-2 text-sm text-white">
+                <input
+                  type="radio"
+                  name="pitchAlgorithm"
+                  checked={pitchAlgorithm === option.id}
+                  onChange={() => onPitchAlgorithmChange(option.id)}
+                />
+                {option.label}
+              </div>
+              <div className="text-xs text-gray-400 mt-1 ml-5">{option.description}</div>
+            </label>
+          ))}
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onCalibrate();
+            }}
+            className="w-full mt-1 px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors"
+          >
+            Calibrate microphone…
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MicrophoneSettingsMenu;
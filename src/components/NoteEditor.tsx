@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { Song, Note, TimelineState, VoiceAnalysis, VoiceHistory, NoteEditHistory, NoteDragMode, VocalRange } from '../types';
+import { createHistory, pushHistory, undoHistory, redoHistory, getGridStep, addNote, deleteNotes, dragNotes, splitNotes, mergeNotes, setNoteLyric, buildEditedSong } from '../utils/noteEditor';
+import Timeline, { TimelineEditor } from './Timeline';
+
+interface NoteEditorProps {
+  song: Song;
+  isUserSong: boolean; // Built-in songs are saved as a new song
+  timeline: TimelineState;
+  voiceAnalysis: VoiceAnalysis;
+  voiceHistory: VoiceHistory[];
+  onTimelineChange: (changes: Partial<TimelineState>) => void;
+  transpositionSemitones: number;
+  pitchRange: VocalRange; // Timeline pitch range from the voice profile
+  onTransposeUp: () => void;
+  onTransposeDown: () => void;
+  onSave: (song: Song) => void;
+  onCancel: () => void;
+}
+
+// Snap options as divisions of a beat
+const SNAP_OPTIONS: { label: string; division: number | null }[] = [
+  { label: 'Off', division: null },
+  { label: '1 beat', division: 1 },
+  { label: '1/2 beat', division: 2 },
+  { label: '1/4 beat', division: 4 }
+];
+
+const toolButtonClass = 'px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const NoteEditor: React.FC<NoteEditorProps> = ({
+  song,
+  isUserSong,
+  timeline,
+  voiceAnalysis,
+  voiceHistory,
+  onTimelineChange,
+  transpositionSemitones,
+  pitchRange,
+  onTransposeUp,
+  onTransposeDown,
+  onSave,
+  onCancel
+}) => {
+  const [history, setHistory] = useState<NoteEditHistory>(() => createHistory(song.notes));
+  const [dragPreview, setDragPreview] = useState<Note[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [division, setDivision] = useState<number | null>(2);
+  const [editingLyricId, setEditingLyricId] = useState<string | null>(null);
+
+  const notes = dragPreview ?? history.present;
+  const gridStep = getGridStep(song, division);
+  const isChanged = history.past.length > 0;
+
+  const commit = (next: Note[]) => {
+    setHistory(prev => pushHistory(prev, next));
+  };
+
+  const handleUndo = () => {
+    setDragPreview(null);
+    setHistory(prev => undoHistory(prev));
+  };
+
+  const handleRedo = () => {
+    setDragPreview(null);
+    setHistory(prev => redoHistory(prev));
+  };
+
+  const handleDelete = () => {
+    if (selectedIds.size === 0) return;
+    commit(deleteNotes(history.present, selectedIds));
+    setSelectedIds(new Set());
+  };
+
+  const handleMerge = () => {
+    const { notes: merged, mergedId } = mergeNotes(history.present, selectedIds);
+    if (!mergedId) return;
+    commit(merged);
+    setSelectedIds(new Set([mergedId]));
+  };
+
+  // Splits the selected notes, or every note under the playhead when nothing is selected
+  const handleSplitAtPlayhead = () => {
+    const time = timeline.currentTime;
+    const ids = selectedIds.size > 0
+      ? selectedIds
+      : new Set(history.present.filter(n => time > n.time && time < n.time + n.duration).map(n => n.id));
+    const { notes: split, splitIds } = splitNotes(history.present, ids, time);
+    if (splitIds.length === 0) return;
+    commit(split);
+  };
+
+  const handleCancel = () => {
+    if (!isChanged || window.confirm('Discard your changes to the notes?')) {
+      onCancel();
+    }
+  };
+
+  const handleSave = () => {
+    onSave(buildEditedSong(song, history.present, isUserSong));
+  };
+
+  const editor: TimelineEditor = {
+    selectedIds,
+    gridStep,
+    editingLyricId,
+    onSelect: (ids, mode) => {
+      setSelectedIds(prev => {
+        if (mode === 'replace') return new Set(ids);
+        const next = new Set(prev);
+        ids.forEach(id => {
+          if (mode === 'toggle' && next.has(id)) {
+            next.delete(id);
+          } else {
+            next.add(id);
+          }
+        });
+        return next;
+      });
+    },
+    onAddNote: (time, pitch) => {
+      // New notes fill the grid cell that was clicked, or half a beat without snapping
+      const start = gridStep ? Math.floor(time / gridStep) * gridStep : time;
+      const { notes: added, id } = addNote(history.present, start, pitch, gridStep ?? getGridStep(song, 2)!);
+      commit(added);
+      setSelectedIds(new Set([id]));
+    },
+    onDrag: (anchorId: string, mode: NoteDragMode, deltaTime: number, deltaPitch: number, done: boolean) => {
+      const ids = selectedIds.has(anchorId) ? selectedIds : new Set([anchorId]);
+      const next = dragNotes(history.present, ids, anchorId, mode, deltaTime, deltaPitch, gridStep);
+      if (done) {
+        setDragPreview(null);
+        commit(next);
+      } else {
+        setDragPreview(next);
+      }
+    },
+    onSplit: (id, time) => {
+      const ids = selectedIds.has(id) ? selectedIds : new Set([id]);
+      const snapped = gridStep ? Math.round(time / gridStep) * gridStep : time;
+      const { notes: split, splitIds } = splitNotes(history.present, ids, snapped);
+      if (splitIds.length > 0) commit(split);
+    },
+    onEditLyric: setEditingLyricId,
+    onLyricCommit: (id, lyric, editNext) => {
+      const note = history.present.find(n => n.id === id);
+      if (note && (note.lyric ?? '') !== lyric.trim()) {
+        commit(setNoteLyric(history.present, id, lyric));
+      }
+      const index = history.present.findIndex(n => n.id === id);
+      const nextNote = editNext ? history.present[index + 1] : undefined;
+      setEditingLyricId(nextNote?.id ?? null);
+      if (nextNote) setSelectedIds(new Set([nextNote.id]));
+    }
+  };
+
+  // Editing shortcuts; typing in the lyric box or other inputs is left alone
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLElement && ['INPUT', 'TEXTAREA', 'SELECT'].includes(event.target.tagName)) return;
+      const isModifier = event.ctrlKey || event.metaKey;
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        handleDelete();
+      } else if (isModifier && event.key.toLowerCase() === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
+        }
+      } else if (isModifier && event.key.toLowerCase() === 'y') {
+        event.preventDefault();
+        handleRedo();
+      } else if (event.key === 'Escape') {
+        setSelectedIds(new Set());
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const toolbar = (
+    <div className="flex items-center gap-2 flex-wrap">
+      <span className="text-xs text-blue-400 font-semibold">Editing notes</span>
+      <label className="flex items-center gap-1 text-xs text-gray-400">
+        Snap
+        <select
+          value={division ?? ''}
+          onChange={(e) => setDivision(e.target.value ? Number(e.target.value) : null)}
+          className="bg-gray-700 border border-gray-600 rounded px-1 py-0.5 text-xs text-white"
+        >
+          {SNAP_OPTIONS.map(option => (
+            <option key={option.label} value={option.division ?? ''}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+      <button onClick={handleUndo} disabled={history.past.length === 0} className={toolButtonClass} title="Undo (Ctrl+Z)">Undo</button>
+      <button onClick={handleRedo} disabled={history.future.length === 0} className={toolButtonClass} title="Redo (Ctrl+Shift+Z)">Redo</button>
+      <button onClick={handleSplitAtPlayhead} className={toolButtonClass} title="Split notes at the playhead (Alt+click splits a note where you click)">Split</button>
+      <button onClick={handleMerge} disabled={selectedIds.size < 2} className={toolButtonClass} title="Join the selected notes into one">Merge</button>
+      <button onClick={handleDelete} disabled={selectedIds.size === 0} className={toolButtonClass} title="Delete the selected notes">Delete</button>
+      <button
+        onClick={handleSave}
+        disabled={!isChanged || history.present.length === 0}
+        className="px-2 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs rounded transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+        title={isUserSong ? 'Save changes to this song' : 'Built-in songs are saved as a new song'}
+      >
+        {isUserSong ? 'Save' : 'Save as New Song'}
+      </button>
+      <button onClick={handleCancel} className="px-2 py-1 text-xs text-gray-400 hover:text-white transition-colors">Cancel</button>
+    </div>
+  );
+
+  return (
+    <Timeline
+      song={{ ...song, notes }}
+      timeline={timeline}
+      voiceAnalysis={voiceAnalysis}
+      voiceHistory={voiceHistory}
+      onTimelineChange={onTimelineChange}
+      transpositionSemitones={transpositionSemitones}
+      onTransposeUp={onTransposeUp}
+      onTransposeDown={onTransposeDown}
+      pitchRange={pitchRange}
+      toolbar={toolbar}
+      editor={editor}
+    />
+  );
+};
+
+export default NoteEditor;
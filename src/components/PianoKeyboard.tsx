@@ -4,19 +4,18 @@ import { getMidiNoteName } from '../utils/musicUtils';
 interface PianoKeyboardProps {
   activeNote?: number | null; // Current MIDI note being played
   height: number;
+  minPitch: number; // Lowest key, matching the timeline
+  maxPitch: number;
   onNoteClick?: (midiNote: number) => void;
 }
 
-const PianoKeyboard: React.FC<PianoKeyboardProps> = ({ activeNote, height, onNoteClick }) => {
+const PianoKeyboard: React.FC<PianoKeyboardProps> = ({ activeNote, height, minPitch, maxPitch, onNoteClick }) => {
   // Check if a note is a black key
   const isBlackKey = (midiNote: number) => {
     const noteInOctave = midiNote % 12;
     return [1, 3, 6, 8, 10].includes(noteInOctave); // C#, D#, F#, G#, A#
   };
   
-  // Piano range: C3 to C6 (same as timeline)
-  const minPitch = 48; // C3
-  const maxPitch = 84; // C6
   const totalKeys = maxPitch - minPitch + 1;
   
   // Key height calculation - only count white keys for spacing
@@ -0,0 +1,319 @@
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { Song, PitchFrame, PitchObservation, DetectedNote, TranscriptionSettings, PitchDetectorConfig } from '../types';
+import { PitchDetector } from '../utils/pitchDetection';
+import { AudioSynthesizer, formatVocalRange, getMidiNoteName } from '../utils/musicUtils';
+import { KEY_NAMES, getVocalRange } from '../utils/songAnalysis';
+import { segmentPitchFrames, quantizeMelody, estimateRecordingKey, estimateRecordingTempo, createTranscribedSong } from '../utils/melodyTranscription';
+
+interface RecordSongModalProps {
+  audioSynthesizer: AudioSynthesizer;
+  pitchConfig: PitchDetectorConfig;
+  onCreate: (song: Song) => void;
+  onClose: () => void;
+}
+
+type RecordPhase = 'setup' | 'count-in' | 'recording' | 'review';
+
+const FRAME_MS = 40; // AnalyserNode fallback; the worklet reports every hop by itself
+// The fallback reads the last ~93 ms of audio, so a reading describes sound from half a window
+// ago. Worklet hops are already stamped at the middle of their window.
+const ANALYSIS_DELAY = 0.046;
+const TIME_SIGNATURE: [number, number] = [4, 4];
+
+const GRID_OPTIONS = [
+  { label: '1 beat', division: 1 },
+  { label: '1/2 beat', division: 2 },
+  { label: '1/4 beat', division: 4 }
+];
+
+const inputClass = 'w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500';
+
+const RecordSongModal: React.FC<RecordSongModalProps> = ({ audioSynthesizer, pitchConfig, onCreate, onClose }) => {
+  const [phase, setPhase] = useState<RecordPhase>('setup');
+  const [title, setTitle] = useState('');
+  const [tempo, setTempo] = useState(100);
+  const [division, setDivision] = useState(2);
+  const [key, setKey] = useState<string | null>(null);
+  const [useCountIn, setUseCountIn] = useState(true);
+  const [detected, setDetected] = useState<DetectedNote[]>([]);
+  const [liveNote, setLiveNote] = useState<string | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const detectorRef = useRef<PitchDetector | null>(null);
+  const stopCaptureRef = useRef<(() => void) | null>(null);
+  const timersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const framesRef = useRef<PitchFrame[]>([]);
+  // A count-in pins the grid to the recording clock; without one the first note starts bar 1
+  const countedInRef = useRef(false);
+
+  // The field may be mid-edit; the grid always uses a sensible tempo
+  const gridTempo = Math.max(40, Math.min(240, tempo || 100));
+  const settings: TranscriptionSettings = {
+    tempo: gridTempo,
+    division,
+    timeSignature: TIME_SIGNATURE,
+    key,
+    alignToFirstNote: !countedInRef.current
+  };
+  const notes = useMemo(() => quantizeMelody(detected, settings), [detected, gridTempo, division, key]);
+  const range = getVocalRange(notes);
+  const songLength = notes.length > 0 ? notes[notes.length - 1].time + notes[notes.length - 1].duration : 0;
+
+  const clearTimers = () => {
+    timersRef.current.forEach(timer => clearTimeout(timer));
+    timersRef.current = [];
+  };
+
+  const releaseDetector = () => {
+    stopCaptureRef.current?.();
+    stopCaptureRef.current = null;
+    detectorRef.current?.cleanup();
+    detectorRef.current = null;
+  };
+
+  useEffect(() => () => {
+    clearTimers();
+    releaseDetector();
+    audioSynthesizer.stopAll();
+  }, []);
+
+  const startRecording = async () => {
+    setError(null);
+    framesRef.current = [];
+    setElapsed(0);
+    setLiveNote(null);
+
+    const detector = new PitchDetector(pitchConfig);
+    try {
+      await detector.initialize();
+    } catch (initError) {
+      console.error('Failed to start recording:', initError);
+      setError(initError instanceof Error ? initError.message : 'Microphone access failed');
+      return;
+    }
+    detectorRef.current = detector;
+
+    const beatMs = 60000 / gridTempo;
+    const countInMs = useCountIn ? beatMs * TIME_SIGNATURE[0] : 0;
+    countedInRef.current = useCountIn;
+    if (useCountIn) {
+      await audioSynthesizer.initialize();
+      setPhase('count-in');
+      for (let beat = 0; beat < TIME_SIGNATURE[0]; beat++) {
+        timersRef.current.push(setTimeout(() => {
+          audioSynthesizer.playNote(beat === 0 ? 1760 : 880, 0.06);
+        }, beat * beatMs));
+      }
+      timersRef.current.push(setTimeout(() => setPhase('recording'), countInMs));
+    } else {
+      setPhase('recording');
+    }
+
+    // Observations are stamped when the sound was made, so singing along to the count-in
+    // lines up with the grid despite the microphone's calibrated round trip
+    const startedAt = Date.now() + countInMs;
+    const recordFrame = (observation: PitchObservation, delay: number) => {
+      const time = (observation.timestamp - startedAt) / 1000 - delay;
+      if (time < 0) return;
+      const result = observation.result;
+      framesRef.current.push({ time, frequency: result?.frequency ?? null, confidence: result?.confidence ?? 0 });
+      setLiveNote(result ? result.noteName : null);
+      setElapsed(Math.floor(time * 10) / 10);
+    };
+
+    if (detector.usesWorklet) {
+      stopCaptureRef.current = detector.onPitch(observation => recordFrame(observation, 0));
+    } else {
+      const interval = setInterval(() => {
+        const observation = detectorRef.current?.observe();
+        if (observation) recordFrame(observation, ANALYSIS_DELAY);
+      }, FRAME_MS);
+      stopCaptureRef.current = () => clearInterval(interval);
+    }
+  };
+
+  const stopRecording = () => {
+    clearTimers();
+    releaseDetector();
+    const found = segmentPitchFrames(framesRef.current);
+    if (found.length === 0) {
+      setError('No notes were heard. Sing a little louder or closer to the microphone and try again.');
+      setPhase('setup');
+      return;
+    }
+    setDetected(found);
+    setKey(estimateRecordingKey(found));
+    if (!countedInRef.current) {
+      setTempo(estimateRecordingTempo(found) ?? tempo);
+    }
+    setPhase('review');
+  };
+
+  const togglePreview = async () => {
+    clearTimers();
+    audioSynthesizer.stopAll();
+    if (isPreviewing) {
+      setIsPreviewing(false);
+      return;
+    }
+    await audioSynthesizer.initialize();
+    setIsPreviewing(true);
+    notes.forEach(note => {
+      timersRef.current.push(setTimeout(() => audioSynthesizer.playNote(note.frequency, note.duration), note.time * 1000));
+    });
+    timersRef.current.push(setTimeout(() => setIsPreviewing(false), songLength * 1000));
+  };
+
+  const handleCreate = () => {
+    clearTimers();
+    audioSynthesizer.stopAll();
+    onCreate(createTranscribedSong(notes, settings, title));
+  };
+
+  const isCapturing = phase === 'count-in' || phase === 'recording';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 max-w-lg w-full mx-4 border border-gray-600">
+        <h3 className="text-lg font-medium text-white mb-1">Record New Song</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          Sing, hum or play a phrase. The notes are snapped to the tempo grid and key, and the song opens in the note editor for lyrics.
+        </p>
+
+        {phase !== 'review' && (
+          <div className="grid grid-cols-2 gap-3 mb-4 text-sm">
+            <label className="space-y-1">
+              <span className="text-gray-400">Tempo (BPM)</span>
+              <input
+                type="number"
+                min={40}
+                max={240}
+                value={tempo}
+                onChange={e => setTempo(Number(e.target.value))}
+                disabled={isCapturing}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2 mt-6 text-gray-300">
+              <input type="checkbox" checked={useCountIn} onChange={e => setUseCountIn(e.target.checked)} disabled={isCapturing} />
+              One-bar count-in
+            </label>
+          </div>
+        )}
+
+        {isCapturing && (
+          <div className="bg-gray-900 rounded-lg p-4 mb-4 border border-gray-700 text-center">
+            <div className={`text-sm mb-1 ${phase === 'recording' ? 'text-red-400' : 'text-yellow-400'}`}>
+              {phase === 'recording' ? `● Recording ${elapsed.toFixed(1)}s` : 'Get ready…'}
+            </div>
+            <div className="text-4xl font-mono text-white">{liveNote ?? '–'}</div>
+          </div>
+        )}
+
+        {phase === 'review' && (
+          <>
+            <div className="grid grid-cols-2 gap-3 mb-4 text-sm">
+              <label className="space-y-1 col-span-2">
+                <span className="text-gray-400">Title</span>
+                <input value={title} onChange={e => setTitle(e.target.value)} placeholder="New Song" className={inputClass} />
+              </label>
+              <label className="space-y-1">
+                <span className="text-gray-400">Tempo (BPM)</span>
+                <input
+                  type="number"
+                  min={40}
+                  max={240}
+                  value={tempo}
+                  onChange={e => setTempo(Number(e.target.value))}
+                  className={inputClass}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-gray-400">Snap to</span>
+                <select value={division} onChange={e => setDivision(Number(e.target.value))} className={inputClass}>
+                  {GRID_OPTIONS.map(option => <option key={option.division} value={option.division}>{option.label}</option>)}
+                </select>
+              </label>
+              <label className="space-y-1 col-span-2">
+                <span className="text-gray-400">Key</span>
+                <select value={key ?? ''} onChange={e => setKey(e.target.value || null)} className={inputClass}>
+                  <option value="">Chromatic (no key snapping)</option>
+                  {KEY_NAMES.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              </label>
+            </div>
+
+            <div className="bg-gray-900 rounded-lg p-3 mb-4 border border-gray-700 text-sm">
+              <div className="text-gray-300 mb-1">
+                {notes.length} note{notes.length === 1 ? '' : 's'} • {songLength.toFixed(1)}s
+                {range && ` • ${formatVocalRange(range, 0)}`}
+              </div>
+              <div className="text-gray-500 font-mono text-xs break-words">
+                {notes.map(note => getMidiNoteName(note.pitch)).join(' ')}
+              </div>
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          {phase === 'setup' && (
+            <button
+              onClick={startRecording}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
+            >
+              Start Recording
+            </button>
+          )}
+          {isCapturing && (
+            <button
+              onClick={stopRecording}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
+            >
+              Stop
+            </button>
+          )}
+          {phase === 'review' && (
+            <>
+              <button
+                onClick={() => {
+                  clearTimers();
+                  audioSynthesizer.stopAll();
+                  setIsPreviewing(false);
+                  setPhase('setup');
+                }}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+              >
+                Record Again
+              </button>
+              <button
+                onClick={togglePreview}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+              >
+                {isPreviewing ? 'Stop' : 'Listen'}
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={notes.length === 0}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+              >
+                Create Song
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecordSongModal;
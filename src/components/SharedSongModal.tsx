@@ -0,0 +1,76 @@
+import React from 'react';
+import { SharedSong } from '../types';
+import { transposeKey, formatVocalRange } from '../utils/musicUtils';
+import { getVocalRange } from '../utils/songAnalysis';
+
+interface SharedSongModalProps {
+  sharedSong: SharedSong;
+  isSaved: boolean; // The library already has a song with this ID
+  onSave: () => void;
+  onPreview: () => void;
+  onDismiss: () => void;
+}
+
+const SharedSongModal: React.FC<SharedSongModalProps> = ({ sharedSong, isSaved, onSave, onPreview, onDismiss }) => {
+  const { song, transposition } = sharedSong;
+  const vocalRange = song.vocalRange ?? getVocalRange(song.notes);
+  const lyricCount = song.notes.filter(n => n.lyric).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4 border border-gray-600">
+        <h3 className="text-lg font-medium text-white mb-1">Shared Song</h3>
+        <p className="text-sm text-gray-400 mb-4">Someone sent you a song. Try it out, then keep it in your library if you like it.</p>
+
+        <div className="bg-gray-900 rounded-lg p-4 mb-6 border border-gray-700">
+          <div className="font-semibold text-white">{song.title}</div>
+          <div className="text-sm text-gray-400 mb-3">{song.artist}</div>
+          <dl className="grid grid-cols-2 gap-y-1 text-sm">
+            <dt className="text-gray-500">Key</dt>
+            <dd className="text-gray-300">
+              {transposeKey(song.key, transposition)}
+              {transposition !== 0 && ` (${transposition > 0 ? '+' : ''}${transposition})`}
+            </dd>
+            {vocalRange && (
+              <>
+                <dt className="text-gray-500">Range</dt>
+                <dd className="text-gray-300">{formatVocalRange(vocalRange, transposition)}</dd>
+              </>
+            )}
+            <dt className="text-gray-500">Tempo</dt>
+            <dd className="text-gray-300">{Math.round(song.tempo)} BPM</dd>
+            <dt className="text-gray-500">Notes</dt>
+            <dd className="text-gray-300">
+              {song.notes.length}{lyricCount > 0 ? `, ${lyricCount} with lyrics` : ''}
+            </dd>
+            <dt className="text-gray-500">Length</dt>
+            <dd className="text-gray-300">{Math.ceil(song.duration)}s</dd>
+          </dl>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onDismiss}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Dismiss
+          </button>
+          <button
+            onClick={onPreview}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Try It
+          </button>
+          <button
+            onClick={onSave}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+          >
+            {isSaved ? 'Open from Library' : 'Save to Library'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedSongModal;
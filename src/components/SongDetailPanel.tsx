@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Song, SongDetails } from '../types';
+import { KEY_NAMES } from '../utils/songAnalysis';
+
+interface SongDetailPanelProps {
+  song: Song;
+  isUserSong: boolean; // Built-in and pack songs can only be duplicated
+  isPlaying: boolean;
+  onSave: (details: SongDetails) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500 disabled:text-gray-500';
+
+const SongDetailPanel: React.FC<SongDetailPanelProps> = ({ song, isUserSong, isPlaying, onSave, onDuplicate, onDelete, onClose }) => {
+  const [title, setTitle] = useState(song.title);
+  const [artist, setArtist] = useState(song.artist);
+  const [key, setKey] = useState(song.key);
+  const [tempo, setTempo] = useState(String(Math.round(song.tempo * 100) / 100));
+
+  const tempoValue = Number(tempo);
+  const isTempoValid = Number.isFinite(tempoValue) && tempoValue >= 20 && tempoValue <= 300;
+  const isChanged = title !== song.title || artist !== song.artist || key !== song.key || tempoValue !== song.tempo;
+  const canSave = isUserSong && !isPlaying && isChanged && title.trim() !== '' && isTempoValid;
+  // Keys from imported files may be spelled differently from the list
+  const keyOptions = KEY_NAMES.includes(song.key) ? KEY_NAMES : [song.key, ...KEY_NAMES];
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-blue-500 bg-gray-800">
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <h3 className="font-semibold text-white">Song details</h3>
+          <p className="text-sm text-gray-400">
+            {isUserSong ? song.title : 'Built-in songs cannot be changed, but you can edit a copy.'}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4 text-sm">
+        <label className="space-y-1">
+          <span className="text-gray-400">Title</span>
+          <input value={title} onChange={e => setTitle(e.target.value)} disabled={!isUserSong} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400">Artist</span>
+          <input value={artist} onChange={e => setArtist(e.target.value)} disabled={!isUserSong} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400">Key</span>
+          <select value={key} onChange={e => setKey(e.target.value)} disabled={!isUserSong} className={inputClass}>
+            {keyOptions.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-gray-400">Tempo (BPM)</span>
+          <input
+            type="number"
+            min={20}
+            max={300}
+            value={tempo}
+            onChange={e => setTempo(e.target.value)}
+            disabled={!isUserSong}
+            className={`${inputClass} ${isTempoValid ? '' : 'border-red-500'}`}
+          />
+        </label>
+      </div>
+      {isUserSong && (
+        <p className="text-xs text-gray-500 mb-4">
+          Key and tempo describe the song; the notes keep their pitches and timing.
+        </p>
+      )}
+
+      <div className="flex justify-between">
+        <div className="flex gap-3">
+          <button
+            onClick={onDuplicate}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+          >
+            Duplicate
+          </button>
+          {isUserSong && (
+            <button
+              onClick={onDelete}
+              disabled={isPlaying}
+              className="px-4 py-2 bg-red-700 hover:bg-red-600 text-white rounded-lg transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+        {isUserSong && (
+          <button
+            onClick={() => onSave({ title, artist, key, tempo: tempoValue })}
+            disabled={!canSave}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SongDetailPanel;
@@ -1,6 +1,22 @@
-import React, { useRef } from 'react';
-import { Song } from '../types';
-import { parseTextToSong, saveSongToStorage, getAllAvailableSongs, getSavedSongs } from '../utils/musicUtils';
+import React, { useRef, useEffect } from 'react';
+import { Song, SongPack, SongDifficulty, SongDetails, DeletedSong, SongMatch, DuplicateResolution, LibraryItem, LibraryView, TrackPickerOption, SongParseResult, LibraryBackup, LibraryConflictPolicy } from '../types';
+import { parseTextToSongWithDiagnostics, saveSongToStorage, getAllAvailableSongs, getSavedSongs, getScoreHistory, getDefaultSong, formatVocalRange, downloadFile } from '../utils/musicUtils';
+import { createLibraryBackup, parseLibraryBackup, findBackupConflicts, restoreLibraryBackup, hasLibraryBackupContent } from '../utils/libraryBackup';
+import { getVocalRange } from '../utils/songAnalysis';
+import { getSongPacks, loadPackSong } from '../utils/songPacks';
+import { findDuplicateSongs, mergeDuplicateSong, replaceDuplicateSong } from '../utils/songIdentity';
+import { flushStorage, getAllSongInfo } from '../utils/storage';
+import { getLibraryView, saveLibraryView, isLibraryViewFiltered, needsSongData, toggleFavorite, setSongTags, updateSongDetails, duplicateSong, removeSong, restoreDeletedSong, getBestScore, buildLibraryItems, getItemTags, filterLibraryItems } from '../utils/songLibrary';
+import { readMidiFile, getMidiTrackOptions, suggestMelodyOption, midiToSong } from '../utils/midiFile';
+import { readMusicXml, readMxlArchive, getMusicXmlPartOptions, suggestMusicXmlPart, musicXmlToSong } from '../utils/musicXml';
+import { isUltraStarText, parseUltraStarToSong } from '../utils/ultraStar';
+import { isAbcText, parseAbcToSong } from '../utils/abcNotation';
+import TrackPicker from './TrackPicker';
+import UploadModal from './UploadModal';
+import LibraryRestorePanel from './LibraryRestorePanel';
+import LibraryToolbar from './LibraryToolbar';
+import SongDetailPanel from './SongDetailPanel';
+import DuplicateSongPanel from './DuplicateSongPanel';
 
 interface SongSelectionModalProps {
   isOpen: boolean;
@@ -13,13 +29,37 @@ interface SongSelectionModalProps {
 }
 
 interface SongTileProps {
-  song: Song;
+  item: LibraryItem;
+  tags: string[];
+  isFavorite: boolean;
+  bestScore: number | null;
   isSelected: boolean;
   onClick: () => void;
-  isUserSong?: boolean;
+  onToggleFavorite: () => void;
+  onTagsChange: (tags: string[]) => void; // Only the user's own tags
+  onShowDetails?: () => void;
 }
 
-const SongTile: React.FC<SongTileProps> = ({ song, isSelected, onClick, isUserSong = false }) => {
+const DIFFICULTY_STYLES: Record<SongDifficulty, string> = {
+  beginner: 'bg-green-700',
+  intermediate: 'bg-yellow-700',
+  advanced: 'bg-red-700'
+};
+
+// Pack songs that are not fetched yet only show what the manifest lists
+const SongTile: React.FC<SongTileProps> = ({ item, tags, isFavorite, bestScore, isSelected, onClick, onToggleFavorite, onTagsChange, onShowDetails }) => {
+  const [newTag, setNewTag] = React.useState<string | null>(null);
+  const { song } = item;
+  const vocalRange = song ? song.vocalRange ?? getVocalRange(song.notes) : null;
+  const userTags = tags.filter(tag => !item.presetTags.includes(tag));
+
+  const addTag = () => {
+    if (newTag?.trim()) {
+      onTagsChange([...userTags, newTag]);
+    }
+    setNewTag(null);
+  };
+
   return (
     <div
       onClick={onClick}
@@ -30,19 +70,89 @@ const SongTile: React.FC<SongTileProps> = ({ song, isSelected, onClick, isUserSo
       }`}
     >
       <div className="flex flex-col space-y-2">
-        <div className="flex items-center justify-between">
-          <h3 className="font-semibold text-white truncate">{song.title}</h3>
-          {isUserSong && (
-            <span className="text-xs bg-green-600 text-white px-2 py-1 rounded-full">
-              User Song
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-semibold text-white truncate">{item.title}</h3>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {item.source === 'user' && (
+              <span className="text-xs bg-green-600 text-white px-2 py-1 rounded-full">
+                User Song
+              </span>
+            )}
+            {item.difficulty && (
+              <span className={`text-xs text-white px-2 py-1 rounded-full capitalize ${DIFFICULTY_STYLES[item.difficulty]}`}>
+                {item.difficulty}
+              </span>
+            )}
+            {onShowDetails && (
+              <button
+                onClick={e => { e.stopPropagation(); onShowDetails(); }}
+                className="text-gray-500 hover:text-white transition-colors"
+                title="Song details"
+              >
+                ✎
+              </button>
+            )}
+            <button
+              onClick={e => { e.stopPropagation(); onToggleFavorite(); }}
+              className={`text-lg leading-none transition-colors ${isFavorite ? 'text-yellow-400' : 'text-gray-600 hover:text-gray-400'}`}
+              title={isFavorite ? 'Remove from favourites' : 'Add to favourites'}
+            >
+              {isFavorite ? '★' : '☆'}
+            </button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-400">{item.artist}</p>
+        {song && (
+          <>
+            <div className="flex justify-between items-center text-xs text-gray-400">
+              <span>{song.key}</span>
+              {vocalRange && <span>{formatVocalRange(vocalRange)}</span>}
+              <span>{Math.round(song.tempo)} BPM</span>
+            </div>
+            <div className="flex justify-between items-center text-xs text-gray-500">
+              <span>{song.notes.length} notes</span>
+              {bestScore !== null && <span>Best {Math.round(bestScore)}%</span>}
+              <span>{Math.ceil(song.duration)}s</span>
+            </div>
+          </>
+        )}
+        <div className="flex flex-wrap items-center gap-1" onClick={e => e.stopPropagation()}>
+          {tags.map(tag => (
+            <span key={tag} className="text-xs bg-gray-700 text-gray-300 px-2 py-0.5 rounded">
+              {tag}
+              {!item.presetTags.includes(tag) && (
+                <button
+                  onClick={() => onTagsChange(userTags.filter(t => t !== tag))}
+                  className="ml-1 text-gray-500 hover:text-white"
+                  title="Remove tag"
+                >
+                  ×
+                </button>
+              )}
             </span>
+          ))}
+          {newTag === null ? (
+            <button
+              onClick={() => setNewTag('')}
+              className="text-xs text-gray-500 hover:text-white px-1"
+              title="Add a tag"
+            >
+              + tag
+            </button>
+          ) : (
+            <input
+              autoFocus
+              value={newTag}
+              onChange={e => setNewTag(e.target.value)}
+              onBlur={addTag}
+              onKeyDown={e => {
+                if (e.key === 'Enter') addTag();
+                if (e.key === 'Escape') setNewTag(null);
+              }}
+              className="text-xs bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-white w-20 focus:outline-none focus:border-blue-500"
+            />
           )}
         </div>
-        <p className="text-sm text-gray-400">{song.artist}</p>
-        <div className="flex justify-between items-center text-xs text-gray-500">
-          <span>{song.notes.length} notes</span>
-          <span>{Math.ceil(song.duration)}s</span>
-        </div>
       </div>
     </div>
   );
@@ -58,29 +168,230 @@ const SongSelectionModal: React.FC<SongSelectionModalProps> = ({
   isPlaying
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const detailPanelRef = useRef<HTMLDivElement>(null);
   const [uploadStatus, setUploadStatus] = React.useState<{ message: string; isSuccess: boolean } | null>(null);
   const [isDragOver, setIsDragOver] = React.useState(false);
+  // File with several candidate melodies waiting for the user to pick one
+  const [pendingImport, setPendingImport] = React.useState<{
+    fileName: string;
+    options: TrackPickerOption[];
+    suggestedKey: string | null;
+    buildSong: (key: string) => Song;
+  } | null>(null);
+  // Parsed TSV file with diagnostics, shown for review before importing
+  const [importPreview, setImportPreview] = React.useState<SongParseResult | null>(null);
+  // Imported song that matches songs already in the library
+  const [pendingDuplicate, setPendingDuplicate] = React.useState<{ song: Song; matches: SongMatch[] } | null>(null);
+  // Library backup waiting for the user to settle conflicts
+  const [pendingRestore, setPendingRestore] = React.useState<{
+    fileName: string;
+    backup: LibraryBackup;
+    conflicts: Song[];
+  } | null>(null);
+  const [songPacks, setSongPacks] = React.useState<SongPack[]>([]);
+  // Pack songs fetched so far, needed for filters on key, range, length and lyrics
+  const [packSongs, setPackSongs] = React.useState<Record<string, Song>>({});
+  const [view, setView] = React.useState<LibraryView>(getLibraryView);
+  const [songInfo, setSongInfo] = React.useState(getAllSongInfo);
+  const [detailSongId, setDetailSongId] = React.useState<string | null>(null);
+  // Last deleted song, offered for undo until the dialog closes
+  const [deletedSong, setDeletedSong] = React.useState<{ deleted: DeletedSong; wasCurrent: boolean } | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      getSongPacks().then(setSongPacks);
+      setSongInfo(getAllSongInfo());
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    saveLibraryView(view);
+  }, [view]);
+
+  useEffect(() => {
+    if (detailSongId) {
+      detailPanelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [detailSongId]);
+
+  useEffect(() => {
+    if (!isOpen || !needsSongData(view)) return;
+    songPacks.forEach(pack => pack.entries.forEach(entry => {
+      if (packSongs[entry.songId]) return;
+      loadPackSong(entry.songId)
+        .then(song => song && setPackSongs(prev => ({ ...prev, [song.id]: song })))
+        .catch(error => console.error('Failed to load pack song:', error));
+    }));
+  }, [isOpen, view, songPacks]);
 
   if (!isOpen) return null;
 
   // Разделяем песни на дефолтные и пользовательские
   const savedSongs = getSavedSongs();
-  const defaultSongs = availableSongs.filter(song => !savedSongs[song.id]);
-  const userSongs = availableSongs.filter(song => savedSongs[song.id]);
+  const scoreHistory = getScoreHistory();
+  const libraryItems = buildLibraryItems(availableSongs, savedSongs, songPacks, packSongs);
+  const visibleItems = filterLibraryItems(libraryItems, view, songInfo, scoreHistory);
+  // Sections only make sense for the unfiltered library in its natural order
+  const showSections = !isLibraryViewFiltered(view) && view.sort === 'default';
+  const allTags = Array.from(new Set(libraryItems.flatMap(item => getItemTags(item, songInfo)))).sort();
+  const allKeys = Array.from(new Set(libraryItems.flatMap(item => item.song ? [item.song.key] : []))).sort();
 
-  const handleSongSelect = (song: Song) => {
+  const handleSongSelect = (item: LibraryItem) => {
     if (isPlaying) return; // Don't allow changing songs while playing
     
-    console.log('Selecting song:', song.id, song.title);
-    onSongChange(song.id);
+    console.log('Selecting song:', item.songId, item.title);
+    onSongChange(item.songId);
     setUploadStatus(null); // Clear upload status when selecting a song
     onClose();
   };
 
+  const handleToggleFavorite = (songId: string) => {
+    toggleFavorite(songId);
+    setSongInfo(getAllSongInfo());
+  };
+
+  const handleTagsChange = (songId: string, tags: string[]) => {
+    setSongTags(songId, tags);
+    setSongInfo(getAllSongInfo());
+  };
+
+  const detailItem = libraryItems.find(item => item.songId === detailSongId && item.song);
+
+  const handleSaveDetails = (song: Song, details: SongDetails) => {
+    updateSongDetails(song, details);
+    setUploadStatus({ message: `Saved changes to "${details.title.trim()}".`, isSuccess: true });
+    if (onSongsUpdate) {
+      onSongsUpdate();
+    }
+  };
+
+  const handleDuplicate = (song: Song) => {
+    const copy = duplicateSong(song);
+    setDetailSongId(copy.id);
+    setUploadStatus({ message: `Created "${copy.title}".`, isSuccess: true });
+    if (onSongsUpdate) {
+      onSongsUpdate();
+    }
+  };
+
+  const handleDelete = async (song: Song) => {
+    const deleted = removeSong(song);
+    const wasCurrent = song.id === currentSong.id;
+    setDeletedSong({ deleted, wasCurrent });
+    setDetailSongId(null);
+    setUploadStatus(null);
+    if (onSongsUpdate) {
+      onSongsUpdate();
+    }
+    // Move off the deleted song so it cannot be saved back by accident
+    if (wasCurrent) {
+      const fallback = await getDefaultSong();
+      onSongChange(fallback.id);
+    }
+  };
+
+  const handleUndoDelete = () => {
+    if (!deletedSong) return;
+    restoreDeletedSong(deletedSong.deleted);
+    if (onSongsUpdate) {
+      onSongsUpdate();
+    }
+    if (deletedSong.wasCurrent) {
+      onSongChange(deletedSong.deleted.song.id);
+    }
+    setDeletedSong(null);
+  };
+
+  const renderTile = (item: LibraryItem) => (
+    <SongTile
+      key={item.songId}
+      item={item}
+      tags={getItemTags(item, songInfo)}
+      isFavorite={!!songInfo[item.songId]?.favorite}
+      bestScore={getBestScore(scoreHistory[item.songId])}
+      isSelected={item.songId === currentSong.id}
+      onClick={() => handleSongSelect(item)}
+      onToggleFavorite={() => handleToggleFavorite(item.songId)}
+      onTagsChange={tags => handleTagsChange(item.songId, tags)}
+      onShowDetails={item.song ? () => setDetailSongId(item.songId) : undefined}
+    />
+  );
+
+  const renderSection = (title: string, items: LibraryItem[], description?: string, key?: string) => items.length > 0 && (
+    <div key={key} className="mb-8">
+      <h3 className="text-lg font-semibold text-white">{title}</h3>
+      {description && <p className="text-sm text-gray-400">{description}</p>}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mt-4">
+        {items.map(renderTile)}
+      </div>
+    </div>
+  );
+
   const handleUploadClick = () => {
     fileInputRef.current?.click();
   };
 
+  const handleExportLibrary = () => {
+    const backup = createLibraryBackup();
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(JSON.stringify(backup, null, 2), `vocal-coach-library-${date}.json`, 'application/json');
+  };
+
+  const handleBackupFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (backupInputRef.current) {
+      backupInputRef.current.value = '';
+    }
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const backup = parseLibraryBackup(e.target?.result as string);
+        setUploadStatus(null);
+        setPendingRestore({
+          fileName: file.name,
+          backup,
+          conflicts: findBackupConflicts(backup, availableSongs)
+        });
+      } catch (error) {
+        console.error('Failed to read library backup:', error);
+        setUploadStatus({
+          message: `Failed to import library: ${error instanceof Error ? error.message : 'unknown error'}.`,
+          isSuccess: false
+        });
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleRestore = (conflictPolicy: LibraryConflictPolicy, restoreSettings: boolean) => {
+    if (!pendingRestore) return;
+    const summary = restoreLibraryBackup(pendingRestore.backup, availableSongs, conflictPolicy, restoreSettings);
+    setPendingRestore(null);
+    if (restoreSettings) {
+      // Settings are read once at startup
+      flushStorage().then(() => window.location.reload());
+      return;
+    }
+
+    const parts = [
+      `${summary.added} added`,
+      summary.replaced > 0 && `${summary.replaced} replaced`,
+      summary.renamed > 0 && `${summary.renamed} kept as copies`,
+      summary.skipped > 0 && `${summary.skipped} skipped`,
+      summary.unchanged > 0 && `${summary.unchanged} already in your library`
+    ].filter(Boolean);
+    setUploadStatus({
+      message: `Library imported: ${parts.join(', ')}.`,
+      isSuccess: true
+    });
+    if (onSongsUpdate) {
+      onSongsUpdate();
+    }
+  };
+
   const handleDragEnter = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -109,13 +420,204 @@ const SongSelectionModal: React.FC<SongSelectionModalProps> = ({
     }
   };
 
+  const completeImport = (song: Song) => {
+    if (song.notes.length === 0) {
+      setUploadStatus({
+        message: 'No valid notes found in the file. Please check the format.',
+        isSuccess: false
+      });
+      return;
+    }
+    
+    setImportPreview(null);
+    const matches = findDuplicateSongs(song, availableSongs);
+    if (matches.length > 0) {
+      setUploadStatus(null);
+      setPendingDuplicate({ song, matches });
+      return;
+    }
+
+    saveImportedSong(song, `Successfully imported "${song.title}" with ${song.notes.length} notes!`);
+  };
+
+  const saveImportedSong = (song: Song, message: string) => {
+    // Save to the library
+    saveSongToStorage(song);
+    setUploadStatus({ message, isSuccess: true });
+    
+    // Immediately update the song list and select the new song
+    if (onSongsUpdate) {
+      onSongsUpdate();
+    }
+    
+    // Auto-select uploaded song and close after showing success message
+    openSongAfterImport(song.id);
+  };
+
+  const openSongAfterImport = (songId: string) => {
+    setTimeout(() => {
+      onSongChange(songId);
+      setUploadStatus(null);
+      onClose();
+    }, 800);
+  };
+
+  const handleDuplicateResolve = (resolution: DuplicateResolution, match?: SongMatch) => {
+    if (!pendingDuplicate) return;
+    const { song } = pendingDuplicate;
+    setPendingDuplicate(null);
+
+    if (resolution === 'keep-both' || !match) {
+      saveImportedSong(song, `Imported "${song.title}" as a new song.`);
+    } else if (resolution === 'open-existing') {
+      onSongChange(match.song.id);
+      onClose();
+    } else {
+      const updated = resolution === 'merge' ? mergeDuplicateSong(match.song, song) : replaceDuplicateSong(match.song, song);
+      saveSongToStorage(updated);
+      setUploadStatus({
+        message: resolution === 'merge'
+          ? `Added lyrics from the import to "${match.song.title}".`
+          : `Replaced the notes of "${match.song.title}".`,
+        isSuccess: true
+      });
+      if (onSongsUpdate) {
+        onSongsUpdate();
+      }
+      openSongAfterImport(match.song.id);
+    }
+  };
+
+  const getTitleFromFileName = (fileName: string) => fileName.replace(/\.[^/.]+$/, '').replace(/_/g, ' ');
+
+  // Imports directly when there is only one candidate, otherwise shows the picker
+  const offerTrackChoice = (
+    fileName: string,
+    options: TrackPickerOption[],
+    suggestedKey: string | null,
+    buildSong: (key: string) => Song
+  ) => {
+    if (options.length === 0) {
+      setUploadStatus({
+        message: 'No notes found in the file.',
+        isSuccess: false
+      });
+      return;
+    }
+    
+    if (options.length === 1) {
+      completeImport(buildSong(options[0].key));
+      return;
+    }
+    
+    setUploadStatus(null);
+    setPendingImport({ fileName, options, suggestedKey, buildSong });
+  };
+
+  const processMidiFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const midi = readMidiFile(e.target?.result as ArrayBuffer);
+        const midiOptions = getMidiTrackOptions(midi);
+        const suggested = suggestMelodyOption(midiOptions);
+        const toKey = (o: { track: number; channel: number }) => `${o.track}:${o.channel}`;
+        const title = getTitleFromFileName(file.name);
+        
+        offerTrackChoice(
+          file.name,
+          midiOptions.map(o => ({
+            key: toKey(o),
+            label: o.name || `Track ${o.track + 1}`,
+            detail: `Channel ${o.channel}${o.channel === 10 ? ' (drums)' : ''}`,
+            noteCount: o.noteCount,
+            lyricCount: o.lyricCount,
+            lowestPitch: o.lowestPitch,
+            highestPitch: o.highestPitch
+          })),
+          suggested ? toKey(suggested) : null,
+          key => midiToSong(midi, midiOptions.find(o => toKey(o) === key)!, title, 'Imported')
+        );
+      } catch (error) {
+        console.error('Failed to import MIDI file:', error);
+        setUploadStatus({
+          message: 'Failed to read MIDI file. Please check that it is a valid .mid file.',
+          isSuccess: false
+        });
+      }
+    };
+    
+    reader.readAsArrayBuffer(file);
+  };
+
+  const processMusicXmlFile = async (file: File) => {
+    try {
+      const text = file.name.toLowerCase().endsWith('.mxl')
+        ? await readMxlArchive(await file.arrayBuffer())
+        : await file.text();
+      const doc = readMusicXml(text);
+      const partOptions = getMusicXmlPartOptions(doc);
+      const suggested = suggestMusicXmlPart(partOptions);
+      const toKey = (o: { partId: string; voice: string }) => `${o.partId}:${o.voice}`;
+      const title = getTitleFromFileName(file.name);
+      
+      offerTrackChoice(
+        file.name,
+        partOptions.map(o => ({
+          key: toKey(o),
+          label: o.name,
+          detail: `Voice ${o.voice}`,
+          noteCount: o.noteCount,
+          lyricCount: o.lyricCount,
+          lowestPitch: o.lowestPitch,
+          highestPitch: o.highestPitch
+        })),
+        suggested ? toKey(suggested) : null,
+        key => musicXmlToSong(doc, partOptions.find(o => toKey(o) === key)!, title, 'Imported')
+      );
+    } catch (error) {
+      console.error('Failed to import MusicXML file:', error);
+      setUploadStatus({
+        message: error instanceof Error ? error.message : 'Failed to read MusicXML file.',
+        isSuccess: false
+      });
+    }
+  };
+
+  const handleTrackSelect = (key: string) => {
+    if (!pendingImport) return;
+    try {
+      const song = pendingImport.buildSong(key);
+      setPendingImport(null);
+      completeImport(song);
+    } catch (error) {
+      console.error('Failed to import selected track:', error);
+      setUploadStatus({
+        message: 'Failed to import the selected track.',
+        isSuccess: false
+      });
+    }
+  };
+
   const processFile = (file: File) => {
     if (!file) return;
     
+    const fileName = file.name.toLowerCase();
+    if (/\.(mid|midi|kar)$/.test(fileName)) {
+      processMidiFile(file);
+      return;
+    }
+    if (/\.(musicxml|xml|mxl)$/.test(fileName)) {
+      processMusicXmlFile(file);
+      return;
+    }
+    
     // Check file extension
-    if (!file.name.toLowerCase().endsWith('.tsv')) {
+    const isTxt = fileName.endsWith('.txt');
+    const isAbc = fileName.endsWith('.abc');
+    if (!fileName.endsWith('.tsv') && !isTxt && !isAbc) {
       setUploadStatus({
-        message: 'Please upload a .tsv file. Other formats are not supported.',
+        message: 'Please upload a .tsv, UltraStar .txt, ABC, .mid or MusicXML file. Other formats are not supported.',
         isSuccess: false
       });
       return;
@@ -134,36 +636,25 @@ const SongSelectionModal: React.FC<SongSelectionModalProps> = ({
         }
         
         // Extract title from filename
-        const title = file.name.replace(/\.[^/.]+$/, '').replace(/_/g, ' ');
-        const song = parseTextToSong(text, title, 'Imported');
-        
-        if (song.notes.length === 0) {
+        const title = getTitleFromFileName(file.name);
+        // ABC tunes are often shared as plain .txt files
+        if (isAbc || (isTxt && isAbcText(text))) {
+          completeImport(parseAbcToSong(text, title, 'Imported'));
+        } else if (isTxt && isUltraStarText(text)) {
+          completeImport(parseUltraStarToSong(text, title, 'Imported'));
+        } else if (isTxt) {
           setUploadStatus({
-            message: 'No valid notes found in the file. Please check the format.',
+            message: 'This .txt file is neither an UltraStar song (with #TITLE or #BPM and note lines) nor an ABC tune.',
             isSuccess: false
           });
-          return;
+        } else {
+          const result = parseTextToSongWithDiagnostics(text, title, 'Imported');
+          if (result.diagnostics.length > 0) {
+            setImportPreview(result);
+          } else {
+            completeImport(result.song);
+          }
         }
-        
-        // Save to localStorage
-        saveSongToStorage(song);
-        
-        setUploadStatus({
-          message: `Successfully imported "${song.title}" with ${song.notes.length} notes!`,
-          isSuccess: true
-        });
-        
-        // Immediately update the song list and select the new song
-        if (onSongsUpdate) {
-          onSongsUpdate();
-        }
-        
-        // Auto-select uploaded song and close after showing success message
-        setTimeout(() => {
-          onSongChange(song.id);
-          setUploadStatus(null);
-          onClose();
-        }, 800);
       } catch (error) {
         console.error('Failed to import song:', error);
         setUploadStatus({
@@ -188,8 +679,18 @@ const SongSelectionModal: React.FC<SongSelectionModalProps> = ({
     }
   };
 
+  const previewErrorCount = importPreview?.diagnostics.filter(d => d.severity === 'error').length ?? 0;
+  const previewWarningCount = (importPreview?.diagnostics.length ?? 0) - previewErrorCount;
+  const canImportPreview = !!importPreview && previewErrorCount === 0 && importPreview.song.notes.length > 0;
+
   const handleClose = () => {
     setUploadStatus(null); // Clear upload status when closing
+    setPendingImport(null);
+    setImportPreview(null);
+    setPendingRestore(null);
+    setPendingDuplicate(null);
+    setDetailSongId(null);
+    setDeletedSong(null);
     onClose();
   };
 
@@ -222,6 +723,39 @@ const SongSelectionModal: React.FC<SongSelectionModalProps> = ({
             </div>
           )}
 
+          {/* Track/part picker for multi-track files */}
+          {pendingImport && (
+            <TrackPicker
+              fileName={pendingImport.fileName}
+              options={pendingImport.options}
+              suggestedKey={pendingImport.suggestedKey}
+              onSelect={handleTrackSelect}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
+
+          {/* Imported song that is already in the library */}
+          {pendingDuplicate && (
+            <DuplicateSongPanel
+              song={pendingDuplicate.song}
+              matches={pendingDuplicate.matches}
+              isUserSong={songId => !!savedSongs[songId]}
+              onResolve={handleDuplicateResolve}
+              onCancel={() => setPendingDuplicate(null)}
+            />
+          )}
+
+          {/* Library backup import */}
+          {pendingRestore && (
+            <LibraryRestorePanel
+              fileName={pendingRestore.fileName}
+              backup={pendingRestore.backup}
+              conflicts={pendingRestore.conflicts}
+              onRestore={handleRestore}
+              onCancel={() => setPendingRestore(null)}
+            />
+          )}
+
           {/* Upload button with drag and drop */}
           <div className="mb-6">
             <div
@@ -250,14 +784,14 @@ const SongSelectionModal: React.FC<SongSelectionModalProps> = ({
                     {isPlaying 
                       ? 'Stop playback to upload' 
                       : isDragOver 
-                      ? 'Drop your .tsv file here'
+                      ? 'Drop your song file here'
                       : 'Upload New Song'
                     }
                   </p>
                   <p className="text-sm opacity-75">
                     {isDragOver 
                       ? 'Release to upload'
-                      : 'Click to browse or drag & drop .tsv files'
+                      : 'Click to browse or drag & drop .tsv, UltraStar .txt, ABC, .mid or MusicXML files'
                     }
                   </p>
                 </div>
@@ -265,41 +799,86 @@ const SongSelectionModal: React.FC<SongSelectionModalProps> = ({
             </div>
           </div>
 
-          {/* Default songs */}
-          {defaultSongs.length > 0 && (
-            <div className="mb-8">
-              <h3 className="text-lg font-semibold text-white mb-4">Built-in Songs</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {defaultSongs.map(song => (
-                  <SongTile
-                    key={song.id}
-                    song={song}
-                    isSelected={song.id === currentSong.id}
-                    onClick={() => handleSongSelect(song)}
-                  />
-                ))}
-              </div>
+          {/* Library backup */}
+          <div className="flex justify-end space-x-4 -mt-3 mb-6 text-sm">
+            <button
+              onClick={handleExportLibrary}
+              disabled={!hasLibraryBackupContent()}
+              className="text-blue-400 hover:text-blue-300 transition-colors disabled:text-gray-600 disabled:cursor-not-allowed"
+              title="Download your songs, settings and scores as one file"
+            >
+              Export library
+            </button>
+            <button
+              onClick={() => backupInputRef.current?.click()}
+              disabled={isPlaying}
+              className="text-blue-400 hover:text-blue-300 transition-colors disabled:text-gray-600 disabled:cursor-not-allowed"
+              title="Add songs, settings and scores from a library backup"
+            >
+              Import library
+            </button>
+          </div>
+
+          {/* Undo for the last deleted song */}
+          {deletedSong && (
+            <div className="mb-6 p-4 rounded-lg border border-gray-600 bg-gray-800 flex justify-between items-center">
+              <span className="text-gray-300">Deleted "{deletedSong.deleted.song.title}".</span>
+              <button
+                onClick={handleUndoDelete}
+                className="text-blue-400 hover:text-blue-300 transition-colors"
+              >
+                Undo
+              </button>
             </div>
           )}
 
-          {/* User songs */}
-          {userSongs.length > 0 && (
-            <div>
-              <h3 className="text-lg font-semibold text-white mb-4">Your Songs</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {userSongs.map(song => (
-                  <SongTile
-                    key={song.id}
-                    song={song}
-                    isSelected={song.id === currentSong.id}
-                    onClick={() => handleSongSelect(song)}
-                    isUserSong={true}
-                  />
-                ))}
-              </div>
+          {/* Details of one song */}
+          {detailItem?.song && (
+            <div ref={detailPanelRef}>
+              <SongDetailPanel
+                key={detailItem.songId}
+                song={detailItem.song}
+                isUserSong={detailItem.source === 'user'}
+                isPlaying={isPlaying}
+                onSave={details => handleSaveDetails(detailItem.song!, details)}
+                onDuplicate={() => handleDuplicate(detailItem.song!)}
+                onDelete={() => handleDelete(detailItem.song!)}
+                onClose={() => setDetailSongId(null)}
+              />
             </div>
           )}
 
+          <LibraryToolbar
+            view={view}
+            onChange={setView}
+            tags={allTags}
+            keys={allKeys}
+            resultCount={visibleItems.length}
+          />
+
+          {showSections ? (
+            <>
+              {renderSection('Built-in Songs', visibleItems.filter(item => item.source === 'builtin'))}
+              {/* Song packs from songs/manifest.json */}
+              {songPacks.map(pack => renderSection(
+                pack.title,
+                visibleItems.filter(item => pack.entries.some(entry => entry.songId === item.songId)),
+                pack.description,
+                pack.id
+              ))}
+              {renderSection('Your Songs', visibleItems.filter(item => item.source === 'user'))}
+            </>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {visibleItems.map(renderTile)}
+            </div>
+          )}
+
+          {/* No matches */}
+          {libraryItems.length > 0 && visibleItems.length === 0 && (
+            <p className="text-center text-gray-400 py-12">No songs match the search and filters.</p>
+          )}
+
           {/* Empty state */}
           {availableSongs.length === 0 && (
             <div className="text-center py-12">
@@ -314,14 +893,37 @@ const SongSelectionModal: React.FC<SongSelectionModalProps> = ({
           )}
         </div>
 
+        {/* Import preview for files with problems */}
+        {importPreview && (
+          <UploadModal
+            isOpen
+            onClose={() => setImportPreview(null)}
+            title={canImportPreview ? 'Check Before Importing' : 'Song File Has Errors'}
+            message={canImportPreview
+              ? `"${importPreview.song.title}" has ${importPreview.song.notes.length} notes and ${previewWarningCount} warning${previewWarningCount === 1 ? '' : 's'}. You can import it as is or fix the file first.`
+              : `Found ${previewErrorCount} error${previewErrorCount === 1 ? '' : 's'} in "${importPreview.song.title}". Fix the lines below and upload the file again.`}
+            isSuccess={canImportPreview}
+            diagnostics={importPreview.diagnostics}
+            onConfirm={canImportPreview ? () => completeImport(importPreview.song) : undefined}
+            confirmLabel="Import Anyway"
+          />
+        )}
+
         {/* Hidden file input */}
         <input
           ref={fileInputRef}
           type="file"
-          accept=".tsv"
+          accept=".tsv,.txt,.abc,.mid,.midi,.kar,.musicxml,.xml,.mxl"
           onChange={handleFileUpload}
           style={{ display: 'none' }}
         />
+        <input
+          ref={backupInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleBackupFile}
+          style={{ display: 'none' }}
+        />
       </div>
     </div>
   );
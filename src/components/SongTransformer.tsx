@@ -0,0 +1,205 @@
+import React, { useState, useMemo } from 'react';
+import { Song, SongTransform, TimelineState, VoiceAnalysis, VoiceHistory, VocalRange } from '../types';
+import { applySongTransform, describeSongTransform } from '../utils/songTransforms';
+import { buildEditedSong } from '../utils/noteEditor';
+import Timeline from './Timeline';
+
+interface SongTransformerProps {
+  song: Song;
+  isUserSong: boolean; // Built-in songs are saved as a new song
+  timeline: TimelineState;
+  voiceAnalysis: VoiceAnalysis;
+  voiceHistory: VoiceHistory[];
+  onTimelineChange: (changes: Partial<TimelineState>) => void;
+  transpositionSemitones: number;
+  pitchRange: VocalRange; // Timeline pitch range from the voice profile
+  onTransposeUp: () => void;
+  onTransposeDown: () => void;
+  onSave: (song: Song, transposedBy: number) => void;
+  onCancel: () => void;
+}
+
+type TransformKind = SongTransform['kind'];
+
+const KIND_LABELS: Record<TransformKind, string> = {
+  'quantize': 'Quantize',
+  'stretch': 'Time-stretch',
+  'shift': 'Shift in time',
+  'transpose': 'Transpose',
+  'simplify-melismas': 'Simplify melismas'
+};
+
+const QUANTIZE_DIVISIONS = [1, 2, 4, 8];
+
+const fieldClass = 'bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white w-24';
+const buttonClass = 'px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const formatLength = (seconds: number): string => `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+const SongTransformer: React.FC<SongTransformerProps> = ({
+  song,
+  isUserSong,
+  timeline,
+  voiceAnalysis,
+  voiceHistory,
+  onTimelineChange,
+  transpositionSemitones,
+  pitchRange,
+  onTransposeUp,
+  onTransposeDown,
+  onSave,
+  onCancel
+}) => {
+  const [transforms, setTransforms] = useState<SongTransform[]>([]);
+  const [kind, setKind] = useState<TransformKind>('quantize');
+  const [division, setDivision] = useState(2);
+  const [factor, setFactor] = useState('1');
+  const [seconds, setSeconds] = useState('0');
+  // Starts at the playback transposition, so making it permanent is one click
+  const [semitones, setSemitones] = useState(String(transpositionSemitones));
+
+  const preview = useMemo(() => transforms.reduce(applySongTransform, song), [song, transforms]);
+  const transposedBy = transforms.reduce((sum, t) => sum + (t.kind === 'transpose' ? t.semitones : 0), 0);
+
+  // The transform described by the form, or null while a field is not a usable number
+  const draft = ((): SongTransform | null => {
+    switch (kind) {
+      case 'quantize':
+        return { kind, division };
+      case 'stretch': {
+        const value = Number(factor);
+        return value >= 0.25 && value <= 4 && value !== 1 ? { kind, factor: value } : null;
+      }
+      case 'shift': {
+        const value = Number(seconds);
+        return Number.isFinite(value) && value !== 0 ? { kind, seconds: value } : null;
+      }
+      case 'transpose': {
+        const value = Number(semitones);
+        return Number.isInteger(value) && value !== 0 && Math.abs(value) <= 24 ? { kind, semitones: value } : null;
+      }
+      case 'simplify-melismas':
+        return { kind };
+    }
+  })();
+
+  // What the form's transform would give on top of the pending ones
+  const shown = draft ? applySongTransform(preview, draft) : preview;
+
+  const summary = [
+    { label: 'Notes', before: String(song.notes.length), after: String(shown.notes.length) },
+    { label: 'Tempo', before: `${Math.round(song.tempo)} BPM`, after: `${Math.round(shown.tempo)} BPM` },
+    { label: 'Key', before: song.key, after: shown.key },
+    { label: 'Length', before: formatLength(song.duration), after: formatLength(shown.duration) }
+  ];
+
+  const handleAdd = () => {
+    if (!draft) return;
+    setTransforms(prev => [...prev, draft]);
+    if (draft.kind === 'transpose') setSemitones('0');
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-shrink-0 p-3 bg-gray-800 border-b border-gray-700 space-y-3">
+        <div className="flex items-center gap-2 flex-wrap text-sm">
+          <select value={kind} onChange={e => setKind(e.target.value as TransformKind)} className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-sm text-white">
+            {(Object.keys(KIND_LABELS) as TransformKind[]).map(option => (
+              <option key={option} value={option}>{KIND_LABELS[option]}</option>
+            ))}
+          </select>
+
+          {kind === 'quantize' && (
+            <label className="flex items-center gap-2 text-gray-400">
+              to
+              <select value={division} onChange={e => setDivision(Number(e.target.value))} className={fieldClass}>
+                {QUANTIZE_DIVISIONS.map(option => (
+                  <option key={option} value={option}>{option === 1 ? '1 beat' : `1/${option} beat`}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {kind === 'stretch' && (
+            <label className="flex items-center gap-2 text-gray-400">
+              ×
+              <input type="number" min={0.25} max={4} step={0.05} value={factor} onChange={e => setFactor(e.target.value)} className={fieldClass} />
+              <span className="text-xs">above 1 is slower</span>
+            </label>
+          )}
+          {kind === 'shift' && (
+            <label className="flex items-center gap-2 text-gray-400">
+              by
+              <input type="number" step={0.1} value={seconds} onChange={e => setSeconds(e.target.value)} className={fieldClass} />
+              seconds
+            </label>
+          )}
+          {kind === 'transpose' && (
+            <label className="flex items-center gap-2 text-gray-400">
+              by
+              <input type="number" min={-24} max={24} step={1} value={semitones} onChange={e => setSemitones(e.target.value)} className={fieldClass} />
+              semitones
+            </label>
+          )}
+          {kind === 'simplify-melismas' && (
+            <span className="text-xs text-gray-400">Notes without a syllable are joined to the sung note before them.</span>
+          )}
+
+          <button onClick={handleAdd} disabled={!draft} className={buttonClass}>Apply</button>
+        </div>
+
+        <div className="flex items-center gap-2 flex-wrap text-xs">
+          <span className="text-gray-400">Changes:</span>
+          {transforms.length === 0 && <span className="text-gray-500">none yet — the timeline previews the form above</span>}
+          {transforms.map((transform, i) => (
+            <span key={i} className="px-2 py-0.5 rounded bg-gray-700 text-gray-200">{describeSongTransform(transform)}</span>
+          ))}
+          {transforms.length > 0 && (
+            <button onClick={() => setTransforms(prev => prev.slice(0, -1))} className="text-gray-400 hover:text-white transition-colors">
+              Undo last
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between flex-wrap gap-2">
+          <dl className="flex gap-4 text-xs">
+            {summary.map(item => (
+              <div key={item.label}>
+                <dt className="inline text-gray-500">{item.label}: </dt>
+                <dd className="inline text-gray-300">
+                  {item.before}
+                  {item.after !== item.before && <span className="text-blue-400"> → {item.after}</span>}
+                </dd>
+              </div>
+            ))}
+          </dl>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="px-3 py-1 text-sm text-gray-400 hover:text-white transition-colors">Cancel</button>
+            <button
+              onClick={() => onSave(buildEditedSong(preview, preview.notes, isUserSong), transposedBy)}
+              disabled={transforms.length === 0}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+              title={isUserSong ? 'Save the changes to this song' : 'Built-in songs are saved as a new song'}
+            >
+              {isUserSong ? 'Save' : 'Save as New Song'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <Timeline
+        song={shown}
+        timeline={timeline}
+        voiceAnalysis={voiceAnalysis}
+        voiceHistory={voiceHistory}
+        onTimelineChange={onTimelineChange}
+        transpositionSemitones={transpositionSemitones}
+        onTransposeUp={onTransposeUp}
+        onTransposeDown={onTransposeDown}
+        pitchRange={pitchRange}
+        toolbar={<span className="text-xs text-blue-400 font-semibold">Transform song</span>}
+      />
+    </div>
+  );
+};
+
+export default SongTransformer;
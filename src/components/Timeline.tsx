@@ -1,8 +1,32 @@
-import React, { useRef, useEffect } from 'react';
-import { Song, VoiceAnalysis, VoiceHistory, TimelineState } from '../types';
-import { isOctaveEquivalent, transposeNote } from '../utils/musicUtils';
+import React, { useRef, useEffect, useState } from 'react';
+import { Song, VoiceAnalysis, VoiceHistory, TimelineState, NoteDragMode, VocalRange } from '../types';
+import { isOctaveEquivalent, transposeNote, secondsPerSignatureBeat } from '../utils/musicUtils';
+import { getVocalRange } from '../utils/songAnalysis';
+import { DEFAULT_TIMELINE_RANGE } from '../utils/voiceProfiles';
 import PianoKeyboard from './PianoKeyboard';
 
+const NOTE_HEIGHT = 10;
+const RULER_HEIGHT = 20; // Clicks on the time labels seek, even while editing
+const RESIZE_HANDLE = 6; // Pixels at the end of a note that resize it
+const SONG_RANGE_MARGIN = 2; // Semitones kept free above and below the song when it widens the range
+
+// Interaction callbacks for edit mode; times are seconds and pitches are untransposed MIDI
+export interface TimelineEditor {
+  selectedIds: Set<string>;
+  gridStep: number | null;
+  editingLyricId: string | null;
+  onSelect: (ids: string[], mode: 'replace' | 'add' | 'toggle') => void;
+  onAddNote: (time: number, pitch: number) => void;
+  onDrag: (anchorId: string, mode: NoteDragMode, deltaTime: number, deltaPitch: number, done: boolean) => void;
+  onSplit: (id: string, time: number) => void;
+  onEditLyric: (id: string | null) => void;
+  onLyricCommit: (id: string, lyric: string, editNext: boolean) => void;
+}
+
+type PointerDrag =
+  | { kind: 'note'; anchorId: string; mode: NoteDragMode; startX: number; startY: number; moved: boolean }
+  | { kind: 'box'; startX: number; startY: number; additive: boolean };
+
 interface TimelineProps {
   song: Song;
   timeline: TimelineState;
@@ -12,6 +36,9 @@ interface TimelineProps {
   transpositionSemitones: number;
   onTransposeUp: () => void;
   onTransposeDown: () => void;
+  pitchRange?: VocalRange; // Pitches shown by default, from the voice profile; widened to fit the song
+  toolbar?: React.ReactNode; // Shown on the left of the header
+  editor?: TimelineEditor; // Turns on edit mode
 }
 
 const Timeline: React.FC<TimelineProps> = ({
@@ -22,10 +49,20 @@ const Timeline: React.FC<TimelineProps> = ({
   onTimelineChange,
   transpositionSemitones,
   onTransposeUp,
-  onTransposeDown
+  onTransposeDown,
+  pitchRange = DEFAULT_TIMELINE_RANGE,
+  toolbar,
+  editor
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Window listeners outlive a render, so they read the latest editor callbacks from here
+  const editorRef = useRef(editor);
+  editorRef.current = editor;
+  const dragRef = useRef<PointerDrag | null>(null);
+  const detachPointerRef = useRef<(() => void) | null>(null);
+  const lyricCommittedRef = useRef(false);
+  const [selectionBox, setSelectionBox] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
   
   // Calculate actual song duration from notes
   const calculateSongDuration = (song: Song): number => {
@@ -36,7 +73,149 @@ const Timeline: React.FC<TimelineProps> = ({
     return Math.ceil(lastNote.time + lastNote.duration + 2); // Add 2 second buffer
   };
   
-  const actualSongDuration = calculateSongDuration(song);
+  // Leave room after the last note for adding more while editing
+  const actualSongDuration = calculateSongDuration(song) + (editor ? 10 : 0);
+  const canvasHeight = 400;
+  // Nothing scrolls vertically, so the range grows to keep every transposed note on screen
+  const songRange = getVocalRange(song.notes);
+  const minPitch = songRange ? Math.min(pitchRange.lowest, songRange.lowest + transpositionSemitones - SONG_RANGE_MARGIN) : pitchRange.lowest;
+  const maxPitch = songRange ? Math.max(pitchRange.highest, songRange.highest + transpositionSemitones + SONG_RANGE_MARGIN) : pitchRange.highest;
+  const pitchSpan = maxPitch - minPitch;
+
+  const pitchToY = (pitch: number): number =>
+    canvasHeight - ((pitch - minPitch) / pitchSpan) * canvasHeight * 0.8 - canvasHeight * 0.1;
+  const yToPitch = (y: number): number =>
+    Math.round(minPitch + ((canvasHeight * 0.9 - y) / (canvasHeight * 0.8)) * pitchSpan) - transpositionSemitones;
+  const semitoneHeight = (canvasHeight * 0.8) / pitchSpan;
+
+  const getCanvasPoint = (e: { clientX: number; clientY: number }) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  // Topmost note under a canvas point, and whether the point is on its resize handle
+  const hitTestNote = (x: number, y: number): { id: string; onHandle: boolean } | null => {
+    for (let i = song.notes.length - 1; i >= 0; i--) {
+      const note = song.notes[i];
+      const left = note.time * timeline.zoom;
+      const right = left + note.duration * timeline.zoom;
+      const noteY = pitchToY(note.pitch + transpositionSemitones);
+      if (x >= left && x <= right + 2 && Math.abs(y - noteY) <= NOTE_HEIGHT / 2 + 1) {
+        return { id: note.id, onHandle: right - left > RESIZE_HANDLE * 2 && x >= right - RESIZE_HANDLE };
+      }
+    }
+    return null;
+  };
+
+  const seekTo = (x: number) => {
+    onTimelineChange({ currentTime: Math.max(0, Math.min(actualSongDuration, x / timeline.zoom)) });
+  };
+
+  const handlePointerMove = (e: MouseEvent) => {
+    const drag = dragRef.current;
+    const current = editorRef.current;
+    if (!drag || !current) return;
+    const { x, y } = getCanvasPoint(e);
+
+    if (drag.kind === 'note') {
+      if (!drag.moved && Math.abs(x - drag.startX) < 3 && Math.abs(y - drag.startY) < 3) return;
+      drag.moved = true;
+      const deltaPitch = drag.mode === 'move' ? -Math.round((y - drag.startY) / semitoneHeight) : 0;
+      current.onDrag(drag.anchorId, drag.mode, (x - drag.startX) / timeline.zoom, deltaPitch, false);
+    } else {
+      setSelectionBox({ x0: drag.startX, y0: drag.startY, x1: x, y1: y });
+    }
+  };
+
+  const handlePointerUp = (e: MouseEvent) => {
+    detachPointerRef.current?.();
+    const drag = dragRef.current;
+    const current = editorRef.current;
+    dragRef.current = null;
+    setSelectionBox(null);
+    if (!drag || !current) return;
+    const { x, y } = getCanvasPoint(e);
+
+    if (drag.kind === 'note') {
+      if (drag.moved) {
+        const deltaPitch = drag.mode === 'move' ? -Math.round((y - drag.startY) / semitoneHeight) : 0;
+        current.onDrag(drag.anchorId, drag.mode, (x - drag.startX) / timeline.zoom, deltaPitch, true);
+      }
+    } else if (Math.abs(x - drag.startX) < 3 && Math.abs(y - drag.startY) < 3) {
+      current.onAddNote(x / timeline.zoom, yToPitch(y));
+    } else {
+      // Select every note touching the dragged rectangle
+      const [left, right] = [Math.min(x, drag.startX), Math.max(x, drag.startX)];
+      const [top, bottom] = [Math.min(y, drag.startY), Math.max(y, drag.startY)];
+      const ids = song.notes
+        .filter(note => {
+          const noteLeft = note.time * timeline.zoom;
+          const noteRight = noteLeft + note.duration * timeline.zoom;
+          const noteY = pitchToY(note.pitch + transpositionSemitones);
+          return noteRight >= left && noteLeft <= right && noteY + NOTE_HEIGHT / 2 >= top && noteY - NOTE_HEIGHT / 2 <= bottom;
+        })
+        .map(note => note.id);
+      current.onSelect(ids, drag.additive ? 'add' : 'replace');
+    }
+  };
+
+  const handleEditorMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!editor || e.button !== 0) return;
+    const { x, y } = getCanvasPoint(e);
+    if (y < RULER_HEIGHT) {
+      seekTo(x);
+      return;
+    }
+
+    const hit = hitTestNote(x, y);
+    if (hit && e.altKey) {
+      editor.onSplit(hit.id, x / timeline.zoom);
+      return;
+    }
+    if (hit) {
+      if (e.shiftKey) {
+        editor.onSelect([hit.id], 'toggle');
+        return;
+      }
+      if (!editor.selectedIds.has(hit.id)) {
+        editor.onSelect([hit.id], 'replace');
+      }
+      dragRef.current = { kind: 'note', anchorId: hit.id, mode: hit.onHandle ? 'resize' : 'move', startX: x, startY: y, moved: false };
+    } else {
+      dragRef.current = { kind: 'box', startX: x, startY: y, additive: e.shiftKey };
+    }
+    window.addEventListener('mousemove', handlePointerMove);
+    window.addEventListener('mouseup', handlePointerUp);
+    detachPointerRef.current = () => {
+      window.removeEventListener('mousemove', handlePointerMove);
+      window.removeEventListener('mouseup', handlePointerUp);
+      detachPointerRef.current = null;
+    };
+  };
+
+  const handleEditorDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!editor) return;
+    const { x, y } = getCanvasPoint(e);
+    const hit = hitTestNote(x, y);
+    if (hit) {
+      editor.onEditLyric(hit.id);
+    }
+  };
+
+  // Stop listening if the editor closes mid-drag
+  useEffect(() => () => detachPointerRef.current?.(), []);
+
+  const lyricNote = editor?.editingLyricId ? song.notes.find(n => n.id === editor.editingLyricId) : undefined;
+
+  const commitLyric = (value: string, editNext: boolean) => {
+    if (!editor || !lyricNote || lyricCommittedRef.current) return;
+    lyricCommittedRef.current = true;
+    editor.onLyricCommit(lyricNote.id, value, editNext);
+  };
+
+  useEffect(() => {
+    lyricCommittedRef.current = false;
+  }, [editor?.editingLyricId]);
   
   // Auto-scroll timeline
   useEffect(() => {
@@ -91,10 +270,26 @@ const Timeline: React.FC<TimelineProps> = ({
       }
     }
     
-    // Note range for visualization (C3 to C6)
-    const minPitch = 48; // C3
-    const maxPitch = 84; // C6
-    const pitchRange = maxPitch - minPitch;
+    // Beat and snap grid while editing; bar lines are brighter
+    if (editor) {
+      const beat = secondsPerSignatureBeat(song.tempo > 0 ? song.tempo : 120, song.timeSignature);
+      const beatsPerBar = song.timeSignature?.[0] ?? 4;
+      const step = editor.gridStep && editor.gridStep < beat ? editor.gridStep : beat;
+      const stepsPerBeat = Math.round(beat / step);
+      ctx.save();
+      for (let i = 0; i * step <= actualSongDuration; i++) {
+        const x = i * step * timeline.zoom;
+        const isBar = i % (stepsPerBeat * beatsPerBar) === 0;
+        const isBeat = i % stepsPerBeat === 0;
+        ctx.strokeStyle = isBar ? '#6b7280' : '#4b5563';
+        ctx.globalAlpha = isBar ? 0.8 : isBeat ? 0.5 : 0.25;
+        ctx.beginPath();
+        ctx.moveTo(x, RULER_HEIGHT);
+        ctx.lineTo(x, height);
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
     
     // Draw staff lines (horizontal lines for piano keys)
     ctx.strokeStyle = '#4b5563';
@@ -103,7 +298,7 @@ const Timeline: React.FC<TimelineProps> = ({
     
     // Draw lines for each semitone
     for (let pitch = minPitch; pitch <= maxPitch; pitch++) {
-      const normalizedPitch = (pitch - minPitch) / pitchRange;
+      const normalizedPitch = (pitch - minPitch) / pitchSpan;
       const y = height - (normalizedPitch * height * 0.8) - height * 0.1;
       
       // Emphasize octave lines (C notes)
@@ -132,18 +327,39 @@ const Timeline: React.FC<TimelineProps> = ({
     transposedNotes.forEach((note, originalIndex) => {
       const x = note.time * timeline.zoom;
       const width = note.duration * timeline.zoom;
-      const normalizedPitch = (note.pitch - minPitch) / pitchRange;
+      const normalizedPitch = (note.pitch - minPitch) / pitchSpan;
       const y = height - (normalizedPitch * height * 0.8) - height * 0.1;
-      const noteHeight = 10; // Increased from 8 to 10 (20% increase)
+      const noteHeight = NOTE_HEIGHT;
       
       // Check if this is the currently active note (use original note for timing)
       const originalNote = song.notes[originalIndex];
       const isActiveNote = timeline.currentTime >= originalNote.time && 
                           timeline.currentTime <= originalNote.time + originalNote.duration;
+      const isSelected = editor?.selectedIds.has(note.id) ?? false;
+      
+      // Color: active note gets blue highlight, golden notes amber, others stay neutral gray
+      ctx.fillStyle = isSelected ? '#93c5fd' : isActiveNote ? '#3b82f6' : note.golden ? '#f59e0b' : '#6b7280';
+      if (note.freestyle) {
+        // Freestyle notes have no fixed pitch to match - draw them as outlines
+        ctx.strokeStyle = ctx.fillStyle;
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([4, 3]);
+        ctx.strokeRect(x, y - noteHeight/2, width, noteHeight);
+        ctx.setLineDash([]);
+      } else {
+        ctx.fillRect(x, y - noteHeight/2, width, noteHeight);
+      }
       
-      // Color: active note gets blue highlight, others stay neutral gray
-      ctx.fillStyle = isActiveNote ? '#3b82f6' : '#6b7280';
-      ctx.fillRect(x, y - noteHeight/2, width, noteHeight);
+      if (isSelected) {
+        // Outline plus a darker resize handle at the end
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(x, y - noteHeight/2, width, noteHeight);
+        if (width > RESIZE_HANDLE * 2) {
+          ctx.fillStyle = '#3b82f6';
+          ctx.fillRect(x + width - RESIZE_HANDLE, y - noteHeight/2, RESIZE_HANDLE, noteHeight);
+        }
+      }
       
       // Add glow effect for active note
       if (isActiveNote) {
@@ -182,6 +398,18 @@ const Timeline: React.FC<TimelineProps> = ({
       ctx.stroke();
       ctx.globalAlpha = 1;
 
+      // Mark phrase (lyric line) boundaries with a short separator
+      ctx.strokeStyle = '#6b7280';
+      ctx.lineWidth = 1;
+      song.notes.forEach((note, index) => {
+        if (!note.phraseStart || index === 0) return;
+        const x = note.time * timeline.zoom - 2;
+        ctx.beginPath();
+        ctx.moveTo(x, lyricBaselineY - 10);
+        ctx.lineTo(x, lyricBaselineY + 8);
+        ctx.stroke();
+      });
+
       // Draw each lyric centered under its note's time span
       song.notes.forEach(note => {
         if (!note.lyric) return;
@@ -233,7 +461,7 @@ const Timeline: React.FC<TimelineProps> = ({
       
       voiceHistory.forEach((point, index) => {
         const x = point.time * timeline.zoom;
-        const normalizedPitch = (point.pitch - minPitch) / pitchRange;
+        const normalizedPitch = (point.pitch - minPitch) / pitchSpan;
         const y = height - (normalizedPitch * height * 0.8) - height * 0.1;
         
         // Validate coordinates to prevent Canvas issues
@@ -255,7 +483,7 @@ const Timeline: React.FC<TimelineProps> = ({
       ctx.fillStyle = '#3b82f6';
       voiceHistory.forEach((point) => {
         const x = point.time * timeline.zoom;
-        const normalizedPitch = (point.pitch - minPitch) / pitchRange;
+        const normalizedPitch = (point.pitch - minPitch) / pitchSpan;
         const y = height - (normalizedPitch * height * 0.8) - height * 0.1;
         
         // Validate coordinates before drawing
@@ -282,7 +510,7 @@ const Timeline: React.FC<TimelineProps> = ({
       
       // If we have current pitch, draw the indicator
       if (voiceAnalysis.currentPitch) {
-        const normalizedPitch = (voiceAnalysis.currentPitch.pitch - minPitch) / pitchRange;
+        const normalizedPitch = (voiceAnalysis.currentPitch.pitch - minPitch) / pitchSpan;
         const y = height - (normalizedPitch * height * 0.8) - height * 0.1; // Move with pitch (Y-axis)
         
         // Enhanced coordinate validation
@@ -345,7 +573,22 @@ const Timeline: React.FC<TimelineProps> = ({
     ctx.lineTo(playheadX, height);
     ctx.stroke();
     
-  }, [song, timeline, voiceAnalysis, voiceHistory, transpositionSemitones]);
+    // Rubber-band selection
+    if (selectionBox) {
+      ctx.save();
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.15)';
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = 1;
+      const boxX = Math.min(selectionBox.x0, selectionBox.x1);
+      const boxY = Math.min(selectionBox.y0, selectionBox.y1);
+      const boxWidth = Math.abs(selectionBox.x1 - selectionBox.x0);
+      const boxHeight = Math.abs(selectionBox.y1 - selectionBox.y0);
+      ctx.fillRect(boxX, boxY, boxWidth, boxHeight);
+      ctx.strokeRect(boxX, boxY, boxWidth, boxHeight);
+      ctx.restore();
+    }
+    
+  }, [song, timeline, voiceAnalysis, voiceHistory, transpositionSemitones, pitchRange, editor?.selectedIds, editor?.gridStep, selectionBox]);
   
   return (
     <div className="flex-1 bg-gray-900 relative overflow-hidden">
@@ -354,6 +597,7 @@ const Timeline: React.FC<TimelineProps> = ({
         <div className="flex items-center justify-between">
           <div className="text-sm text-gray-300">
             {/* Removed: Timeline with Piano - Scroll follows playback */}
+            {toolbar}
           </div>
           <div className="flex items-center space-x-4">
             <span className="text-xs text-gray-400">Zoom:</span>
@@ -385,6 +629,8 @@ const Timeline: React.FC<TimelineProps> = ({
               })()
             }
             height={400}
+            minPitch={minPitch}
+            maxPitch={maxPitch}
             onNoteClick={(midiNote) => {
               // Optional: Could play the clicked note for reference
               console.log('Piano key clicked:', midiNote);
@@ -425,19 +671,49 @@ const Timeline: React.FC<TimelineProps> = ({
           ref={containerRef}
           className="flex-1 overflow-x-auto overflow-y-hidden"
         >
-          <canvas
-            ref={canvasRef}
-            className="block cursor-pointer"
-            height="400"
-            onClick={(e) => {
-              const canvas = canvasRef.current!;
-              const container = containerRef.current!;
-              const rect = container.getBoundingClientRect();
-              const x = e.clientX - rect.left + container.scrollLeft;
-              const newTime = x / timeline.zoom;
-              onTimelineChange({ currentTime: Math.max(0, Math.min(actualSongDuration, newTime)) });
-            }}
-          />
+          <div className="relative" style={{ width: actualSongDuration * timeline.zoom }}>
+            <canvas
+              ref={canvasRef}
+              className={`block ${editor ? 'cursor-crosshair' : 'cursor-pointer'}`}
+              height="400"
+              onMouseDown={handleEditorMouseDown}
+              onDoubleClick={handleEditorDoubleClick}
+              onClick={(e) => {
+                if (editor) return; // Edit mode seeks from the ruler on mouse down
+                const canvas = canvasRef.current!;
+                const container = containerRef.current!;
+                const rect = container.getBoundingClientRect();
+                const x = e.clientX - rect.left + container.scrollLeft;
+                const newTime = x / timeline.zoom;
+                onTimelineChange({ currentTime: Math.max(0, Math.min(actualSongDuration, newTime)) });
+              }}
+            />
+            {/* Inline lyric editor: Enter saves, Tab saves and moves to the next note, Escape cancels */}
+            {lyricNote && (
+              <input
+                key={lyricNote.id}
+                autoFocus
+                defaultValue={lyricNote.lyric ?? ''}
+                placeholder="lyric"
+                className="absolute bg-gray-900 border border-blue-500 rounded px-1 text-sm text-white text-center focus:outline-none"
+                style={{
+                  left: lyricNote.time * timeline.zoom,
+                  top: canvasHeight - 30,
+                  width: Math.max(60, lyricNote.duration * timeline.zoom)
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === 'Tab') {
+                    e.preventDefault();
+                    commitLyric(e.currentTarget.value, e.key === 'Tab');
+                  } else if (e.key === 'Escape') {
+                    lyricCommittedRef.current = true;
+                    editor?.onEditLyric(null);
+                  }
+                }}
+                onBlur={(e) => commitLyric(e.currentTarget.value, false)}
+              />
+            )}
+          </div>
         </div>
       </div>
       
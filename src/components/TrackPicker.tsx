@@ -0,0 +1,63 @@
+import React from 'react';
+import { TrackPickerOption } from '../types';
+import { getMidiNoteName } from '../utils/musicUtils';
+
+interface TrackPickerProps {
+  fileName: string;
+  options: TrackPickerOption[];
+  suggestedKey: string | null;
+  onSelect: (key: string) => void;
+  onCancel: () => void;
+}
+
+const TrackPicker: React.FC<TrackPickerProps> = ({ fileName, options, suggestedKey, onSelect, onCancel }) => {
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-blue-500 bg-gray-800">
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <h3 className="font-semibold text-white">Choose the vocal melody</h3>
+          <p className="text-sm text-gray-400">{fileName}</p>
+        </div>
+        <button
+          onClick={onCancel}
+          className="text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+      <div className="space-y-2">
+        {options.map(option => {
+          const isSuggested = option.key === suggestedKey;
+          return (
+            <button
+              key={option.key}
+              onClick={() => onSelect(option.key)}
+              className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                isSuggested
+                  ? 'border-blue-500 bg-blue-900/30 hover:bg-blue-900/50'
+                  : 'border-gray-600 bg-gray-900 hover:border-gray-500'
+              }`}
+            >
+              <div className="flex justify-between items-center">
+                <span className="text-white font-medium truncate">
+                  {option.label}
+                  {option.detail && <span className="text-gray-400 font-normal"> • {option.detail}</span>}
+                </span>
+                {isSuggested && (
+                  <span className="text-xs bg-blue-600 text-white px-2 py-1 rounded-full">Suggested</span>
+                )}
+              </div>
+              <div className="flex space-x-4 text-xs text-gray-500 mt-1">
+                <span>{option.noteCount} notes</span>
+                <span>{getMidiNoteName(option.lowestPitch)}–{getMidiNoteName(option.highestPitch)}</span>
+                {option.lyricCount > 0 && <span>{option.lyricCount} lyrics</span>}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TrackPicker;
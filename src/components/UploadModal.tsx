@@ -1,4 +1,5 @@
 import React from 'react';
+import { SongDiagnostic } from '../types';
 
 interface UploadModalProps {
   isOpen: boolean;
@@ -6,14 +7,26 @@ interface UploadModalProps {
   title: string;
   message: string;
   isSuccess: boolean;
+  diagnostics?: SongDiagnostic[]; // Problems found in the file, listed under the message
+  onConfirm?: () => void; // Turns the modal into an import preview with Cancel/Import buttons
+  confirmLabel?: string;
 }
 
-const UploadModal: React.FC<UploadModalProps> = ({ isOpen, onClose, title, message, isSuccess }) => {
+const UploadModal: React.FC<UploadModalProps> = ({
+  isOpen,
+  onClose,
+  title,
+  message,
+  isSuccess,
+  diagnostics = [],
+  onConfirm,
+  confirmLabel = 'Import'
+}) => {
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4 border border-gray-600">
+      <div className={`bg-gray-800 rounded-lg p-6 ${diagnostics.length > 0 ? 'max-w-2xl' : 'max-w-md'} w-full mx-4 border border-gray-600`}>
         <div className="flex items-center space-x-3 mb-4">
           <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
             isSuccess ? 'bg-green-600' : 'bg-red-600'
@@ -38,14 +51,49 @@ const UploadModal: React.FC<UploadModalProps> = ({ isOpen, onClose, title, messa
         <p className="text-gray-300 mb-6">
           {message}
         </p>
+
+        {diagnostics.length > 0 && (
+          <ul className="mb-6 max-h-64 overflow-y-auto rounded-lg border border-gray-700 divide-y divide-gray-700 text-sm">
+            {diagnostics.map((d, i) => (
+              <li key={i} className="flex items-start gap-3 px-3 py-2">
+                <span className="font-mono text-gray-400 whitespace-nowrap">
+                  {d.line}:{d.column}
+                </span>
+                <span className={`px-2 rounded text-xs font-medium uppercase ${
+                  d.severity === 'error' ? 'bg-red-900/60 text-red-300' : 'bg-yellow-900/60 text-yellow-300'
+                }`}>
+                  {d.severity}
+                </span>
+                <span className="text-gray-300">{d.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
         
-        <div className="flex justify-end">
-          <button
-            onClick={onClose}
-            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
-          >
-            OK
-          </button>
+        <div className="flex justify-end gap-3">
+          {onConfirm ? (
+            <>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={onConfirm}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+              >
+                {confirmLabel}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+            >
+              OK
+            </button>
+          )}
         </div>
       </div>
     </div>
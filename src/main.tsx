@@ -1,10 +1,21 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import { initStorage } from './utils/storage'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
\ No newline at end of file
+const root = document.getElementById('root')!
+
+// Shown until the storage upgrade can run; rendering the app replaces it
+const showCloseOtherTabs = () => {
+  root.innerHTML = '<p class="p-8 text-center text-gray-300">Vocal Coach is updating its saved data. Close any other Vocal Coach tabs to continue.</p>'
+}
+
+// Saved songs and settings are read synchronously, so load them before the first render
+initStorage(showCloseOtherTabs).then(() => {
+  ReactDOM.createRoot(root).render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>,
+  )
+})
\ No newline at end of file
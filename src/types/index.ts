@@ -9,6 +9,9 @@ export interface Note {
   frequency: number; // Frequency in Hz
   velocity: number; // MIDI velocity (0-127)
   lyric?: string; // Lyric syllable or word for this note
+  golden?: boolean; // Bonus note (UltraStar '*')
+  freestyle?: boolean; // Not scored for pitch (UltraStar 'F')
+  phraseStart?: boolean; // First note of a new lyric line
 }
 
 // Deprecated - kept for backward compatibility during transition
@@ -20,18 +23,79 @@ export interface LyricSegment {
   syllables?: string[];
 }
 
+// A named part of a song, starting at the first note at or after its time
+export interface SongSection {
+  name: string;
+  time: number; // Start time in seconds
+}
+
+// Lowest and highest MIDI pitches of a song's notes
+export interface VocalRange {
+  lowest: number;
+  highest: number;
+}
+
+// Tempo change part-way through a song
+export interface SongTempoChange {
+  time: number; // Seconds
+  bpm: number;
+}
+
+// Time signature change part-way through a song
+export interface SongMeterChange {
+  time: number; // Seconds, at the start of the first bar in the new meter
+  timeSignature: [number, number];
+}
+
 export interface Song {
   id: string;
   title: string;
   artist: string;
-  tempo: number; // BPM
+  tempo: number; // BPM at the start
   duration: number; // Total duration in seconds
-  timeSignature: [number, number]; // [numerator, denominator]
+  timeSignature: [number, number]; // [numerator, denominator] at the start
   key: string; // Musical key
   notes: Note[];
+  sections?: SongSection[]; // Named parts such as "Verse 1", in time order
+  tempoChanges?: SongTempoChange[]; // Later tempos from bar/beat files, in time order
+  meterChanges?: SongMeterChange[]; // Later time signatures from bar/beat files, in time order
+  vocalRange?: VocalRange;
   // lyrics field removed - now integrated into notes
 }
 
+// A track/channel pair from a MIDI file that can be imported as the vocal melody
+export interface MidiTrackOption {
+  track: number; // Track index in the file
+  channel: number; // MIDI channel (1-16)
+  name: string; // Track name meta event, if any
+  noteCount: number;
+  lyricCount: number;
+  lowestPitch: number;
+  highestPitch: number;
+}
+
+// A part/voice of a MusicXML score that can be imported as the vocal melody
+export interface MusicXmlPartOption {
+  partId: string;
+  voice: string;
+  name: string; // Part name from the part list
+  noteCount: number;
+  lyricCount: number;
+  lowestPitch: number;
+  highestPitch: number;
+}
+
+// One row of the import picker shown when a file holds several candidate melodies
+export interface TrackPickerOption {
+  key: string;
+  label: string;
+  detail?: string;
+  noteCount: number;
+  lyricCount: number;
+  lowestPitch: number;
+  highestPitch: number;
+}
+
 export interface PitchDetectionResult {
   frequency: number;
   pitch: number; // MIDI note number
@@ -42,6 +106,118 @@ export interface PitchDetectionResult {
   timestamp: number;
 }
 
+export type PitchAlgorithmId = 'yin' | 'mpm' | 'autocorrelation';
+
+// One of several pitches heard in a frame, with the chance that it is the sung one
+export interface PitchCandidate {
+  frequency: number; // Hz
+  probability: number; // 0-1; a frame's candidates sum to its voicing probability
+}
+
+// Everything an algorithm found in one frame: its best guess and the alternatives
+export interface PitchAnalysis {
+  result: PitchDetectionResult | null;
+  candidates: PitchCandidate[];
+  rms: number; // Level of the frame, reported even when it is gated as silence
+}
+
+// A frame's analysis stamped with when the sound was made
+export interface PitchObservation extends PitchAnalysis {
+  timestamp: number; // ms, Date.now clock
+}
+
+// A pitch estimator for one frame of audio, swappable in settings
+export interface PitchAlgorithm {
+  readonly id: PitchAlgorithmId;
+  detect(frame: Float32Array, sampleRate: number): PitchDetectionResult | null;
+  analyze(frame: Float32Array, sampleRate: number): PitchAnalysis;
+}
+
+// One frame of the smoothed pitch track, decoded by PitchTracker
+export interface TrackedPitch {
+  timestamp: number; // When the sound was made (ms, Date.now clock)
+  result: PitchDetectionResult | null; // Null when the frame is decoded as unvoiced
+  voicedProbability: number; // 0-1, from the frame's candidates
+}
+
+export interface PitchDetectorConfig {
+  algorithm: PitchAlgorithmId;
+  windowSize: number; // Samples per analysed frame
+  minFreq: number; // Hz
+  maxFreq: number; // Hz
+  rmsThreshold: number; // Quieter frames count as silence
+}
+
+export type VoiceProfileId = 'any' | 'bass' | 'baritone' | 'tenor' | 'alto' | 'soprano' | 'child' | 'custom';
+
+// A voice type that tunes the pitch detector and the timeline to the singer's range
+export interface VoiceProfile {
+  id: VoiceProfileId;
+  label: string;
+  range: VocalRange | null; // Typical sung range; null when the profile fits any voice
+  detector: Omit<PitchDetectorConfig, 'algorithm'>;
+  timelineRange: VocalRange; // Pitches the timeline shows by default
+}
+
+// Settings handed to the pitch AudioWorklet when it is created
+export interface PitchWorkletOptions {
+  config: PitchDetectorConfig;
+  hopSize: number; // Samples between analyses
+}
+
+// One analysis hop posted by the pitch AudioWorklet
+export interface PitchWorkletFrame {
+  time: number; // AudioContext seconds at the middle of the analysed window
+  analysis: PitchAnalysis;
+}
+
+// What the calibration wizard measured for one input device
+export interface MicCalibration {
+  deviceKey: string; // See describeInputDevice
+  deviceLabel: string;
+  noiseFloor: number; // RMS of the quiet room
+  singingLevel: number | null; // RMS of the sung test note, when one was heard
+  rmsThreshold: number; // Gate between the two; quieter frames count as silence
+  latency: number; // Seconds from a note being played until it comes back through the microphone
+  calibratedAt: number;
+}
+
+// A permanent change to a song's notes, previewed before it is saved
+export type SongTransform =
+  | { kind: 'quantize'; division: number } // Snap note boundaries to 1/division of a beat
+  | { kind: 'stretch'; factor: number } // Multiply all times; 2 plays twice as slow
+  | { kind: 'shift'; seconds: number } // Move every note later (or earlier when negative)
+  | { kind: 'transpose'; semitones: number }
+  | { kind: 'simplify-melismas' }; // One note per syllable
+
+// A syllable of pasted lyrics, already in the song format's hyphen convention ("Hap-", "-py")
+export interface LyricSyllable {
+  text: string;
+  lineStart: boolean; // First syllable of a lyric line
+}
+
+// One pitch-detector reading while recording a new song; frequency is null when nothing was heard
+export interface PitchFrame {
+  time: number; // Seconds since recording started
+  frequency: number | null;
+  confidence: number; // 0-1
+}
+
+// A note found in the recording before quantization; pitch is a fractional MIDI number
+export interface DetectedNote {
+  time: number;
+  duration: number;
+  pitch: number;
+}
+
+export interface TranscriptionSettings {
+  tempo: number; // BPM of the grid notes are snapped to
+  division: number; // Grid steps per beat
+  timeSignature: [number, number];
+  key: string | null; // Pitches snap to this key's scale, or to semitones when null
+  alignToFirstNote: boolean; // Without a click track, the first note starts the first bar
+}
+
 export interface VoiceAnalysis {
   currentPitch: PitchDetectionResult | null;
   targetNote: Note | null;
@@ -84,6 +260,30 @@ export interface MicrophoneState {
   isRequestingPermission: boolean;
 }
 
+// A song received through a share link, with the transposition the sender used
+export interface SharedSong {
+  song: Song;
+  transposition: number;
+}
+
+export type SongExportFormat = 'tsv' | 'tsv-beats' | 'ultrastar' | 'midi' | 'midi-take';
+
+// A problem found while parsing a song file; line and column are 1-based
+export interface SongDiagnostic {
+  line: number;
+  column: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface SongParseResult {
+  song: Song;
+  diagnostics: SongDiagnostic[];
+}
+
+// How note lines in the TSV format are timed: "mm:ss:mmm-mm:ss:mmm" or "bar.beat+length"
+export type TsvTimingMode = 'timestamps' | 'beats';
+
 export interface SongResults {
   totalNotes: number;
   correctNotes: number;
@@ -92,6 +292,122 @@ export interface SongResults {
   completedAt: number;
 }
 
+export type SongDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+// A song listed in songs/manifest.json; its file is only fetched when the song is opened
+export interface SongPackEntry {
+  songId: string; // `${packId}/${id}` from the manifest
+  title: string;
+  artist: string;
+  difficulty?: SongDifficulty;
+  tags: string[];
+  url: string; // Resolved against the manifest location
+}
+
+export interface SongPack {
+  id: string;
+  title: string;
+  description?: string;
+  entries: SongPackEntry[];
+}
+
+// Library data kept for every song, including built-in and pack songs
+export interface SongLibraryInfo {
+  songId: string;
+  tags: string[];
+  favorite: boolean;
+  lastPlayedAt?: number;
+}
+
+// A song as listed in the library, which may be a pack song that is not fetched yet
+export interface LibraryItem {
+  songId: string;
+  title: string;
+  artist: string;
+  source: 'builtin' | 'pack' | 'user';
+  song?: Song;
+  difficulty?: SongDifficulty;
+  presetTags: string[]; // Tags from the pack manifest, not editable
+}
+
+// Editable song details in the library
+export type SongDetails = Pick<Song, 'title' | 'artist' | 'key' | 'tempo'>;
+
+// Undo/redo stack of the note editor
+export interface NoteEditHistory {
+  past: Note[][];
+  present: Note[];
+  future: Note[][];
+}
+
+export type NoteDragMode = 'move' | 'resize';
+
+// A library song with the same melody as a song being imported
+export interface SongMatch {
+  song: Song;
+  exact: boolean; // Same notes, timing and lyrics
+  transposition: number; // Semitones from the library song to the import
+  lyricsDiffer: boolean;
+}
+
+export type DuplicateResolution = 'open-existing' | 'merge' | 'replace' | 'keep-both';
+
+// A deleted user song with everything needed to undo the deletion
+export interface DeletedSong {
+  song: Song;
+  info?: SongLibraryInfo;
+  history?: SongResults[];
+  wasLastSelected: boolean;
+}
+
+export type LibraryLength = 'short' | 'medium' | 'long';
+export type LibrarySort = 'default' | 'title' | 'last-played' | 'best-score';
+
+// Search, filters and sorting in the song library; persisted between sessions
+export interface LibraryView {
+  query: string; // Matches title, artist and lyrics
+  tag: string | null;
+  favoritesOnly: boolean;
+  key: string | null;
+  rangeLow: number | null; // MIDI; songs must not go below
+  rangeHigh: number | null; // MIDI; songs must not go above
+  difficulty: SongDifficulty | null;
+  length: LibraryLength | null;
+  sort: LibrarySort;
+}
+
+// Audio captured while singing along, kept in the recordings store
+export interface SongRecording {
+  id: string;
+  songId: string;
+  createdAt: number;
+  mimeType: string;
+  duration: number; // Seconds
+  blob: Blob;
+}
+
+// Everything in a user's library, as written by "Export library"
+export interface LibraryBackup {
+  format: string; // Always "vocal-coach-library"
+  version: number;
+  exportedAt: string; // ISO date
+  songs: Song[];
+  settings: Record<string, unknown>; // Setting values by key
+  scoreHistory: Record<string, SongResults[]>; // By song ID
+  songInfo: Record<string, SongLibraryInfo>; // Tags and favourites by song ID
+}
+
+// What to do with a backup song whose ID already belongs to a different song
+export type LibraryConflictPolicy = 'replace' | 'keep-both' | 'skip';
+
+export interface LibraryRestoreSummary {
+  added: number;
+  replaced: number;
+  renamed: number; // Imported under a new ID next to the existing song
+  skipped: number;
+  unchanged: number; // Already in the library with identical content
+}
+
 export interface AppState {
   currentSong: Song | null;
   timeline: TimelineState;
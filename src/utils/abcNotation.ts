@@ -0,0 +1,525 @@
+import { Song, Note } from '../types';
+import { midiToFrequency, getMidiNoteNameOnly, slugifyTitle, createBeatToSeconds, getRepeatPlaybackOrder, TempoChange, RepeatMarks } from './musicUtils';
+import { analyzeSong } from './songAnalysis';
+import { createSongId } from './songIdentity';
+
+interface AbcEvent {
+  pitch: number | null; // null = rest
+  beats: number; // Length in quarter notes
+  tieOpen: boolean;
+  lyrics: (string | undefined)[]; // One entry per w: verse
+  bpm?: number; // Inline tempo change (zero-length event)
+}
+
+interface AbcBar extends RepeatMarks {
+  events: AbcEvent[];
+}
+
+interface AbcKey {
+  name: string;
+  signature: { [letter: string]: number }; // Alteration in semitones per note letter
+}
+
+interface BeatNote {
+  startBeat: number;
+  endBeat: number;
+  pitch: number;
+  lyric?: string;
+  tieOpen: boolean;
+}
+
+const STEP_VALUES: { [step: string]: number } = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Circle-of-fifths position of each natural note as a major tonic
+const LETTER_FIFTHS: { [letter: string]: number } = { F: -1, C: 0, G: 1, D: 2, A: 3, E: 4, B: 5 };
+
+const MODES: { [prefix: string]: { name: string; offset: number } } = {
+  '': { name: 'Major', offset: 0 },
+  maj: { name: 'Major', offset: 0 },
+  ion: { name: 'Major', offset: 0 },
+  m: { name: 'Minor', offset: -3 },
+  min: { name: 'Minor', offset: -3 },
+  aeo: { name: 'Minor', offset: -3 },
+  mix: { name: 'Mixolydian', offset: -1 },
+  dor: { name: 'Dorian', offset: -2 },
+  phr: { name: 'Phrygian', offset: -4 },
+  lyd: { name: 'Lydian', offset: 1 },
+  loc: { name: 'Locrian', offset: -5 }
+};
+
+const SHARP_ORDER = 'FCGDAEB';
+const FLAT_ORDER = 'BEADGCF';
+
+const parseFraction = (value: string): number => {
+  const [num, den] = value.trim().split('/');
+  const n = parseFloat(num);
+  const d = den === undefined ? 1 : parseFloat(den);
+  return isFinite(n) && isFinite(d) && d > 0 ? n / d : NaN;
+};
+
+const parseAccidental = (marks: string): number => {
+  if (marks === '=') return 0;
+  return marks.split('').reduce((sum, c) => sum + (c === '^' ? 1 : -1), 0);
+};
+
+// K: field, e.g. "G", "Em", "D dorian", "Bb mix", "F exp ^c _b" or "none"
+const parseKeyField = (value: string): AbcKey => {
+  const signature: { [letter: string]: number } = {};
+  const m = value.trim().match(/^([A-G])([#b]?)\s*([A-Za-z]*)/);
+  let name = 'C Major';
+
+  if (m) {
+    const mode = MODES[m[3].toLowerCase().slice(0, 3)] ?? MODES[''];
+    const fifths = LETTER_FIFTHS[m[1]] + (m[2] === '#' ? 7 : m[2] === 'b' ? -7 : 0) + mode.offset;
+    for (let i = 0; i < Math.min(7, Math.abs(fifths)); i++) {
+      if (fifths > 0) signature[SHARP_ORDER[i]] = 1;
+      else signature[FLAT_ORDER[i]] = -1;
+    }
+    name = `${m[1]}${m[2]} ${mode.name}`;
+  }
+
+  // Explicit accidentals override the signature of the named key
+  for (const token of value.split(/\s+/)) {
+    const explicit = token.match(/^([_^=]+)([a-gA-G])$/);
+    if (explicit) signature[explicit[2].toUpperCase()] = parseAccidental(explicit[1]);
+  }
+
+  return { name, signature };
+};
+
+// M: field, e.g. "6/8", "C" (common time), "C|" (cut time) or "2+3/8"
+const parseMeter = (value: string): [number, number] | null => {
+  const trimmed = value.trim();
+  if (trimmed === 'C') return [4, 4];
+  if (trimmed === 'C|') return [2, 2];
+  const m = trimmed.match(/^\(?([\d+]+)\)?\/(\d+)$/);
+  if (!m) return null;
+  const beats = m[1].split('+').reduce((sum, n) => sum + (parseInt(n, 10) || 0), 0);
+  const beatType = parseInt(m[2], 10);
+  return beats > 0 && beatType > 0 ? [beats, beatType] : null;
+};
+
+// Q: field in quarter notes per minute, e.g. "1/4=120", "3/8=60", "\"Allegro\" 1/4=132" or legacy "120"
+const parseTempo = (value: string, unitLength: number): number | null => {
+  const cleaned = value.replace(/"[^"]*"/g, '').trim();
+  if (!cleaned) return null;
+  const [left, right] = cleaned.includes('=') ? cleaned.split('=') : ['', cleaned];
+  const bpm = parseFloat(right);
+  if (!isFinite(bpm) || bpm <= 0) return null;
+
+  const beatLength = left.trim() && !/^C$/i.test(left.trim())
+    ? left.trim().split(/\s+/).reduce((sum, f) => sum + (parseFraction(f) || 0), 0)
+    : unitLength;
+  return beatLength > 0 ? bpm * beatLength * 4 : null;
+};
+
+// Splits a w: line into syllables ("Hap-", "-py"), note skips and bar advances
+const parseLyricLine = (value: string): { text?: string; skip?: boolean; bar?: boolean }[] => {
+  const tokens: { text?: string; skip?: boolean; bar?: boolean }[] = [];
+  let current = '';
+  let continuesWord = false; // Current syllable follows a hyphen
+  let lastWasHyphen = false;
+
+  const flush = (hyphenated: boolean) => {
+    if (current) {
+      tokens.push({ text: `${continuesWord ? '-' : ''}${current}${hyphenated ? '-' : ''}` });
+      continuesWord = hyphenated;
+      current = '';
+    } else if (hyphenated && lastWasHyphen) {
+      // "--" leaves a note without a syllable
+      tokens.push({ skip: true });
+    }
+  };
+
+  for (let i = 0; i < value.length; i++) {
+    const c = value[i];
+    if (c === '\\' && value[i + 1] === '-') {
+      current += '-';
+      i++;
+    } else if (c === '-') {
+      flush(true);
+      lastWasHyphen = true;
+      continue;
+    } else if (/\s/.test(c)) {
+      flush(false);
+      continue;
+    } else if (c === '_' || c === '*') {
+      flush(false);
+      tokens.push({ skip: true });
+    } else if (c === '|') {
+      flush(false);
+      continuesWord = false;
+      tokens.push({ bar: true });
+    } else if (c === '~') {
+      current += ' ';
+    } else {
+      current += c;
+    }
+    lastWasHyphen = false;
+  }
+  flush(false);
+
+  return tokens;
+};
+
+export function isAbcText(text: string): boolean {
+  return /^\s*X:\s*\d*/m.test(text) && /^\s*K:/m.test(text);
+}
+
+export function parseAbcToSong(text: string, title: string = 'Imported Song', artist: string = 'Unknown'): Song {
+  const headers: { [field: string]: string } = {};
+  let key: AbcKey = parseKeyField('C');
+  let meter: [number, number] | null = null;
+  let unitLength: number | null = null;
+  let initialTempo: number | null = null;
+  let inBody = false;
+
+  const bars: AbcBar[] = [];
+  const newBar = (endings: number[]): AbcBar => ({
+    events: [], forwardRepeat: false, backwardRepeat: false, repeatTimes: 2, endings, endingStops: false
+  });
+  let bar = newBar([]);
+  let activeEndings: number[] = [];
+  let barAccidentals = new Map<string, number>();
+  let lastNote: AbcEvent | null = null;
+  let brokenFactor = 1; // Applied to the note after a > or <
+  let tuplet = { factor: 1, remaining: 0 };
+
+  // Lyric-bearing notes of each music line, with the bar they fall in
+  const lineNotes: { event: AbcEvent; bar: number }[][] = [];
+  let lineIndex = -1;
+  let verse = 0;
+  let continuesLine = false;
+
+  const getUnitLength = () => {
+    if (unitLength !== null) return unitLength;
+    return meter && meter[0] / meter[1] < 0.75 ? 1 / 16 : 1 / 8;
+  };
+
+  const applyField = (field: string, value: string) => {
+    switch (field) {
+      case 'K':
+        key = parseKeyField(value);
+        break;
+      case 'M':
+        meter = parseMeter(value) ?? meter;
+        break;
+      case 'L': {
+        const length = parseFraction(value);
+        if (length > 0) unitLength = length;
+        break;
+      }
+      case 'Q': {
+        const bpm = parseTempo(value, getUnitLength());
+        if (bpm === null) break;
+        if (!inBody) initialTempo = bpm;
+        else bar.events.push({ pitch: null, beats: 0, tieOpen: false, lyrics: [], bpm });
+        break;
+      }
+    }
+  };
+
+  const closeBar = (token: string) => {
+    const backward = token.startsWith(':') || token.includes(':|');
+    const forward = token.endsWith(':') || token.includes('|:');
+    const target = bar.events.length > 0 || bars.length === 0 ? bar : bars[bars.length - 1];
+    if (backward) target.backwardRepeat = true;
+
+    const isSectionEnd = backward || forward || /\|\||\|\]|\[\|/.test(token);
+    if (activeEndings.length > 0 && isSectionEnd) {
+      target.endingStops = true;
+      activeEndings = [];
+    }
+
+    if (bar.events.length > 0) {
+      bars.push(bar);
+      bar = newBar(activeEndings);
+    }
+    if (forward) bar.forwardRepeat = true;
+    barAccidentals = new Map();
+  };
+
+  const startEnding = (numbers: string) => {
+    activeEndings = numbers
+      .split(',')
+      .flatMap(part => {
+        const [from, to] = part.split('-').map(n => parseInt(n, 10));
+        if (!(from > 0)) return [];
+        return to > from ? Array.from({ length: to - from + 1 }, (_, k) => from + k) : [from];
+      });
+    bar.endings = activeEndings;
+  };
+
+  // Reads [accidentals]letter[octave marks][length] starting at i
+  const readNote = (line: string, i: number): { pitch: number; length: number; next: number } | null => {
+    const m = line.slice(i).match(/^([_^=]*)([A-Ga-g])([',]*)(\d*)(\/*)(\d*)/);
+    if (!m) return null;
+    const letter = m[2].toUpperCase();
+    let octave = m[2] === letter ? 4 : 5;
+    for (const mark of m[3]) octave += mark === "'" ? 1 : -1;
+
+    const accidentalKey = `${letter}${octave}`;
+    let alter: number;
+    if (m[1]) {
+      alter = parseAccidental(m[1]);
+      barAccidentals.set(accidentalKey, alter);
+    } else {
+      alter = barAccidentals.get(accidentalKey) ?? key.signature[letter] ?? 0;
+    }
+
+    return {
+      pitch: (octave + 1) * 12 + STEP_VALUES[letter] + alter,
+      length: readLength(m[4], m[5], m[6]),
+      next: i + m[0].length
+    };
+  };
+
+  // "3", "/", "//", "3/2" -> multiple of the unit note length
+  const readLength = (num: string, slashes: string, den: string): number => {
+    const numerator = num ? parseInt(num, 10) : 1;
+    if (!slashes) return numerator;
+    const denominator = den ? parseInt(den, 10) * Math.pow(2, slashes.length - 1) : Math.pow(2, slashes.length);
+    return numerator / denominator;
+  };
+
+  const addEvent = (pitch: number | null, length: number) => {
+    let beats = length * getUnitLength() * 4 * brokenFactor;
+    brokenFactor = 1;
+    if (tuplet.remaining > 0) {
+      beats *= tuplet.factor;
+      tuplet.remaining--;
+    }
+
+    const event: AbcEvent = { pitch, beats, tieOpen: false, lyrics: [] };
+    const continuesTie = pitch !== null && lastNote?.tieOpen && lastNote.pitch === pitch;
+    bar.events.push(event);
+    if (pitch !== null && !continuesTie && lineIndex >= 0) {
+      lineNotes[lineIndex].push({ event, bar: bars.length });
+    }
+    if (pitch === null && lastNote) lastNote.tieOpen = false;
+    lastNote = event;
+  };
+
+  const parseMusicLine = (line: string) => {
+    if (!continuesLine) {
+      lineIndex++;
+      lineNotes.push([]);
+      verse = 0;
+    }
+    continuesLine = /\\\s*(%.*)?$/.test(line);
+
+    let i = 0;
+    while (i < line.length) {
+      const c = line[i];
+      const rest = line.slice(i);
+
+      if (c === '%') break;
+
+      // Chord symbols, annotations, decorations and grace notes are not sung
+      const skipTo = ({ '"': '"', '!': '!', '+': '+', '{': '}' } as { [open: string]: string })[c];
+      if (skipTo) {
+        const end = line.indexOf(skipTo, i + 1);
+        i = end === -1 ? line.length : end + 1;
+        continue;
+      }
+
+      const inlineField = rest.match(/^\[([A-Za-z]):([^\]]*)\]/);
+      if (inlineField) {
+        applyField(inlineField[1], inlineField[2]);
+        i += inlineField[0].length;
+        continue;
+      }
+
+      const ending = rest.match(/^\[(\d[\d,-]*)/);
+      if (ending) {
+        startEnding(ending[1]);
+        i += ending[0].length;
+        continue;
+      }
+
+      const barLine = rest.match(/^(\[\||[|:]+\]?)(\d[\d,-]*)?/);
+      if (barLine && (barLine[1].includes('|') || barLine[1].length > 1)) {
+        closeBar(barLine[1]);
+        if (barLine[2]) startEnding(barLine[2]);
+        i += barLine[0].length;
+        continue;
+      }
+
+      if (c === '[') {
+        // Chord: sing the top note, timed by the first note and the length after ]
+        const end = line.indexOf(']', i);
+        const inner = end === -1 ? line.slice(i + 1) : line.slice(i + 1, end);
+        const chordNotes: { pitch: number; length: number }[] = [];
+        let tied = false;
+        for (let j = 0; j < inner.length; ) {
+          const note = readNote(inner, j);
+          if (note) {
+            chordNotes.push(note);
+            j = note.next;
+          } else {
+            if (inner[j] === '-') tied = true;
+            j++;
+          }
+        }
+        i = end === -1 ? line.length : end + 1;
+        const outer = line.slice(i).match(/^(\d*)(\/*)(\d*)/);
+        i += outer ? outer[0].length : 0;
+        if (chordNotes.length > 0) {
+          const multiplier = outer ? readLength(outer[1], outer[2], outer[3]) : 1;
+          addEvent(Math.max(...chordNotes.map(n => n.pitch)), chordNotes[0].length * multiplier);
+          if (tied && lastNote) lastNote.tieOpen = true;
+        }
+        continue;
+      }
+
+      const tupletMatch = rest.match(/^\((\d)(?::(\d?)(?::(\d?))?)?/);
+      if (tupletMatch) {
+        const p = parseInt(tupletMatch[1], 10);
+        const defaultQ = [3, 6].includes(p) ? 2 : [2, 4, 8].includes(p) ? 3 : meter && meter[0] % 3 === 0 && meter[0] > 3 ? 3 : 2;
+        const q = parseInt(tupletMatch[2] || '', 10) || defaultQ;
+        const r = parseInt(tupletMatch[3] || '', 10) || p;
+        tuplet = { factor: q / p, remaining: r };
+        i += tupletMatch[0].length;
+        continue;
+      }
+
+      const note = readNote(line, i);
+      if (note) {
+        addEvent(note.pitch, note.length);
+        i = note.next;
+        continue;
+      }
+
+      const restMatch = rest.match(/^([zxZX])(\d*)(\/*)(\d*)/);
+      if (restMatch) {
+        if (restMatch[1] === 'z' || restMatch[1] === 'x') {
+          addEvent(null, readLength(restMatch[2], restMatch[3], restMatch[4]));
+        } else {
+          // Multi-measure rest: Z4 is four whole bars
+          const barCount = parseInt(restMatch[2], 10) || 1;
+          const barBeats = meter ? (meter[0] * 4) / meter[1] : 4;
+          addEvent(null, (barCount * barBeats) / (getUnitLength() * 4));
+        }
+        i += restMatch[0].length;
+        continue;
+      }
+
+      if (c === '-' && lastNote && lastNote.pitch !== null) {
+        lastNote.tieOpen = true;
+      } else if ((c === '>' || c === '<') && lastNote) {
+        // Broken rhythm: a>b dots the first note and halves the second
+        let count = 1;
+        while (line[i + count] === c) count++;
+        const shortFactor = Math.pow(0.5, count);
+        const first = c === '>' ? 2 - shortFactor : shortFactor;
+        lastNote.beats *= first;
+        brokenFactor = 2 - first;
+        i += count;
+        continue;
+      }
+      i++;
+    }
+  };
+
+  const addLyrics = (value: string) => {
+    const notes = lineNotes[lineIndex];
+    if (!notes) return;
+    let n = 0;
+    for (const token of parseLyricLine(value)) {
+      if (token.bar) {
+        const currentBar = n > 0 ? notes[n - 1].bar : -1;
+        while (n < notes.length && notes[n].bar <= currentBar) n++;
+        continue;
+      }
+      if (n >= notes.length) break;
+      if (token.text) notes[n].event.lyrics[verse] = token.text;
+      n++;
+    }
+    verse++;
+  };
+
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  for (const line of lines) {
+    const field = line.match(/^([A-Za-z+]):\s?(.*)$/);
+    if (!field) {
+      if (inBody && line.trim() && !line.trim().startsWith('%')) parseMusicLine(line);
+      continue;
+    }
+
+    const [, name, value] = field;
+    // Only the first tune of a multi-tune file is imported
+    if (name === 'X' && inBody) break;
+    if (!inBody) {
+      if (!(name in headers)) headers[name] = value.trim();
+      applyField(name, value);
+      if (name === 'K') inBody = true;
+      continue;
+    }
+    if (name === 'w') addLyrics(value);
+    else applyField(name, value);
+  }
+  if (bar.events.length > 0) bars.push(bar);
+
+  if (!inBody) {
+    throw new Error('ABC tune has no K: field');
+  }
+
+  // Lay out the played order, joining ties and picking the verse for each repeat pass
+  const tempoChanges: TempoChange[] = [{ beat: 0, bpm: initialTempo ?? 120 }];
+  const beatNotes: BeatNote[] = [];
+  let beat = 0;
+  getRepeatPlaybackOrder(bars).forEach(({ index, pass }) => {
+    for (const event of bars[index].events) {
+      if (event.bpm) {
+        tempoChanges.push({ beat, bpm: event.bpm });
+        continue;
+      }
+      const previous = beatNotes[beatNotes.length - 1];
+      if (event.pitch !== null) {
+        if (previous && previous.tieOpen && previous.pitch === event.pitch && Math.abs(previous.endBeat - beat) < 1e-6) {
+          previous.endBeat += event.beats;
+          previous.tieOpen = event.tieOpen;
+        } else {
+          beatNotes.push({
+            startBeat: beat,
+            endBeat: beat + event.beats,
+            pitch: event.pitch,
+            lyric: event.lyrics[pass - 1] ?? event.lyrics[0],
+            tieOpen: event.tieOpen
+          });
+        }
+      }
+      beat += event.beats;
+    }
+  });
+
+  const beatToSeconds = createBeatToSeconds(tempoChanges);
+  const notes: Note[] = beatNotes.map((n, i) => {
+    const time = beatToSeconds(n.startBeat);
+    return {
+      id: String(i + 1),
+      time,
+      duration: beatToSeconds(n.endBeat) - time,
+      pitch: n.pitch,
+      name: getMidiNoteNameOnly(n.pitch),
+      frequency: midiToFrequency(n.pitch),
+      velocity: 80,
+      lyric: n.lyric
+    };
+  });
+
+  const songTitle = headers['T'] || title;
+  const maxTime = notes.reduce((max, n) => Math.max(max, n.time + n.duration), 0);
+  const timeSignature: [number, number] = meter ?? [4, 4];
+
+  return analyzeSong({
+    id: createSongId(slugifyTitle(songTitle), notes),
+    title: songTitle,
+    artist: headers['C'] || artist,
+    tempo: Math.round(initialTempo ?? 120),
+    duration: Math.ceil(maxTime + 2),
+    timeSignature,
+    key: parseKeyField(headers['K'] ?? '').name,
+    notes
+  });
+}
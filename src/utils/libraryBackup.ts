@@ -0,0 +1,201 @@
+import { Song, SongResults, SongLibraryInfo, LibraryBackup, LibraryConflictPolicy, LibraryRestoreSummary } from '../types';
+import { getSavedSongs, saveSongToStorage, getScoreHistory, saveScoreHistory } from './musicUtils';
+import { getSetting, setSetting, getAllSongInfo, putSongInfo } from './storage';
+
+const BACKUP_FORMAT = 'vocal-coach-library';
+const BACKUP_VERSION = 1;
+
+// App settings carried in a backup
+const SETTING_KEYS = [
+  'vocalCoach_transposition',
+  'vocalCoach_noteSoundEnabled',
+  'vocalCoach_microphoneMuted',
+  'vocalCoach_lastSelectedSong',
+  'vocalCoach_pitchAlgorithm',
+  'vocalCoach_voiceProfile',
+  'vocalCoach_customVoiceRange',
+  'vocalCoach_micCalibrations'
+];
+
+const isSong = (value: unknown): value is Song => {
+  const song = value as Song;
+  return !!song && typeof song.id === 'string' && typeof song.title === 'string' && Array.isArray(song.notes);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isResult = (value: unknown): value is SongResults => isRecord(value) && typeof value.completedAt === 'number';
+
+// Score lists that are not arrays and results without a finish time are dropped
+const readScoreHistory = (value: unknown): Record<string, SongResults[]> => {
+  if (!isRecord(value)) return {};
+  const history: Record<string, SongResults[]> = {};
+  Object.entries(value).forEach(([songId, results]) => {
+    if (Array.isArray(results)) history[songId] = results.filter(isResult);
+  });
+  return history;
+};
+
+// Entries without a song ID are dropped; missing tags and flags get their defaults
+const readSongInfo = (value: unknown): Record<string, SongLibraryInfo> => {
+  if (!isRecord(value)) return {};
+  const info: Record<string, SongLibraryInfo> = {};
+  Object.values(value).forEach(entry => {
+    if (!isRecord(entry) || typeof entry.songId !== 'string') return;
+    info[entry.songId] = {
+      songId: entry.songId,
+      tags: Array.isArray(entry.tags) ? entry.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+      favorite: entry.favorite === true,
+      lastPlayedAt: typeof entry.lastPlayedAt === 'number' ? entry.lastPlayedAt : undefined
+    };
+  });
+  return info;
+};
+
+export function createLibraryBackup(): LibraryBackup {
+  const settings: Record<string, unknown> = {};
+  SETTING_KEYS.forEach(key => {
+    const value = getSetting<unknown>(key, undefined);
+    if (value !== undefined) settings[key] = value;
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    songs: Object.values(getSavedSongs()),
+    settings,
+    scoreHistory: getScoreHistory(),
+    songInfo: getAllSongInfo()
+  };
+}
+
+// Whether a backup would hold anything: user songs, scores, tags, favourites or settings
+export function hasLibraryBackupContent(): boolean {
+  const backup = createLibraryBackup();
+  return backup.songs.length > 0 ||
+    Object.keys(backup.settings).length > 0 ||
+    Object.values(backup.scoreHistory).some(results => results.length > 0) ||
+    Object.keys(backup.songInfo).length > 0;
+}
+
+export function parseLibraryBackup(text: string): LibraryBackup {
+  let data: Partial<LibraryBackup>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (data?.format !== BACKUP_FORMAT) {
+    throw new Error('The file is not a Vocal Coach library backup');
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error('The backup was made by a newer version of the app');
+  }
+  if (!Array.isArray(data.songs) || !data.songs.every(isSong)) {
+    throw new Error('The backup contains invalid songs');
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: data.version,
+    exportedAt: data.exportedAt ?? '',
+    songs: data.songs,
+    settings: isRecord(data.settings) ? data.settings : {},
+    // Checked here so a bad entry cannot stop a restore after some songs were written
+    scoreHistory: readScoreHistory(data.scoreHistory),
+    songInfo: readSongInfo(data.songInfo)
+  };
+}
+
+// Songs in the backup whose ID is already taken by a different song
+export function findBackupConflicts(backup: LibraryBackup, existingSongs: Song[]): Song[] {
+  const existing = new Map(existingSongs.map(song => [song.id, song]));
+  return backup.songs.filter(song => {
+    const current = existing.get(song.id);
+    return !!current && JSON.stringify(current) !== JSON.stringify(song);
+  });
+}
+
+const mergeResults = (current: SongResults[], incoming: SongResults[]): SongResults[] => {
+  const seen = new Set(current.map(r => r.completedAt));
+  return [...current, ...incoming.filter(r => !seen.has(r.completedAt))].sort((a, b) => a.completedAt - b.completedAt);
+};
+
+const mergeInfo = (songId: string, current: SongLibraryInfo | undefined, incoming: SongLibraryInfo): SongLibraryInfo => ({
+  songId,
+  tags: Array.from(new Set([...(current?.tags ?? []), ...(incoming.tags ?? [])])),
+  favorite: !!current?.favorite || incoming.favorite,
+  lastPlayedAt: Math.max(current?.lastPlayedAt ?? 0, incoming.lastPlayedAt ?? 0) || undefined
+});
+
+/**
+ * Adds the backup's songs and score history to the library. Identical songs are left alone;
+ * conflicting IDs are replaced, skipped, or imported under a new ID ("keep both").
+ */
+export function restoreLibraryBackup(
+  backup: LibraryBackup,
+  existingSongs: Song[],
+  conflictPolicy: LibraryConflictPolicy,
+  restoreSettings: boolean = false
+): LibraryRestoreSummary {
+  const summary: LibraryRestoreSummary = { added: 0, replaced: 0, renamed: 0, skipped: 0, unchanged: 0 };
+  const existing = new Map(existingSongs.map(song => [song.id, song]));
+  const savedSongs = getSavedSongs();
+  const history = getScoreHistory();
+  const info = getAllSongInfo();
+  // Backup song ID -> ID it was stored under (null if skipped); info for other songs keeps its ID
+  const targetIds: Record<string, string | null> = {};
+
+  backup.songs.forEach(song => {
+    const current = existing.get(song.id);
+    let targetId = song.id;
+
+    if (!current) {
+      saveSongToStorage(song);
+      summary.added++;
+    } else if (JSON.stringify(current) === JSON.stringify(song)) {
+      summary.unchanged++;
+    } else if (conflictPolicy === 'skip') {
+      summary.skipped++;
+      targetIds[song.id] = null;
+      return;
+    } else if (conflictPolicy === 'replace' && savedSongs[song.id]) {
+      saveSongToStorage(song);
+      summary.replaced++;
+    } else {
+      // Built-in songs cannot be replaced, so they are always kept alongside
+      let suffix = 1;
+      do {
+        targetId = `${song.id}-imported${suffix > 1 ? `-${suffix}` : ''}`;
+        suffix++;
+      } while (existing.has(targetId) || savedSongs[targetId]);
+      saveSongToStorage({ ...song, id: targetId, title: `${song.title} (imported)` });
+      summary.renamed++;
+    }
+
+    targetIds[song.id] = targetId;
+  });
+
+  // Built-in and pack songs are not in the backup's songs, but their scores are
+  Object.entries(backup.scoreHistory).forEach(([songId, incoming]) => {
+    const targetId = songId in targetIds ? targetIds[songId] : songId;
+    if (targetId === null || !incoming?.length) return;
+    history[targetId] = mergeResults(history[targetId] ?? [], incoming);
+  });
+  saveScoreHistory(history);
+  Object.values(backup.songInfo).forEach(incoming => {
+    const targetId = incoming.songId in targetIds ? targetIds[incoming.songId] : incoming.songId;
+    if (targetId === null) return;
+    putSongInfo(mergeInfo(targetId, info[targetId], incoming));
+  });
+
+  if (restoreSettings) {
+    Object.entries(backup.settings).forEach(([key, value]) => {
+      if (SETTING_KEYS.includes(key)) setSetting(key, value);
+    });
+  }
+
+  return summary;
+}
@@ -0,0 +1,159 @@
+import { Note, LyricSyllable } from '../types';
+
+// A tap this far ahead of a note's start is meant for that note
+const TAP_LEAD = 0.35;
+
+// Two-letter clusters that begin a syllable ("fa-ther", "a-bout" is handled by V-CV)
+const ONSET_CLUSTERS = new Set([
+  'bl', 'br', 'ch', 'cl', 'cr', 'dr', 'fl', 'fr', 'gl', 'gr', 'ph', 'pl', 'pr',
+  'sc', 'sh', 'sk', 'sl', 'sm', 'sn', 'sp', 'st', 'sw', 'th', 'tr', 'tw', 'wh', 'wr'
+]);
+// Clusters that stay with the syllable before them ("sing-er", "pock-et")
+const CODA_CLUSTERS = new Set(['ck', 'ng']);
+
+const isVowelAt = (word: string, i: number): boolean => {
+  const c = word[i];
+  if ('aeiou'.includes(c)) return true;
+  // y is a vowel except at the start of a word or after another vowel ("yes", "day")
+  return c === 'y' && i > 0 && !'aeiou'.includes(word[i - 1]);
+};
+
+// Vowel runs as [start, end) ranges, without silent endings such as "came" or "called"
+const getVowelGroups = (lower: string): [number, number][] => {
+  const groups: [number, number][] = [];
+  for (let i = 0; i < lower.length; i++) {
+    if (!isVowelAt(lower, i)) continue;
+    const start = i;
+    while (i + 1 < lower.length && isVowelAt(lower, i + 1)) i++;
+    groups.push([start, i + 1]);
+  }
+  if (groups.length < 2) return groups;
+
+  const [lastStart, lastEnd] = groups[groups.length - 1];
+  const before = lower[lastStart - 1] ?? '';
+  const isLe = lower.endsWith('le') && lastStart === lower.length - 1 && !isVowelAt(lower, lower.length - 3);
+  const isSilentE = lower[lastStart] === 'e' && lastEnd - lastStart === 1 && lastEnd === lower.length && !isLe;
+  const isSilentEd = lower.endsWith('ed') && lastStart === lower.length - 2 && !'td'.includes(before);
+  const isSilentEs = lower.endsWith('es') && lastStart === lower.length - 2 && !'sxzhc'.includes(before) && !'sxz'.includes(lower[lastStart - 2] ?? '');
+  if (isSilentE || isSilentEd || isSilentEs) groups.pop();
+  return groups;
+};
+
+/**
+ * Rough English syllabification by vowel groups: one consonant goes to the next syllable
+ * ("ba-by"), two are split ("hap-py") unless they begin a syllable together ("fa-ther"),
+ * longer clusters give the next syllable one consonant or a pair ("birth-day", "mon-ster"),
+ * and a final consonant + "le" is its own syllable ("doo-dle").
+ */
+export function syllabifyWord(word: string): string[] {
+  const lower = word.toLowerCase();
+  const groups = getVowelGroups(lower);
+  if (groups.length < 2) return [word];
+
+  const cuts: number[] = [];
+  for (let g = 0; g < groups.length - 1; g++) {
+    const clusterStart = groups[g][1];
+    const clusterEnd = groups[g + 1][0];
+    const cluster = lower.slice(clusterStart, clusterEnd);
+    const isFinalLe = g + 1 === groups.length - 1 && lower.endsWith('le') && clusterEnd === lower.length - 1;
+    let cut: number;
+    if (isFinalLe) {
+      cut = clusterEnd - 2; // Consonant before "le"
+    } else if (cluster.length <= 1) {
+      cut = clusterStart;
+    } else if (ONSET_CLUSTERS.has(cluster.slice(-2))) {
+      cut = clusterEnd - 2;
+    } else if (cluster.length === 2) {
+      cut = CODA_CLUSTERS.has(cluster) ? clusterEnd : clusterStart + 1;
+    } else {
+      cut = clusterEnd - 1; // "birth-day", "chil-dren" is caught above
+    }
+    // Keep every syllable non-empty
+    if (cut > (cuts[cuts.length - 1] ?? 0) && cut < word.length) cuts.push(cut);
+  }
+
+  const parts: string[] = [];
+  let from = 0;
+  cuts.forEach(cut => {
+    parts.push(word.slice(from, cut));
+    from = cut;
+  });
+  parts.push(word.slice(from));
+  return parts;
+}
+
+/**
+ * Splits pasted lyrics into syllables in the song format: "Hap-" "-py", "mac-" "-a-" "-ro-" "-ni."
+ * Hyphens the user typed ("Hap-py") are kept as the syllable breaks; other words are
+ * syllabified automatically. Punctuation stays on its word, and each line starts a phrase.
+ */
+export function syllabifyLyrics(text: string): LyricSyllable[] {
+  const syllables: LyricSyllable[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    let lineStart = true;
+    line.split(/\s+/).filter(Boolean).forEach(token => {
+      const match = token.match(/^([^\p{L}\p{N}']*)([\p{L}\p{N}'-]*[\p{L}\p{N}'])(.*)$/u);
+      if (!match) {
+        // Stray punctuation such as a dash between words joins the previous syllable
+        if (syllables.length > 0 && !lineStart) syllables[syllables.length - 1].text += token;
+        return;
+      }
+      const [, leading, core, trailing] = match;
+      const parts = core.includes('-') ? core.split('-').filter(Boolean) : syllabifyWord(core);
+      parts.forEach((part, i) => {
+        const text = `${i > 0 ? '-' : ''}${i === 0 ? leading : ''}${part}${i === parts.length - 1 ? trailing : '-'}`;
+        syllables.push({ text, lineStart });
+        lineStart = false;
+      });
+    });
+  });
+  return syllables;
+}
+
+/**
+ * Picks the note a tap at `time` belongs to: the latest note after `lastIndex` that has
+ * started (or is about to), so a slightly early tap still lands on the coming note.
+ * Notes passed over are left without a syllable, as in a melisma.
+ */
+export function findTapNoteIndex(notes: Note[], lastIndex: number, time: number): number | null {
+  let index: number | null = null;
+  for (let i = lastIndex + 1; i < notes.length; i++) {
+    if (notes[i].time > time + TAP_LEAD) break;
+    index = i;
+  }
+  if (index === null && lastIndex + 1 < notes.length) index = lastIndex + 1;
+  return index;
+}
+
+/**
+ * Writes syllables onto the notes at the given indexes (one per syllable, in order).
+ * Notes inside the tapped range lose their old lyric; notes after the last tap keep theirs.
+ */
+export function applyLyricAssignments(notes: Note[], syllables: LyricSyllable[], noteIndexes: number[]): Note[] {
+  if (noteIndexes.length === 0) return notes;
+  const lastIndex = noteIndexes[noteIndexes.length - 1];
+  const assigned = new Map(noteIndexes.map((noteIndex, i) => [noteIndex, syllables[i]]));
+  return notes.map((note, i) => {
+    if (i > lastIndex) return note;
+    const syllable = assigned.get(i);
+    return { ...note, lyric: syllable?.text, phraseStart: syllable?.lineStart && i > 0 ? true : undefined };
+  });
+}
+
+// The song's current lyrics as editable text, one line per phrase ("Hap-" "-py" -> "Hap-py")
+export function lyricsToText(notes: Note[]): string {
+  let text = '';
+  notes.forEach(note => {
+    if (!note.lyric) return;
+    const lyric = note.lyric.trim();
+    if (text === '') {
+      text = lyric.replace(/^-/, '');
+    } else if (text.endsWith('-')) {
+      // Some songs continue a word without the leading hyphen ("mac-" "-a-" "ro-")
+      text += lyric.replace(/^-/, '');
+    } else {
+      text += `${note.phraseStart ? '\n' : ' '}${lyric.replace(/^-/, '')}`;
+    }
+  });
+  return text;
+}
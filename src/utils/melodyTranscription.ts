@@ -0,0 +1,215 @@
+import { Song, Note, PitchFrame, DetectedNote, TranscriptionSettings } from '../types';
+import { midiToFrequency, getMidiNoteNameOnly, secondsPerSignatureBeat, slugifyTitle } from './musicUtils';
+import { analyzeSong, estimateKey, estimateTempo } from './songAnalysis';
+import { createSongId } from './songIdentity';
+
+// Segmentation tuning
+const MIN_CONFIDENCE = 0.45; // Quieter or noisier frames count as silence
+const MIN_NOTE_DURATION = 0.12; // Seconds; shorter blips are scoops or consonants
+const PITCH_TOLERANCE = 0.6; // Semitones a frame may wander from its note
+const MAX_GAP = 0.12; // Longer silences end the note
+const CHANGE_FRAMES = 2; // Frames at a new pitch before a new note starts
+const DIP_RATIO = 0.6; // A confidence dip below this share of the note's peak...
+const RISE_RATIO = 0.85; // ...followed by a rise back above this one is a re-sung onset
+const SMOOTHING_RADIUS = 2; // Frames either side for the median filter
+
+const TONIC_PITCH_CLASSES: Record<string, number> = {
+  'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3, 'E': 4, 'F': 5,
+  'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8, 'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11
+};
+
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+// Natural minor plus the raised seventh, which singers reach for in minor keys
+const MINOR_SCALE = [0, 2, 3, 5, 7, 8, 10, 11];
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const roundToMs = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+const frequencyToPitch = (frequency: number): number => 12 * Math.log2(frequency / 440) + 69;
+
+// Pitch classes of a key name such as "F# Minor", or null if it cannot be read
+export function getScalePitchClasses(key: string): number[] | null {
+  const [tonic, mode = 'Major'] = key.trim().split(/\s+/);
+  if (!(tonic in TONIC_PITCH_CLASSES)) return null;
+  const scale = mode.toLowerCase().startsWith('min') ? MINOR_SCALE : MAJOR_SCALE;
+  return scale.map(step => (TONIC_PITCH_CLASSES[tonic] + step) % 12);
+}
+
+// Nearest semitone that belongs to the scale
+const snapPitch = (pitch: number, scale: number[] | null): number => {
+  const rounded = Math.round(pitch);
+  if (!scale) return rounded;
+  for (let offset = 0; offset <= 6; offset++) {
+    // Try the side the sung pitch leans towards first
+    const candidates = pitch >= rounded ? [rounded + offset, rounded - offset] : [rounded - offset, rounded + offset];
+    const match = candidates.find(candidate => scale.includes(((candidate % 12) + 12) % 12));
+    if (match !== undefined) return match;
+  }
+  return rounded;
+};
+
+/**
+ * Splits a stream of detector frames into notes. A note starts after a silence, when the
+ * pitch settles somewhere new for a few frames, or when the level dips and comes back on
+ * the same pitch (a re-sung syllable). Octave glitches are removed with a median filter
+ * first, and notes shorter than MIN_NOTE_DURATION are dropped.
+ */
+export function segmentPitchFrames(frames: PitchFrame[]): DetectedNote[] {
+  const voiced = frames.map(frame =>
+    frame.frequency !== null && frame.frequency > 0 && frame.confidence >= MIN_CONFIDENCE
+      ? frequencyToPitch(frame.frequency)
+      : null
+  );
+  const smoothed = voiced.map((pitch, i) => {
+    if (pitch === null) return null;
+    const window = voiced.slice(Math.max(0, i - SMOOTHING_RADIUS), i + SMOOTHING_RADIUS + 1).filter((p): p is number => p !== null);
+    return median(window);
+  });
+  const frameStep = frames.length > 1 ? (frames[frames.length - 1].time - frames[0].time) / (frames.length - 1) : 0.04;
+
+  const notes: DetectedNote[] = [];
+  let current: { start: number; end: number; pitches: number[]; peak: number; dipped: boolean } | null = null;
+  let pending: { time: number; pitch: number }[] = [];
+
+  const close = () => {
+    if (current && current.end - current.start + frameStep >= MIN_NOTE_DURATION) {
+      notes.push({ time: current.start, duration: current.end - current.start + frameStep, pitch: median(current.pitches) });
+    }
+    current = null;
+    pending = [];
+  };
+  const open = (time: number, pitch: number, confidence: number) => {
+    current = { start: time, end: time, pitches: [pitch], peak: confidence, dipped: false };
+  };
+
+  frames.forEach((frame, i) => {
+    const pitch = smoothed[i];
+    if (pitch === null) {
+      if (!current) return;
+      if (frame.time - current.end > MAX_GAP) {
+        close();
+      } else {
+        // A short silence inside a note is a breath or consonant between syllables
+        current.dipped = true;
+      }
+      return;
+    }
+
+    if (!current || frame.time - current.end > MAX_GAP) {
+      close();
+      open(frame.time, pitch, frame.confidence);
+      return;
+    }
+
+    const notePitch = median(current.pitches);
+    if (Math.abs(pitch - notePitch) <= PITCH_TOLERANCE) {
+      pending = [];
+      const isReonset = current.dipped && frame.confidence >= current.peak * RISE_RATIO
+        && frame.time - current.start >= MIN_NOTE_DURATION;
+      if (isReonset) {
+        close();
+        open(frame.time, pitch, frame.confidence);
+        return;
+      }
+      current.pitches.push(pitch);
+      current.end = frame.time;
+      current.peak = Math.max(current.peak, frame.confidence);
+      if (frame.confidence < current.peak * DIP_RATIO) current.dipped = true;
+      return;
+    }
+
+    // Off the note's pitch: wait until the new pitch holds before starting a note there
+    if (pending.length > 0 && Math.abs(pitch - pending[0].pitch) > PITCH_TOLERANCE) {
+      pending = [];
+    }
+    pending.push({ time: frame.time, pitch });
+    if (pending.length >= CHANGE_FRAMES) {
+      const started = pending;
+      close();
+      open(started[0].time, started[0].pitch, frame.confidence);
+      started.slice(1).forEach(p => {
+        current!.pitches.push(p.pitch);
+        current!.end = p.time;
+      });
+    }
+  });
+  close();
+
+  return notes;
+}
+
+/**
+ * Snaps detected notes to the tempo grid and key. Notes that land on the same grid
+ * step are pushed apart so the melody never overlaps itself.
+ */
+export function quantizeMelody(detected: DetectedNote[], settings: TranscriptionSettings): Note[] {
+  const grid = secondsPerSignatureBeat(settings.tempo, settings.timeSignature) / settings.division;
+  const scale = settings.key ? getScalePitchClasses(settings.key) : null;
+  const offset = settings.alignToFirstNote && detected.length > 0 ? detected[0].time : 0;
+
+  const notes: Note[] = [];
+  detected.forEach(note => {
+    let start = Math.max(0, Math.round((note.time - offset) / grid)) * grid;
+    let end = Math.round((note.time + note.duration - offset) / grid) * grid;
+    const previous = notes[notes.length - 1];
+    if (previous && start <= previous.time) {
+      start = previous.time + grid;
+    }
+    end = Math.max(end, start + grid);
+    if (previous && previous.time + previous.duration > start) {
+      previous.duration = roundToMs(start - previous.time);
+    }
+
+    const pitch = snapPitch(note.pitch, scale);
+    notes.push({
+      id: String(notes.length + 1),
+      time: roundToMs(start),
+      duration: roundToMs(end - start),
+      pitch,
+      name: getMidiNoteNameOnly(pitch),
+      frequency: midiToFrequency(pitch),
+      velocity: 80
+    });
+  });
+  return notes;
+}
+
+const toRoundedNotes = (detected: DetectedNote[]): Note[] => detected.map((note, i) => ({
+  id: String(i + 1),
+  time: note.time,
+  duration: note.duration,
+  pitch: Math.round(note.pitch),
+  name: '',
+  frequency: 0,
+  velocity: 80
+}));
+
+// Key the recording most likely is in, from the unsnapped pitches
+export function estimateRecordingKey(detected: DetectedNote[]): string | null {
+  return estimateKey(toRoundedNotes(detected));
+}
+
+// Tempo suggested by the note spacing when the recording had no count-in
+export function estimateRecordingTempo(detected: DetectedNote[]): number | null {
+  return estimateTempo(toRoundedNotes(detected));
+}
+
+export function createTranscribedSong(notes: Note[], settings: TranscriptionSettings, title: string): Song {
+  const end = notes.reduce((max, n) => Math.max(max, n.time + n.duration), 0);
+  const songTitle = title.trim() || 'New Song';
+  return analyzeSong({
+    id: createSongId(slugifyTitle(songTitle), notes),
+    title: songTitle,
+    artist: 'Recorded',
+    tempo: settings.tempo,
+    duration: Math.ceil(end + 2),
+    timeSignature: settings.timeSignature,
+    key: settings.key ?? estimateKey(notes) ?? 'C Major',
+    notes
+  });
+}
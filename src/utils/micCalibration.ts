@@ -0,0 +1,115 @@
+import { MicCalibration, PitchObservation } from '../types';
+import { getSetting, setSetting } from './storage';
+
+const CALIBRATIONS_KEY = 'vocalCoach_micCalibrations';
+
+// Gate limits: never so low that hiss counts as singing, never above a soft sung note
+const MIN_GATE = 0.002;
+const MAX_GATE = 0.05;
+const NOISE_GATE_RATIO = 2.5; // Gate sits this far above the loudest room noise
+const SINGING_GATE_RATIO = 0.3; // ...and at most this share of the sung level
+
+// Sung test note levels (RMS)
+const QUIET_SINGING = 0.02;
+const LOUD_SINGING = 0.35; // Around here peaks start to clip
+
+// AudioSynthesizer notes ramp up exponentially, so their energy arrives almost all at
+// once, this long after the note starts
+export const TEST_TONE_ATTACK = 0.047; // Seconds
+export const TEST_TONE_DURATION = 0.4; // Seconds
+const MAX_LATENCY = 0.8; // Seconds; anything later is not our tone
+// Seconds between test tones, so each one's search window ends before the next is played
+export const TEST_TONE_INTERVAL = 1.2;
+
+export interface InputDevice {
+  key: string;
+  label: string;
+}
+
+export type SingingLevelCheck = 'too-quiet' | 'good' | 'too-loud';
+
+// Identifies the microphone behind a stream. The label is preferred over the device ID
+// because "default" keeps its ID when the system default microphone changes.
+export function describeInputDevice(stream: MediaStream): InputDevice {
+  const track = stream.getAudioTracks()[0];
+  const label = track?.label || 'Microphone';
+  const deviceId = track?.getSettings().deviceId;
+  return { key: track?.label || deviceId || 'default', label };
+}
+
+export function getMicCalibrations(): Record<string, MicCalibration> {
+  return getSetting<Record<string, MicCalibration>>(CALIBRATIONS_KEY, {});
+}
+
+export function getMicCalibration(deviceKey: string): MicCalibration | null {
+  return getMicCalibrations()[deviceKey] ?? null;
+}
+
+export function saveMicCalibration(calibration: MicCalibration): void {
+  setSetting(CALIBRATIONS_KEY, { ...getMicCalibrations(), [calibration.deviceKey]: calibration });
+}
+
+function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+// Room noise from frames recorded in silence; the 90th percentile keeps short peaks such as a fan's hum
+export function measureNoiseFloor(frames: PitchObservation[]): number {
+  return percentile(frames.map(frame => frame.rms), 0.9);
+}
+
+// Level of a sung note from the frames with a pitch, or null when too few had one. The
+// upper quartile skips breaths and the odd pitched frame of room noise.
+export function measureSingingLevel(frames: PitchObservation[]): number | null {
+  const voiced = frames.filter(frame => frame.result !== null).map(frame => frame.rms);
+  return voiced.length >= 5 ? percentile(voiced, 0.75) : null;
+}
+
+export function checkSingingLevel(level: number): SingingLevelCheck {
+  if (level < QUIET_SINGING) return 'too-quiet';
+  if (level > LOUD_SINGING) return 'too-loud';
+  return 'good';
+}
+
+export function chooseGate(noiseFloor: number, singingLevel: number | null): number {
+  let gate = Math.max(MIN_GATE, noiseFloor * NOISE_GATE_RATIO);
+  if (singingLevel !== null) gate = Math.min(gate, singingLevel * SINGING_GATE_RATIO);
+  return Math.min(MAX_GATE, Math.max(MIN_GATE, gate));
+}
+
+/**
+ * When a test tone played at `playedAt` (ms, Date.now clock) was heard, or null if it
+ * was not. Frames are stamped at the middle of their window, and a window is half full
+ * of a steady tone exactly when its middle reaches the onset, so the onset is where the
+ * energy above the noise first crosses half of its level once the tone is steady.
+ */
+export function findToneOnset(frames: PitchObservation[], playedAt: number, noiseFloor: number): number | null {
+  const window = frames.filter(frame => frame.timestamp >= playedAt - 100 && frame.timestamp <= playedAt + MAX_LATENCY * 1000 + 300);
+  const noiseEnergy = noiseFloor * noiseFloor;
+  const energies = window.map(frame => Math.max(0, frame.rms * frame.rms - noiseEnergy));
+  const steady = percentile(energies, 0.9);
+  if (steady < noiseEnergy + MIN_GATE * MIN_GATE) return null; // Not clearly above the room
+
+  const half = steady / 2;
+  for (let i = 1; i < window.length; i++) {
+    if (energies[i - 1] < half && energies[i] >= half) {
+      const fraction = (half - energies[i - 1]) / (energies[i] - energies[i - 1]);
+      return window[i - 1].timestamp + fraction * (window[i].timestamp - window[i - 1].timestamp);
+    }
+  }
+  return null;
+}
+
+// Round-trip latency in seconds from several test tones, or null when too few were heard
+export function estimateLatency(frames: PitchObservation[], playedAt: number[], noiseFloor: number): number | null {
+  const delays = playedAt
+    .map(time => {
+      const onset = findToneOnset(frames, time, noiseFloor);
+      return onset === null ? null : (onset - time) / 1000 - TEST_TONE_ATTACK;
+    })
+    .filter((delay): delay is number => delay !== null && delay > -0.02 && delay < MAX_LATENCY);
+  if (delays.length < Math.ceil(playedAt.length / 2)) return null;
+  return Math.max(0, percentile(delays, 0.5));
+}
@@ -0,0 +1,399 @@
+import MidiPlayer from 'midi-player-js';
+import { Song, Note, MidiTrackOption, VoiceHistory } from '../types';
+import { midiToFrequency, getMidiNoteNameOnly, keyFromFifths, slugifyTitle, transposeKey, transposeNote, fifthsFromKey, createBeatToSeconds, TempoChange } from './musicUtils';
+import { analyzeSong } from './songAnalysis';
+import { createSongId } from './songIdentity';
+
+// Events of a loaded Standard MIDI file, grouped by track (absolute ticks)
+export interface ParsedMidiFile {
+  division: number; // Ticks per quarter note
+  format: number;
+  tracks: MidiPlayer.Event[][];
+}
+
+interface TickNote {
+  startTick: number;
+  endTick: number;
+  pitch: number;
+  velocity: number;
+}
+
+const DRUM_CHANNEL = 10;
+
+export function readMidiFile(buffer: ArrayBuffer): ParsedMidiFile {
+  const player = new MidiPlayer.Player();
+  player.loadArrayBuffer(buffer);
+  // getEvents() is typed as a flat list but actually returns one array per track
+  const tracks = player.getEvents() as unknown as MidiPlayer.Event[][];
+  if (!tracks || tracks.length === 0) {
+    throw new Error('MIDI file contains no tracks');
+  }
+  return { division: player.division || 480, format: player.format, tracks };
+}
+
+const getTrackName = (events: MidiPlayer.Event[]): string => {
+  const nameEvent = events.find(e => e.name === 'Sequence/Track Name' && e.string);
+  return nameEvent?.string?.trim() || '';
+};
+
+const isNoteOn = (e: MidiPlayer.Event) => e.name === 'Note on' && (e.velocity ?? 0) > 0;
+const isNoteOff = (e: MidiPlayer.Event) => e.name === 'Note off' || (e.name === 'Note on' && (e.velocity ?? 0) === 0);
+
+// Lists every track/channel pair that has notes, so the user can pick the vocal line
+export function getMidiTrackOptions(midi: ParsedMidiFile): MidiTrackOption[] {
+  const options: MidiTrackOption[] = [];
+
+  midi.tracks.forEach((events, track) => {
+    const name = getTrackName(events);
+    const lyricCount = events.filter(e => e.name === 'Lyric').length;
+    const byChannel = new Map<number, number[]>();
+
+    events.forEach(e => {
+      if (!isNoteOn(e) || e.channel === undefined || e.noteNumber === undefined) return;
+      const pitches = byChannel.get(e.channel) || [];
+      pitches.push(e.noteNumber);
+      byChannel.set(e.channel, pitches);
+    });
+
+    byChannel.forEach((pitches, channel) => {
+      options.push({
+        track,
+        channel,
+        name,
+        noteCount: pitches.length,
+        lyricCount,
+        lowestPitch: Math.min(...pitches),
+        highestPitch: Math.max(...pitches)
+      });
+    });
+  });
+
+  return options;
+}
+
+// Best guess for the melody: lyrics first, then a vocal-sounding track name, then the busiest non-drum channel
+export function suggestMelodyOption(options: MidiTrackOption[]): MidiTrackOption | null {
+  const candidates = options.filter(o => o.channel !== DRUM_CHANNEL);
+  if (candidates.length === 0) return options[0] || null;
+
+  const withLyrics = candidates.filter(o => o.lyricCount > 0);
+  if (withLyrics.length > 0) {
+    return withLyrics.reduce((best, o) => (o.noteCount > best.noteCount ? o : best));
+  }
+
+  const named = candidates.find(o => /vocal|voice|melody|lead|sing|soprano/i.test(o.name));
+  if (named) return named;
+
+  return candidates.reduce((best, o) => (o.noteCount > best.noteCount ? o : best));
+}
+
+const buildTempoMap = (midi: ParsedMidiFile): TempoChange[] => {
+  const changes: TempoChange[] = [];
+  midi.tracks.forEach(events => {
+    events.forEach(e => {
+      if (e.name === 'Set Tempo' && typeof e.data === 'number' && e.data > 0) {
+        changes.push({ beat: e.tick / midi.division, bpm: e.data });
+      }
+    });
+  });
+  return changes.sort((a, b) => a.beat - b.beat);
+};
+
+// midi-player-js reports velocity as a 0-100 percentage, except on running-status events,
+// which carry the raw 0-127 value
+const midiVelocity = (e: MidiPlayer.Event): number => {
+  if (e.velocity === undefined) return 80;
+  const scaled = e.running ? e.velocity : Math.round((e.velocity * 127) / 100);
+  return Math.max(1, Math.min(127, scaled));
+};
+
+const collectNotes = (events: MidiPlayer.Event[], channel: number): TickNote[] => {
+  const open = new Map<number, { tick: number; velocity: number }>();
+  const notes: TickNote[] = [];
+
+  events.forEach(e => {
+    if (e.channel !== channel || e.noteNumber === undefined) return;
+    if (isNoteOn(e)) {
+      const pending = open.get(e.noteNumber);
+      if (pending) {
+        notes.push({ startTick: pending.tick, endTick: e.tick, pitch: e.noteNumber, velocity: pending.velocity });
+      }
+      open.set(e.noteNumber, { tick: e.tick, velocity: midiVelocity(e) });
+    } else if (isNoteOff(e)) {
+      const pending = open.get(e.noteNumber);
+      if (!pending) return;
+      notes.push({ startTick: pending.tick, endTick: e.tick, pitch: e.noteNumber, velocity: pending.velocity });
+      open.delete(e.noteNumber);
+    }
+  });
+
+  // The vocal line must be monophonic: keep the top note of chords and cut overlaps
+  notes.sort((a, b) => a.startTick - b.startTick || b.pitch - a.pitch);
+  const melody: TickNote[] = [];
+  notes.forEach(note => {
+    const prev = melody[melody.length - 1];
+    if (prev && prev.startTick === note.startTick) return;
+    if (prev && prev.endTick > note.startTick) prev.endTick = note.startTick;
+    melody.push({ ...note });
+  });
+
+  return melody.filter(n => n.endTick > n.startTick);
+};
+
+const cleanLyric = (raw: string): string => {
+  // .kar files mark line breaks with leading '/' or '\'
+  return raw.replace(/[\r\n]/g, '').replace(/^[/\\]+/, '').trim();
+};
+
+const collectLyrics = (midi: ParsedMidiFile, track: number): MidiPlayer.Event[] => {
+  const own = midi.tracks[track].filter(e => e.name === 'Lyric' && e.string);
+  if (own.length > 0) return own;
+  return midi.tracks.flatMap(events => events.filter(e => e.name === 'Lyric' && e.string)).sort((a, b) => a.tick - b.tick);
+};
+
+const findFirstMeta = (midi: ParsedMidiFile, name: string): MidiPlayer.Event | undefined => {
+  let found: MidiPlayer.Event | undefined;
+  midi.tracks.forEach(events => {
+    events.forEach(e => {
+      if (e.name === name && (!found || e.tick < found.tick)) found = e;
+    });
+  });
+  return found;
+};
+
+export function midiToSong(
+  midi: ParsedMidiFile,
+  option: Pick<MidiTrackOption, 'track' | 'channel'>,
+  title: string = 'Imported Song',
+  artist: string = 'Unknown'
+): Song {
+  const events = midi.tracks[option.track];
+  if (!events) {
+    throw new Error(`MIDI track ${option.track} not found`);
+  }
+
+  const tempoMap = buildTempoMap(midi);
+  const beatToSeconds = createBeatToSeconds(tempoMap);
+  const tickToSeconds = (tick: number) => beatToSeconds(tick / midi.division);
+  const tickNotes = collectNotes(events, option.channel);
+
+  // Attach each lyric event to the note starting closest to it (within a 16th note)
+  const lyricsByNote = new Map<number, string>();
+  const tolerance = midi.division / 4;
+  let searchFrom = 0;
+  collectLyrics(midi, option.track).forEach(e => {
+    const text = cleanLyric(e.string || '');
+    if (!text) return;
+    let bestIndex = -1;
+    let bestDistance = Infinity;
+    for (let i = searchFrom; i < tickNotes.length; i++) {
+      const distance = Math.abs(tickNotes[i].startTick - e.tick);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = i;
+      }
+      if (tickNotes[i].startTick > e.tick + tolerance) break;
+    }
+    if (bestIndex === -1 || bestDistance > tolerance) return;
+    const existing = lyricsByNote.get(bestIndex);
+    lyricsByNote.set(bestIndex, existing ? `${existing} ${text}` : text);
+    searchFrom = bestIndex;
+  });
+
+  const notes: Note[] = [];
+  let previousLyric = '';
+  tickNotes.forEach((n, i) => {
+    const time = tickToSeconds(n.startTick);
+    const end = tickToSeconds(n.endTick);
+    let lyric = lyricsByNote.get(i);
+    // MIDI lyrics write "Hap-" "py"; the song format continues syllables with a leading hyphen
+    if (lyric && previousLyric.endsWith('-') && !lyric.startsWith('-')) {
+      lyric = `-${lyric}`;
+    }
+    if (lyric) previousLyric = lyric;
+
+    notes.push({
+      id: String(i + 1),
+      time,
+      duration: end - time,
+      pitch: n.pitch,
+      name: getMidiNoteNameOnly(n.pitch),
+      frequency: midiToFrequency(n.pitch),
+      velocity: n.velocity,
+      lyric
+    });
+  });
+
+  const timeSignatureEvent = findFirstMeta(midi, 'Time Signature');
+  const tsData = timeSignatureEvent?.data as unknown as Uint8Array | undefined;
+  const timeSignature: [number, number] = tsData && tsData.length >= 2
+    ? [tsData[0], Math.pow(2, tsData[1])]
+    : [4, 4];
+
+  const keyEvent = findFirstMeta(midi, 'Key Signature');
+  const keyData = keyEvent?.data as unknown as Uint8Array | undefined;
+  const key = keyData && keyData.length >= 2
+    ? keyFromFifths(keyData[0] > 127 ? keyData[0] - 256 : keyData[0], keyData[1] === 1)
+    : null;
+
+  // Format 1 files usually keep the song title on the conductor track
+  const conductorName = midi.format === 1 && midi.tracks[0].every(e => !isNoteOn(e)) ? getTrackName(midi.tracks[0]) : '';
+  const songTitle = conductorName || title;
+  const maxTime = notes.reduce((max, n) => Math.max(max, n.time + n.duration), 0);
+
+  return analyzeSong({
+    id: createSongId(slugifyTitle(songTitle), notes),
+    title: songTitle,
+    artist,
+    tempo: Math.round(tempoMap.length > 0 && tempoMap[0].beat === 0 ? tempoMap[0].bpm : 120),
+    duration: Math.ceil(maxTime + 2),
+    timeSignature,
+    key: key ?? 'C Major',
+    notes
+  }, { key: key === null });
+}
+
+// --- Export ---
+
+const EXPORT_DIVISION = 480;
+
+interface MidiWriteEvent {
+  tick: number;
+  order: number; // Sort key for events sharing a tick (note-offs before note-ons)
+  bytes: number[];
+}
+
+const writeVarLength = (value: number): number[] => {
+  let v = Math.max(0, Math.round(value));
+  const bytes = [v & 0x7f];
+  v >>= 7;
+  while (v > 0) {
+    bytes.unshift((v & 0x7f) | 0x80);
+    v >>= 7;
+  }
+  return bytes;
+};
+
+const writeUint = (value: number, byteCount: number): number[] => {
+  const bytes: number[] = [];
+  for (let i = byteCount - 1; i >= 0; i--) {
+    bytes.push((value >> (8 * i)) & 0xff);
+  }
+  return bytes;
+};
+
+const textBytes = (text: string): number[] => Array.from(new TextEncoder().encode(text));
+
+const metaEvent = (tick: number, type: number, data: number[]): MidiWriteEvent => ({
+  tick,
+  order: 0,
+  bytes: [0xff, type, ...writeVarLength(data.length), ...data]
+});
+
+const buildTrackChunk = (events: MidiWriteEvent[]): number[] => {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const lastTick = sorted.length > 0 ? sorted[sorted.length - 1].tick : 0;
+  sorted.push(metaEvent(lastTick, 0x2f, []));
+
+  const data: number[] = [];
+  let previousTick = 0;
+  sorted.forEach(event => {
+    data.push(...writeVarLength(event.tick - previousTick), ...event.bytes);
+    previousTick = event.tick;
+  });
+
+  return [...textBytes('MTrk'), ...writeUint(data.length, 4), ...data];
+};
+
+const noteEvents = (
+  notes: { time: number; duration: number; pitch: number; velocity: number; lyric?: string }[],
+  channel: number,
+  secondsToTicks: (seconds: number) => number
+): MidiWriteEvent[] => {
+  const status = channel - 1;
+  const events: MidiWriteEvent[] = [];
+
+  notes.forEach(note => {
+    const pitch = Math.max(0, Math.min(127, note.pitch));
+    const velocity = Math.max(1, Math.min(127, note.velocity));
+    const startTick = secondsToTicks(note.time);
+    const endTick = Math.max(startTick + 1, secondsToTicks(note.time + note.duration));
+
+    if (note.lyric) {
+      // MIDI lyrics continue syllables without the leading hyphen used by the song format
+      const lyric = note.lyric.startsWith('-') ? note.lyric.slice(1) : note.lyric;
+      events.push({ ...metaEvent(startTick, 0x05, textBytes(lyric)), order: 1 });
+    }
+    events.push({ tick: startTick, order: 2, bytes: [0x90 | status, pitch, velocity] });
+    events.push({ tick: endTick, order: 0, bytes: [0x80 | status, pitch, 0] });
+  });
+
+  return events;
+};
+
+// Turns the sampled pitch history of a take into discrete notes
+export function quantizeVoiceHistory(history: VoiceHistory[], minDuration: number = 0.12, maxGap: number = 0.25): Note[] {
+  const points = [...history]
+    .filter(p => isFinite(p.time) && isFinite(p.pitch))
+    .sort((a, b) => a.time - b.time);
+  const segments: { start: number; end: number; pitch: number }[] = [];
+
+  points.forEach((point, i) => {
+    const next = points[i + 1];
+    // Each sample lasts until the next one, unless the singer paused
+    const end = next && next.time - point.time <= maxGap ? next.time : point.time + 0.08;
+    const pitch = Math.round(point.pitch);
+    const last = segments[segments.length - 1];
+    if (last && last.pitch === pitch && point.time - last.end <= maxGap) {
+      last.end = end;
+    } else {
+      segments.push({ start: point.time, end, pitch });
+    }
+  });
+
+  return segments
+    .filter(s => s.end - s.start >= minDuration)
+    .map((s, i) => ({
+      id: `take-${i + 1}`,
+      time: s.start,
+      duration: s.end - s.start,
+      pitch: s.pitch,
+      name: getMidiNoteNameOnly(s.pitch),
+      frequency: midiToFrequency(s.pitch),
+      velocity: 80
+    }));
+}
+
+/**
+ * Writes a type-1 Standard MIDI file: a conductor track with tempo, time and key signatures,
+ * the reference melody with lyric events and, if a take is given, the singer's quantized pitch track.
+ */
+export function exportSongToMidi(song: Song, transposition: number = 0, take?: VoiceHistory[]): Uint8Array<ArrayBuffer> {
+  const tempo = song.tempo > 0 ? song.tempo : 120;
+  const secondsToTicks = (seconds: number) => Math.round((seconds * tempo * EXPORT_DIVISION) / 60);
+
+  const [numerator, denominator] = song.timeSignature;
+  const conductor: MidiWriteEvent[] = [
+    metaEvent(0, 0x03, textBytes(song.title)),
+    metaEvent(0, 0x51, writeUint(Math.round(60000000 / tempo), 3)),
+    metaEvent(0, 0x58, [numerator, Math.round(Math.log2(denominator || 4)), 24, 8])
+  ];
+  const keySignature = fifthsFromKey(transposeKey(song.key, transposition));
+  if (keySignature) {
+    conductor.push(metaEvent(0, 0x59, [keySignature.fifths & 0xff, keySignature.isMinor ? 1 : 0]));
+  }
+
+  const melody = song.notes.map(note => transposeNote(note, transposition));
+  const tracks = [
+    buildTrackChunk(conductor),
+    buildTrackChunk([metaEvent(0, 0x03, textBytes('Melody')), ...noteEvents(melody, 1, secondsToTicks)])
+  ];
+
+  if (take && take.length > 0) {
+    const takeNotes = quantizeVoiceHistory(take);
+    tracks.push(buildTrackChunk([metaEvent(0, 0x03, textBytes('Take')), ...noteEvents(takeNotes, 2, secondsToTicks)]));
+  }
+
+  const header = [...textBytes('MThd'), ...writeUint(6, 4), ...writeUint(1, 2), ...writeUint(tracks.length, 2), ...writeUint(EXPORT_DIVISION, 2)];
+  return new Uint8Array([...header, ...tracks.flat()]);
+}
@@ -1,4 +1,7 @@
-import { Song, Note, LyricSegment } from '../types';
+import { Song, Note, LyricSegment, SongSection, TsvTimingMode, SongDiagnostic, SongParseResult, VocalRange, SongResults } from '../types';
+import { analyzeSong } from './songAnalysis';
+import { createSongId } from './songIdentity';
+import { getSetting, setSetting, getStoredSongs, putStoredSong, deleteStoredSong, getSessions, addSession, replaceSessions } from './storage';
 import twinkleSong from '../default_songs/twinkle';
 import yankeedoodleSong from '../default_songs/yankeedoodle';
 import happybirthdaySong from '../default_songs/happybirthday';
@@ -74,6 +77,131 @@ export function transposeKey(originalKey: string, semitones: number): string {
   return `${newRootNote} ${mode}`;
 }
 
+// "C4–A5", shifted by the current transposition
+export function formatVocalRange(range: VocalRange, semitones: number = 0): string {
+  return `${getMidiNoteName(range.lowest + semitones)}–${getMidiNoteName(range.highest + semitones)}`;
+}
+
+// Key name from a circle-of-fifths position (-7..7), as stored in MIDI and MusicXML key signatures
+export function keyFromFifths(fifths: number, isMinor: boolean = false): string {
+  const majorKeys = ['Cb', 'Gb', 'Db', 'Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
+  const minorKeys = ['Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'G#', 'D#', 'A#'];
+  const index = Math.max(-7, Math.min(7, Math.round(fifths))) + 7;
+  return isMinor ? `${minorKeys[index]} Minor` : `${majorKeys[index]} Major`;
+}
+
+// Fifths from the major key on the same tonic to each mode's key signature (D Dorian is
+// written like C Major), by the first three letters of the mode name
+const MODE_FIFTHS: { [mode: string]: number } = {
+  maj: 0, ion: 0, min: -3, aeo: -3, dor: -2, phr: -4, lyd: 1, mix: -1, loc: -5
+};
+
+export function modeFifths(mode: string): number {
+  return MODE_FIFTHS[mode.trim().toLowerCase().slice(0, 3)] ?? 0;
+}
+
+// Tonic pitch class (0-11) and mode of a key name such as "F# Minor"
+export function parseKey(key: string): { tonic: number; isMinor: boolean; mode: string } | null {
+  const m = key.trim().match(/^([A-G])([#b]*)\s*(.*)$/);
+  if (!m) return null;
+  const letterValues: { [letter: string]: number } = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+  let tonic = letterValues[m[1]];
+  for (const accidental of m[2]) {
+    tonic += accidental === '#' ? 1 : -1;
+  }
+  return { tonic: ((tonic % 12) + 12) % 12, isMinor: /^min/i.test(m[3]), mode: m[3].trim() };
+}
+
+// Inverse of keyFromFifths, preferring the spelling with fewer accidentals. Other modes
+// get the signature they are written with, e.g. no accidentals for D Dorian.
+export function fifthsFromKey(key: string): { fifths: number; isMinor: boolean } | null {
+  const parsed = parseKey(key);
+  if (!parsed) return null;
+  let fifths = (((parsed.tonic * 7 + modeFifths(parsed.mode)) % 12) + 12) % 12;
+  if (fifths > 6) fifths -= 12;
+  return { fifths, isMinor: parsed.isMinor };
+}
+
+// Tempo change at a position measured in quarter notes from the start of the song
+export interface TempoChange {
+  beat: number;
+  bpm: number;
+}
+
+// Returns a function converting quarter-note positions to seconds across tempo changes
+export function createBeatToSeconds(tempoChanges: TempoChange[], defaultBpm: number = 120): (beat: number) => number {
+  const points = tempoChanges.filter(p => p.bpm > 0).sort((a, b) => a.beat - b.beat);
+  if (points.length === 0 || points[0].beat > 0) {
+    points.unshift({ beat: 0, bpm: defaultBpm });
+  }
+
+  const segmentStarts: number[] = [0];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    segmentStarts.push(segmentStarts[i - 1] + ((points[i].beat - prev.beat) * 60) / prev.bpm);
+  }
+
+  return (beat: number): number => {
+    let i = points.length - 1;
+    while (i > 0 && points[i].beat > beat) i--;
+    return segmentStarts[i] + ((beat - points[i].beat) * 60) / points[i].bpm;
+  };
+}
+
+// Repeat barlines and volta endings of one measure, as written in the score
+export interface RepeatMarks {
+  forwardRepeat: boolean;
+  backwardRepeat: boolean;
+  repeatTimes: number; // Total plays of the section ending at a backward repeat
+  endings: number[]; // Volta numbers this measure belongs to (empty = every pass)
+  endingStops: boolean;
+}
+
+// Unrolls repeats and volta endings into the order measures are actually played (pass is 1-based)
+export function getRepeatPlaybackOrder(infos: RepeatMarks[]): { index: number; pass: number }[] {
+  const order: { index: number; pass: number }[] = [];
+  const limit = infos.length * 16; // Guard against malformed repeat structures
+  let sectionStart = 0;
+  let pass = 1;
+  let i = 0;
+
+  while (i < infos.length && order.length < limit) {
+    const info = infos[i];
+    if (info.forwardRepeat && i !== sectionStart) {
+      sectionStart = i;
+      pass = 1;
+    }
+
+    if (info.endings.length > 0 && !info.endings.includes(pass)) {
+      i++;
+      continue;
+    }
+
+    order.push({ index: i, pass });
+
+    if (info.backwardRepeat) {
+      if (pass < info.repeatTimes) {
+        pass++;
+        i = sectionStart;
+        continue;
+      }
+      sectionStart = i + 1;
+      pass = 1;
+    } else if (info.endingStops) {
+      sectionStart = i + 1;
+      pass = 1;
+    }
+    i++;
+  }
+
+  return order;
+}
+
+// Lowercase URL-safe slug used as the readable part of song IDs
+export function slugifyTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled';
+}
+
 // Audio synthesis using Web Audio API with cross-browser compatibility
 export class AudioSynthesizer {
   private audioContext: AudioContext | null = null;
@@ -298,13 +426,24 @@ export async function getAllSongs(): Promise<Song[]> {
   return Object.values(songs);
 }
 
+// IDs from before content hashes ("title-<length><count>") no longer match a song that was
+// imported again, so an unknown ID falls back to the song with the same title
+const findLastSelectedSong = (songId: string, library: Song[]): Song | null => {
+  const exact = library.find(song => song.id === songId);
+  if (exact) return exact;
+  const titleSlug = songId.match(/^(.+)-[a-z0-9]+$/)?.[1];
+  return titleSlug ? library.find(song => slugifyTitle(song.title) === titleSlug) ?? null : null;
+};
+
 export async function getDefaultSong(): Promise<Song> {
   await initializeSongs();
   
-  // First priority: last selected song from localStorage
-  const lastSelectedSongId = localStorage.getItem('vocalCoach_lastSelectedSong');
-  if (lastSelectedSongId && songs[lastSelectedSongId]) {
-    return songs[lastSelectedSongId];
+  // First priority: last selected song, from the defaults or the saved songs
+  const lastSelectedSongId = getSetting<string | null>('vocalCoach_lastSelectedSong', null);
+  const lastSelectedSong = lastSelectedSongId ? findLastSelectedSong(lastSelectedSongId, await getAllAvailableSongs()) : null;
+  if (lastSelectedSong) {
+    if (lastSelectedSong.id !== lastSelectedSongId) setSetting('vocalCoach_lastSelectedSong', lastSelectedSong.id);
+    return lastSelectedSong;
   }
   
   // Second priority: Twinkle Twinkle Little Star
@@ -312,7 +451,25 @@ export async function getDefaultSong(): Promise<Song> {
 }
 
 // Import/Export functionality
-export function exportSongToText(song: Song): string {
+export function downloadFile(data: BlobPart, fileName: string, mimeType: string): void {
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Beats of a time signature are its denominator notes; the tempo counts quarter notes
+export function secondsPerSignatureBeat(tempo: number, timeSignature: [number, number]): number {
+  return (60 / tempo) * (4 / timeSignature[1]);
+}
+
+export function exportSongToText(song: Song, timing: TsvTimingMode = 'timestamps'): string {
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -323,174 +480,399 @@ export function exportSongToText(song: Song): string {
     return `${mm}:${ss}:${mmm}`;
   };
 
+  // Beat mode writes "bar.beat+length", following the song's tempo and time signature changes
+  const tempoPoints = [{ time: 0, bpm: song.tempo > 0 ? song.tempo : 120 }, ...(song.tempoChanges ?? [])];
+  const tempoQuarters = [0];
+  for (let i = 1; i < tempoPoints.length; i++) {
+    const prev = tempoPoints[i - 1];
+    tempoQuarters.push(tempoQuarters[i - 1] + ((tempoPoints[i].time - prev.time) * prev.bpm) / 60);
+  }
+  const toQuarters = (seconds: number): number => {
+    let i = tempoPoints.length - 1;
+    while (i > 0 && tempoPoints[i].time > seconds) i--;
+    return tempoQuarters[i] + ((seconds - tempoPoints[i].time) * tempoPoints[i].bpm) / 60;
+  };
+
+  // Each meter starts at a bar, counted on from the bars of the meter before it
+  const meters = [{ quarter: 0, bar: 1, timeSignature: song.timeSignature }];
+  (song.meterChanges ?? []).forEach(change => {
+    const prev = meters[meters.length - 1];
+    const quarter = toQuarters(change.time);
+    const barQuarters = (prev.timeSignature[0] * 4) / prev.timeSignature[1];
+    meters.push({ quarter, bar: prev.bar + Math.round((quarter - prev.quarter) / barQuarters), timeSignature: change.timeSignature });
+  });
+
+  const roundBeats = (beats: number): number => Math.round(beats * 1000) / 1000;
+  const formatBarBeat = (note: Note): string => {
+    const start = toQuarters(note.time);
+    const meter = [...meters].reverse().find(m => m.quarter <= start + 0.0005) ?? meters[0];
+    const [beatsPerBar, beatUnit] = meter.timeSignature;
+    const quartersPerBeat = 4 / beatUnit;
+    const position = roundBeats((start - meter.quarter) / quartersPerBeat);
+    const barOffset = Math.floor(position / beatsPerBar);
+    const beat = roundBeats(position - barOffset * beatsPerBar) + 1;
+    const length = roundBeats((toQuarters(note.time + note.duration) - start) / quartersPerBeat);
+    return `${meter.bar + barOffset}.${beat}+${length}`;
+  };
+
   const header = `${song.title}\t${song.artist}`;
 
-  const lines: string[] = [header];
+  const lines: string[] = [
+    header,
+    `#key ${song.key}`,
+    `#tempo ${song.tempo}`,
+    `#time ${song.timeSignature[0]}/${song.timeSignature[1]}`
+  ];
+  const sections = [...(song.sections ?? [])].sort((a, b) => a.time - b.time);
+  let sectionIdx = 0;
+  // Bar/beat files change tempo and meter from the next note on, so the changes go before it
+  const tempoChanges = timing === 'beats' ? song.tempoChanges ?? [] : [];
+  const meterChanges = timing === 'beats' ? song.meterChanges ?? [] : [];
+  let tempoIdx = 0;
+  let meterIdx = 0;
   song.notes.forEach(note => {
-    const startTime = formatTime(note.time);
-    const endTime = formatTime(note.time + note.duration);
+    // Section markers go right before the first note they cover
+    while (sectionIdx < sections.length && sections[sectionIdx].time <= note.time + 0.0005) {
+      lines.push(`#section ${sections[sectionIdx++].name}`);
+    }
+    while (tempoIdx < tempoChanges.length && tempoChanges[tempoIdx].time <= note.time + 0.0005) {
+      lines.push(`#tempo ${tempoChanges[tempoIdx++].bpm}`);
+    }
+    while (meterIdx < meterChanges.length && meterChanges[meterIdx].time <= note.time + 0.0005) {
+      const [beatsPerBar, beatUnit] = meterChanges[meterIdx++].timeSignature;
+      lines.push(`#time ${beatsPerBar}/${beatUnit}`);
+    }
+    const range = timing === 'beats'
+      ? formatBarBeat(note)
+      : `${formatTime(note.time)}-${formatTime(note.time + note.duration)}`;
     // Prefer existing helpers to format pitch as C#4 etc.
     const pitchName = getMidiNoteName(note.pitch);
     const lyric = note.lyric || '';
-    lines.push(`${startTime}-${endTime}\t${pitchName}\t${lyric}`.trim());
+    lines.push(`${range}\t${pitchName}\t${lyric}`.trim());
   });
+  sections.slice(sectionIdx).forEach(section => lines.push(`#section ${section.name}`));
 
   return lines.join('\n');
 }
 
+// Lowest and highest pitches a voice can be expected to sing (C2-C6)
+const SINGABLE_RANGE: [number, number] = [36, 84];
+
+const parseTimestamp = (stamp: string): number | null => {
+  const t = stamp.trim();
+  let m = t.match(/^(\d+):(\d{1,2})(?:[.:](\d{1,3}))?$/);
+  if (m) {
+    const min = parseInt(m[1], 10);
+    const sec = parseInt(m[2], 10);
+    const ms = m[3] ? parseInt(m[3].padEnd(3, '0'), 10) : 0;
+    return min * 60 + sec + ms / 1000;
+  }
+  m = t.match(/^(\d+)(?:[.:](\d{1,3}))?$/);
+  if (m) {
+    const sec = parseInt(m[1], 10);
+    const ms = m[2] ? parseInt(m[2].padEnd(3, '0'), 10) : 0;
+    return sec + ms / 1000;
+  }
+  return null;
+};
+
 export function parseTextToSong(text: string, _title: string = 'Imported Song', _artist: string = 'Unknown'): Song {
-  const rawLines = text.replace(/\r\n/g, '\n').split('\n').filter(l => l.trim().length > 0);
+  const { song, diagnostics } = parseTextToSongWithDiagnostics(text, _title, _artist);
+  const error = diagnostics.find(d => d.severity === 'error');
+  if (error) {
+    throw new Error(`Line ${error.line}, column ${error.column}: ${error.message}`);
+  }
+  return song;
+}
+
+/**
+ * Parses the TSV song format, reporting problems per line instead of throwing.
+ * Lines with errors are left out of the song; warnings keep the note.
+ */
+export function parseTextToSongWithDiagnostics(text: string, _title: string = 'Imported Song', _artist: string = 'Unknown'): SongParseResult {
+  const diagnostics: SongDiagnostic[] = [];
+  const report = (line: number, column: number, severity: SongDiagnostic['severity'], message: string) => {
+    diagnostics.push({ line, column, severity, message });
+  };
+
+  const rawLines = text
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((content, i) => ({ content, lineNumber: i + 1 }))
+    .filter(l => l.content.trim().length > 0);
   if (rawLines.length === 0) {
     return {
-      id: `imported-${Date.now()}`,
-      title: 'Untitled song',
-      artist: 'Untitled author',
-      tempo: 120,
-      duration: 0,
-      timeSignature: [4, 4],
-      key: 'C Major',
-      notes: []
+      song: {
+        id: `imported-${Date.now()}`,
+        title: 'Untitled song',
+        artist: 'Untitled author',
+        tempo: 120,
+        duration: 0,
+        timeSignature: [4, 4],
+        key: 'C Major',
+        notes: []
+      },
+      diagnostics
     };
   }
 
+  // "bar.beat+length" lines, e.g. "3.2.5+0.5": bar and beat are 1-based, beats follow the time signature
+  const barBeatPattern = /^(\d+)\.(\d+(?:\.\d+)?)\+(\d+(?:\.\d+)?(?:\/\d+)?)$/;
+
   const isRangeLine = (line: string): boolean => {
     const first = line.split('\t')[0];
+    if (barBeatPattern.test(first?.trim() ?? '')) return true;
     if (!first || !first.includes('-')) return false;
     const [a, b] = first.split('-');
-    const parseTS = (s: string): number | null => {
-      const t = s.trim();
-      let m = t.match(/^(\d+):(\d{1,2})(?:[.:](\d{1,3}))?$/);
-      if (m) {
-        const min = parseInt(m[1], 10);
-        const sec = parseInt(m[2], 10);
-        const ms = m[3] ? parseInt(m[3].padEnd(3, '0'), 10) : 0;
-        return min * 60 + sec + ms / 1000;
-      }
-      m = t.match(/^(\d+)(?:[.:](\d{1,3}))?$/);
-      if (m) {
-        const sec = parseInt(m[1], 10);
-        const ms = m[2] ? parseInt(m[2].padEnd(3, '0'), 10) : 0;
-        return sec + ms / 1000;
-      }
-      return null;
-    };
-    return parseTS(a) !== null && parseTS(b) !== null;
+    return parseTimestamp(a) !== null && parseTimestamp(b ?? '') !== null;
   };
 
+  // Optional "#key F Major", "#tempo 96", "#time 3/4" and "#section Verse 1" lines
+  const directivePattern = /^#(key|tempo|time|section)\b\s*(.*)$/i;
+
   // Header detection
   let title = 'Untitled song';
   let artist = 'Untitled author';
-  let idx = 0;
-  if (!isRangeLine(rawLines[0])) {
-    const [t, a = 'Untitled author'] = rawLines[0].split('\t');
+  const headerIdx = rawLines.findIndex(line => !directivePattern.test(line.content.trim()));
+  if (headerIdx !== -1 && !isRangeLine(rawLines[headerIdx].content)) {
+    const [t, a = 'Untitled author'] = rawLines[headerIdx].content.split('\t');
     title = (t ?? '').trim() || 'Untitled song';
     artist = (a ?? '').trim() || 'Untitled author';
-    idx = 1;
   }
 
-  const toSeconds = (stamp: string): number => {
-    const t = stamp.trim();
-    let m = t.match(/^(\d+):(\d{1,2})(?:[.:](\d{1,3}))?$/);
-    if (m) {
-      const min = parseInt(m[1], 10);
-      const sec = parseInt(m[2], 10);
-      const ms = m[3] ? parseInt(m[3].padEnd(3, '0'), 10) : 0;
-      return min * 60 + sec + ms / 1000;
-    }
-    m = t.match(/^(\d+)(?:[.:](\d{1,3}))?$/);
-    if (m) {
-      const sec = parseInt(m[1], 10);
-      const ms = m[2] ? parseInt(m[2].padEnd(3, '0'), 10) : 0;
-      return sec + ms / 1000;
-    }
-    throw new Error(`Bad timestamp: ${stamp}`);
-  };
-
   const noteMap: { [key: string]: number } = {
     'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3,
     'E': 4, 'F': 5, 'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8,
     'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11
   };
 
-  const toMidi = (pitchStr: string): { midi: number; name: string } => {
+  // Returns an error message and its offset within the pitch text when the pitch is invalid
+  const toMidi = (pitchStr: string): { midi: number; name: string } | { error: string; offset: number } => {
     const s = String(pitchStr).trim();
     if (/^\d+$/.test(s)) {
       const midi = parseInt(s, 10);
+      if (midi > 127) return { error: `Pitch ${midi} is outside the MIDI range 0-127`, offset: 0 };
       const name = getMidiNoteNameOnly(midi); // name without octave
       return { midi, name };
     }
-    const m = s.match(/^([A-G])([#b]?)(\d)$/);
-    if (!m) throw new Error(`Bad pitch: ${s}`);
+    const m = s.match(/^([A-G])([^\d-]*)(-?\d+)$/);
+    if (!m) return { error: `Bad pitch "${s}": expected a note name like C4 or F#3, or a MIDI number`, offset: 0 };
     const [, letter, accidental, octaveStr] = m;
+    if (accidental !== '' && accidental !== '#' && accidental !== 'b') {
+      return { error: `Unknown accidental "${accidental}" in "${s}": use # or b`, offset: 1 };
+    }
     const octave = parseInt(octaveStr, 10);
-    const value = noteMap[letter + (accidental || '')];
-    const midi = (octave + 1) * 12 + value;
-    return { midi, name: letter + (accidental || '') };
+    const midi = (octave + 1) * 12 + noteMap[letter + accidental];
+    if (midi < 0 || midi > 127) return { error: `Pitch ${s} is outside the MIDI range C-1 to G9`, offset: 0 };
+    return { midi, name: letter + accidental };
   };
 
+  let tempo = 120;
+  let timeSignature: [number, number] = [4, 4];
+  let openingTimeSignature = timeSignature;
+  let key = 'C Major';
+  let hasKeyDirective = false;
+  let hasTempoDirective = false;
+  const sectionStarts: { name: string; noteIndex: number }[] = [];
+  // Beat-timed notes are resolved to seconds once the tempo map is complete
+  const beatTimed: { note: Note; startBeat: number; endBeat: number }[] = [];
+  const tempoChanges: TempoChange[] = [];
+  let pendingTempo: number | null = null;
+  // Bars are counted from the latest time signature change, which starts at `beat` quarter notes
+  let meterStart = { bar: 1, beat: 0 };
+  const meterChanges: { beat: number; timeSignature: [number, number] }[] = [];
+  let pendingTimeSignature: [number, number] | null = null;
+
   const notes: Note[] = [];
+  const noteLines: number[] = [];
   let maxTime = 0;
-  for (; idx < rawLines.length; idx++) {
-    const cols = rawLines[idx].split('\t');
-    if (cols.length < 3) continue;
+  for (let idx = 0; idx < rawLines.length; idx++) {
+    if (idx === headerIdx && !isRangeLine(rawLines[idx].content)) continue;
+    const { content, lineNumber } = rawLines[idx];
+
+    const directive = content.trim().match(directivePattern);
+    if (directive) {
+      const value = directive[2].trim();
+      const name = directive[1].toLowerCase();
+      const column = content.indexOf('#') + 1;
+      switch (name) {
+        case 'key':
+          hasKeyDirective = hasKeyDirective || !!parseKey(value);
+          if (parseKey(value)) key = value;
+          else report(lineNumber, column, 'warning', `Unknown key "${value}": expected e.g. "F Major" or "D Minor"`);
+          break;
+        case 'tempo': {
+          const bpm = parseFloat(value);
+          if (!(bpm > 0)) {
+            report(lineNumber, column, 'warning', `Invalid tempo "${value}": expected beats per minute`);
+            break;
+          }
+          hasTempoDirective = true;
+          // A later #tempo changes the tempo from the next bar/beat note on
+          if (beatTimed.length === 0) tempo = bpm;
+          else pendingTempo = bpm;
+          break;
+        }
+        case 'time': {
+          const m = value.match(/^(\d+)\s*\/\s*(\d+)$/);
+          if (m && parseInt(m[1], 10) > 0 && parseInt(m[2], 10) > 0) {
+            // Like #tempo, a later #time applies from the bar of the next bar/beat note
+            const signature: [number, number] = [parseInt(m[1], 10), parseInt(m[2], 10)];
+            if (beatTimed.length === 0) timeSignature = openingTimeSignature = signature;
+            else pendingTimeSignature = signature;
+          } else {
+            report(lineNumber, column, 'warning', `Invalid time signature "${value}": expected e.g. 3/4`);
+          }
+          break;
+        }
+        case 'section':
+          if (value) sectionStarts.push({ name: value, noteIndex: notes.length });
+          else report(lineNumber, column, 'warning', 'Section without a name');
+          break;
+      }
+      continue;
+    }
+
+    if (content.trim().startsWith('#')) {
+      report(lineNumber, content.indexOf('#') + 1, 'warning', `Unknown directive "${content.trim().split(/\s/)[0]}"; line ignored`);
+      continue;
+    }
+
+    const cols = content.split('\t');
+    const columnOf = (index: number) =>
+      cols.slice(0, index).reduce((sum, col) => sum + col.length + 1, 1) + (cols[index].length - cols[index].trimStart().length);
+    if (cols.length < 2) {
+      report(lineNumber, 1, 'warning', 'Expected start-end, pitch and lyric separated by tabs; line ignored');
+      continue;
+    }
     const range = cols[0];
     const pitchCol = cols[1];
     const lyric = cols.slice(2).join('\t').trim();
-    const [startS, endS] = range.split('-');
-    const start = toSeconds(startS);
-    const end = toSeconds(endS);
-    const dur = end - start;
-    const { midi, name } = toMidi(pitchCol);
 
-    notes.push({
+    const pitch = toMidi(pitchCol);
+    if ('error' in pitch) {
+      report(lineNumber, columnOf(1) + pitch.offset, 'error', pitch.error);
+      continue;
+    }
+    if (pitch.midi < SINGABLE_RANGE[0] || pitch.midi > SINGABLE_RANGE[1]) {
+      report(lineNumber, columnOf(1), 'warning', `Pitch ${getMidiNoteName(pitch.midi)} is outside the singable range C2-C6`);
+    }
+
+    const note: Note = {
       id: String(idx + 1),
-      time: start,
-      duration: dur,
-      pitch: midi,
-      name,
-      frequency: midiToFrequency(midi),
+      time: 0,
+      duration: 0,
+      pitch: pitch.midi,
+      name: pitch.name,
+      frequency: midiToFrequency(pitch.midi),
       velocity: 80,
       lyric: lyric || undefined
-    });
-    if (end > maxTime) maxTime = end;
+    };
+
+    const barBeat = range.trim().match(barBeatPattern);
+    if (barBeat) {
+      const bar = parseInt(barBeat[1], 10);
+      if (bar === 0 || parseFloat(barBeat[2]) < 1) {
+        report(lineNumber, columnOf(0), 'error', `Bad position "${range.trim()}": bars and beats start at 1`);
+        continue;
+      }
+      if (bar < meterStart.bar) {
+        report(lineNumber, columnOf(0), 'error', `Bar ${bar} comes before the time signature change at bar ${meterStart.bar}`);
+        continue;
+      }
+      if (pendingTimeSignature !== null) {
+        const barQuarters = (timeSignature[0] * 4) / timeSignature[1];
+        meterStart = { bar, beat: meterStart.beat + (bar - meterStart.bar) * barQuarters };
+        if (pendingTimeSignature.join('/') !== timeSignature.join('/')) {
+          meterChanges.push({ beat: meterStart.beat, timeSignature: pendingTimeSignature });
+        }
+        timeSignature = pendingTimeSignature;
+        pendingTimeSignature = null;
+      }
+      const quartersPerBeat = 4 / timeSignature[1];
+      const [num, den = '1'] = barBeat[3].split('/');
+      const startBeat = meterStart.beat + ((bar - meterStart.bar) * timeSignature[0] + parseFloat(barBeat[2]) - 1) * quartersPerBeat;
+      const length = (parseFloat(num) / parseFloat(den)) * quartersPerBeat;
+      if (!(length > 0)) {
+        report(lineNumber, columnOf(0) + barBeat[0].indexOf('+') + 1, 'warning', 'Zero-length note');
+      }
+      if (pendingTempo !== null) {
+        tempoChanges.push({ beat: startBeat, bpm: pendingTempo });
+        pendingTempo = null;
+      }
+      beatTimed.push({ note, startBeat, endBeat: startBeat + length });
+    } else {
+      const [startS, endS, ...extra] = range.split('-');
+      const start = parseTimestamp(startS);
+      const end = extra.length === 0 && endS !== undefined ? parseTimestamp(endS) : null;
+      if (start === null || end === null) {
+        report(lineNumber, columnOf(0), 'error', `Bad timestamp "${range.trim()}": expected mm:ss:mmm-mm:ss:mmm or bar.beat+length`);
+        continue;
+      }
+      if (end < start) {
+        report(lineNumber, columnOf(0), 'error', 'Negative duration: the note ends before it starts');
+        continue;
+      }
+      if (end === start) {
+        report(lineNumber, columnOf(0), 'warning', 'Zero-length note');
+      }
+      note.time = start;
+      note.duration = end - start;
+      if (end > maxTime) maxTime = end;
+    }
+
+    notes.push(note);
+    noteLines.push(lineNumber);
+  }
+
+  const beatToSeconds = createBeatToSeconds(tempoChanges, tempo);
+  beatTimed.forEach(({ note, startBeat, endBeat }) => {
+    note.time = beatToSeconds(startBeat);
+    note.duration = beatToSeconds(endBeat) - note.time;
+    maxTime = Math.max(maxTime, note.time + note.duration);
+  });
+
+  // Notes are sung one at a time, in file order
+  for (let i = 1; i < notes.length; i++) {
+    const previous = notes[i - 1];
+    if (notes[i].time < previous.time) {
+      report(noteLines[i], 1, 'warning', `Starts before the note on line ${noteLines[i - 1]}; notes should be in time order`);
+    } else if (notes[i].time < previous.time + previous.duration - 0.0005) {
+      report(noteLines[i], 1, 'warning', `Overlaps the note on line ${noteLines[i - 1]}`);
+    }
   }
 
-  // Generate stable ID based on title and content hash
-  const titleSlug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled';
-  const contentHash = text.length.toString(36) + notes.length.toString(36);
-  const stableId = `${titleSlug}-${contentHash}`;
+  const sections: SongSection[] = sectionStarts.map(({ name, noteIndex }) => ({
+    name,
+    time: notes[noteIndex]?.time ?? maxTime
+  }));
 
   return {
-    id: stableId,
-    title,
-    artist,
-    tempo: 120,
-    duration: Math.ceil(maxTime + 2),
-    timeSignature: [4, 4],
-    key: 'C Major',
-    notes
+    // Files without #key/#tempo get estimates; bar/beat timing is relative to the default tempo
+    song: analyzeSong({
+      id: createSongId(slugifyTitle(title), notes),
+      title,
+      artist,
+      tempo,
+      duration: Math.ceil(maxTime + 2),
+      timeSignature: openingTimeSignature,
+      key,
+      notes,
+      sections: sections.length > 0 ? sections : undefined,
+      tempoChanges: tempoChanges.length > 0 ? tempoChanges.map(change => ({ time: beatToSeconds(change.beat), bpm: change.bpm })) : undefined,
+      meterChanges: meterChanges.length > 0 ? meterChanges.map(change => ({ time: beatToSeconds(change.beat), timeSignature: change.timeSignature })) : undefined
+    }, { key: !hasKeyDirective, tempo: !hasTempoDirective && beatTimed.length === 0 }),
+    diagnostics: diagnostics.sort((x, y) => x.line - y.line || x.column - y.column)
   };
 }
 
-// LocalStorage management for songs
+// Storage management for songs
 export function saveSongToStorage(song: Song): void {
-  try {
-    const savedSongs = getSavedSongs();
-    savedSongs[song.id] = song;
-    localStorage.setItem('vocalCoach_savedSongs', JSON.stringify(savedSongs));
-  } catch (error) {
-    console.error('Failed to save song to storage:', error);
-  }
+  putStoredSong(song);
 }
 
 export function getSavedSongs(): Record<string, Song> {
-  try {
-    const saved = localStorage.getItem('vocalCoach_savedSongs');
-    return saved ? JSON.parse(saved) : {};
-  } catch (error) {
-    console.error('Failed to load saved songs:', error);
-    return {};
-  }
+  return getStoredSongs();
 }
 
 export async function getAllAvailableSongs(): Promise<Song[]> {
@@ -500,13 +882,21 @@ export async function getAllAvailableSongs(): Promise<Song[]> {
 }
 
 export function deleteSavedSong(songId: string): void {
-  try {
-    const savedSongs = getSavedSongs();
-    delete savedSongs[songId];
-    localStorage.setItem('vocalCoach_savedSongs', JSON.stringify(savedSongs));
-  } catch (error) {
-    console.error('Failed to delete song:', error);
-  }
+  deleteStoredSong(songId);
+}
+
+// Results of finished takes per song ID, oldest first
+export function getScoreHistory(): Record<string, SongResults[]> {
+  return getSessions();
+}
+
+export function saveScoreHistory(history: Record<string, SongResults[]>): void {
+  replaceSessions(history);
+}
+
+// Keeps the latest 50 results per song
+export function addScoreResult(songId: string, results: SongResults): void {
+  addSession(songId, results, 50);
 }
 
 export async function loadExternalTSV(url: string): Promise<Song> {
@@ -0,0 +1,356 @@
+import { Song, Note, MusicXmlPartOption } from '../types';
+import { midiToFrequency, getMidiNoteNameOnly, keyFromFifths, slugifyTitle, createBeatToSeconds, getRepeatPlaybackOrder, TempoChange, RepeatMarks } from './musicUtils';
+import { readZipTextFiles } from './zipArchive';
+import { analyzeSong } from './songAnalysis';
+import { createSongId } from './songIdentity';
+
+interface MeasureInfo extends RepeatMarks {
+  element: Element;
+}
+
+interface BeatNote {
+  startBeat: number;
+  endBeat: number;
+  pitch: number;
+  lyric?: string;
+  tieOpen: boolean;
+}
+
+const STEP_VALUES: { [step: string]: number } = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Length of a metronome beat unit in quarter notes
+const BEAT_UNIT_QUARTERS: { [unit: string]: number } = {
+  whole: 4, half: 2, quarter: 1, eighth: 0.5, '16th': 0.25, '32nd': 0.125
+};
+
+const childText = (parent: Element, selector: string): string | null => {
+  const el = parent.querySelector(`:scope > ${selector}`);
+  return el?.textContent?.trim() ?? null;
+};
+
+const childNumber = (parent: Element, selector: string): number | null => {
+  const text = childText(parent, selector);
+  if (text === null || text === '') return null;
+  const value = parseFloat(text);
+  return isFinite(value) ? value : null;
+};
+
+export function readMusicXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('Invalid MusicXML: the file is not well-formed XML');
+  }
+  const root = doc.documentElement.tagName;
+  if (root === 'score-timewise') {
+    throw new Error('Timewise MusicXML is not supported; please export as partwise');
+  }
+  if (root !== 'score-partwise') {
+    throw new Error(`Invalid MusicXML: unexpected root element <${root}>`);
+  }
+  return doc;
+}
+
+// Extracts the score from a compressed .mxl archive using its META-INF/container.xml
+export async function readMxlArchive(buffer: ArrayBuffer): Promise<string> {
+  const files = await readZipTextFiles(buffer);
+  const container = files['META-INF/container.xml'];
+  if (container) {
+    const containerDoc = new DOMParser().parseFromString(container, 'application/xml');
+    const rootPath = containerDoc.querySelector('rootfile')?.getAttribute('full-path');
+    if (rootPath && files[rootPath]) {
+      return files[rootPath];
+    }
+  }
+  const scoreName = Object.keys(files).find(name => !name.startsWith('META-INF/') && /\.(xml|musicxml)$/i.test(name));
+  if (!scoreName) {
+    throw new Error('No MusicXML score found in archive');
+  }
+  return files[scoreName];
+}
+
+const getPartNames = (doc: Document): Map<string, string> => {
+  const names = new Map<string, string>();
+  doc.querySelectorAll('part-list > score-part').forEach(scorePart => {
+    const id = scorePart.getAttribute('id');
+    if (id) names.set(id, childText(scorePart, 'part-name') || id);
+  });
+  return names;
+};
+
+const readPitch = (note: Element): number | null => {
+  const pitch = note.querySelector(':scope > pitch');
+  if (!pitch) return null;
+  const step = childText(pitch, 'step');
+  const octave = childNumber(pitch, 'octave');
+  if (!step || !(step in STEP_VALUES) || octave === null) return null;
+  const alter = childNumber(pitch, 'alter') ?? 0;
+  return (octave + 1) * 12 + STEP_VALUES[step] + Math.round(alter);
+};
+
+const getVoice = (note: Element): string => childText(note, 'voice') || '1';
+
+const isPlayableNote = (note: Element): boolean =>
+  !note.querySelector(':scope > grace') && !note.querySelector(':scope > cue');
+
+// Lists each part/voice pair that contains pitched notes
+export function getMusicXmlPartOptions(doc: Document): MusicXmlPartOption[] {
+  const partNames = getPartNames(doc);
+  const options: MusicXmlPartOption[] = [];
+
+  doc.querySelectorAll('score-partwise > part').forEach(part => {
+    const partId = part.getAttribute('id') || '';
+    const byVoice = new Map<string, { pitches: number[]; lyricCount: number }>();
+
+    part.querySelectorAll(':scope > measure > note').forEach(note => {
+      if (!isPlayableNote(note) || note.querySelector(':scope > chord')) return;
+      const pitch = readPitch(note);
+      if (pitch === null) return;
+      const voice = getVoice(note);
+      const stats = byVoice.get(voice) || { pitches: [], lyricCount: 0 };
+      stats.pitches.push(pitch);
+      if (note.querySelector(':scope > lyric > text')) stats.lyricCount++;
+      byVoice.set(voice, stats);
+    });
+
+    byVoice.forEach((stats, voice) => {
+      options.push({
+        partId,
+        voice,
+        name: partNames.get(partId) || partId,
+        noteCount: stats.pitches.length,
+        lyricCount: stats.lyricCount,
+        lowestPitch: Math.min(...stats.pitches),
+        highestPitch: Math.max(...stats.pitches)
+      });
+    });
+  });
+
+  return options;
+}
+
+// Prefers the voice carrying lyrics, then a vocal-sounding part name, then the first part
+export function suggestMusicXmlPart(options: MusicXmlPartOption[]): MusicXmlPartOption | null {
+  if (options.length === 0) return null;
+  const withLyrics = options.filter(o => o.lyricCount > 0);
+  if (withLyrics.length > 0) {
+    return withLyrics.reduce((best, o) => (o.lyricCount > best.lyricCount ? o : best));
+  }
+  return options.find(o => /voice|vocal|soprano|melody|sing|lead/i.test(o.name)) || options[0];
+}
+
+const readMeasureInfos = (part: Element): MeasureInfo[] => {
+  let activeEndings: number[] = [];
+
+  return Array.from(part.querySelectorAll(':scope > measure')).map(element => {
+    const info: MeasureInfo = {
+      element,
+      forwardRepeat: false,
+      backwardRepeat: false,
+      repeatTimes: 2,
+      endings: [],
+      endingStops: false
+    };
+
+    element.querySelectorAll(':scope > barline').forEach(barline => {
+      const repeat = barline.querySelector(':scope > repeat');
+      if (repeat?.getAttribute('direction') === 'forward') info.forwardRepeat = true;
+      if (repeat?.getAttribute('direction') === 'backward') {
+        info.backwardRepeat = true;
+        const times = parseInt(repeat.getAttribute('times') || '', 10);
+        if (times > 1) info.repeatTimes = times;
+      }
+
+      const ending = barline.querySelector(':scope > ending');
+      const type = ending?.getAttribute('type');
+      if (ending && type === 'start') {
+        activeEndings = (ending.getAttribute('number') || '1')
+          .split(/[,\s]+/)
+          .map(n => parseInt(n, 10))
+          .filter(n => n > 0);
+      }
+      if (ending && (type === 'stop' || type === 'discontinue')) {
+        info.endings = activeEndings;
+        info.endingStops = true;
+        activeEndings = [];
+      }
+    });
+
+    if (activeEndings.length > 0) info.endings = activeEndings;
+    return info;
+  });
+};
+
+// Maps <syllabic> onto the hyphen convention of the song format ("Hap-", "-py")
+const readLyric = (note: Element, pass: number): string | undefined => {
+  const lyrics = Array.from(note.querySelectorAll(':scope > lyric'));
+  if (lyrics.length === 0) return undefined;
+  const lyric = lyrics.find(l => l.getAttribute('number') === String(pass)) || lyrics[0];
+
+  const text = Array.from(lyric.querySelectorAll(':scope > text'))
+    .map(t => t.textContent || '')
+    .join(' ')
+    .trim();
+  if (!text) return undefined;
+
+  switch (childText(lyric, 'syllabic')) {
+    case 'begin':
+      return `${text}-`;
+    case 'middle':
+      return `-${text}-`;
+    case 'end':
+      return `-${text}`;
+    default:
+      return text;
+  }
+};
+
+const readTempo = (element: Element): number | null => {
+  const sound = element.tagName === 'sound' ? element : element.querySelector(':scope > sound');
+  const soundTempo = sound ? parseFloat(sound.getAttribute('tempo') || '') : NaN;
+  if (isFinite(soundTempo) && soundTempo > 0) return soundTempo;
+
+  const metronome = element.querySelector(':scope > direction-type > metronome');
+  if (!metronome) return null;
+  const perMinute = childNumber(metronome, 'per-minute');
+  const unit = childText(metronome, 'beat-unit') || 'quarter';
+  if (perMinute === null || !(unit in BEAT_UNIT_QUARTERS)) return null;
+  const dotted = metronome.querySelector(':scope > beat-unit-dot') ? 1.5 : 1;
+  return perMinute * BEAT_UNIT_QUARTERS[unit] * dotted;
+};
+
+export function musicXmlToSong(
+  doc: Document,
+  option: Pick<MusicXmlPartOption, 'partId' | 'voice'>,
+  title: string = 'Imported Song',
+  artist: string = 'Unknown'
+): Song {
+  const part = Array.from(doc.querySelectorAll('score-partwise > part')).find(p => p.getAttribute('id') === option.partId);
+  if (!part) {
+    throw new Error(`MusicXML part ${option.partId} not found`);
+  }
+
+  const infos = readMeasureInfos(part);
+  const tempoChanges: TempoChange[] = [];
+  const beatNotes: BeatNote[] = [];
+  let divisions = 1;
+  let measureStart = 0; // In quarter notes
+  let key: string | null = null;
+  let timeSignature: [number, number] | null = null;
+
+  getRepeatPlaybackOrder(infos).forEach(({ index, pass }) => {
+    let cursor = 0; // Quarter notes from measure start
+    let measureLength = 0;
+    let lastStart = 0;
+
+    Array.from(infos[index].element.children).forEach(child => {
+      switch (child.tagName) {
+        case 'attributes': {
+          divisions = childNumber(child, 'divisions') ?? divisions;
+          const keyEl = child.querySelector(':scope > key');
+          const fifths = keyEl ? childNumber(keyEl, 'fifths') : null;
+          if (key === null && keyEl && fifths !== null) {
+            key = keyFromFifths(fifths, childText(keyEl, 'mode') === 'minor');
+          }
+          const timeEl = child.querySelector(':scope > time');
+          const beats = timeEl ? childNumber(timeEl, 'beats') : null;
+          const beatType = timeEl ? childNumber(timeEl, 'beat-type') : null;
+          if (timeSignature === null && beats && beatType) {
+            timeSignature = [beats, beatType];
+          }
+          break;
+        }
+        case 'direction':
+        case 'sound': {
+          const bpm = readTempo(child);
+          if (bpm) tempoChanges.push({ beat: measureStart + cursor, bpm });
+          break;
+        }
+        case 'backup':
+          cursor -= (childNumber(child, 'duration') ?? 0) / divisions;
+          break;
+        case 'forward':
+          cursor += (childNumber(child, 'duration') ?? 0) / divisions;
+          break;
+        case 'note': {
+          if (!isPlayableNote(child)) break;
+          const length = (childNumber(child, 'duration') ?? 0) / divisions;
+          const isChord = !!child.querySelector(':scope > chord');
+          const start = isChord ? lastStart : cursor;
+          if (!isChord) {
+            lastStart = cursor;
+            cursor += length;
+          }
+
+          if (getVoice(child) !== option.voice) break;
+          const pitch = readPitch(child);
+          const previous = beatNotes[beatNotes.length - 1];
+          if (pitch === null) {
+            // A rest breaks any pending tie
+            if (previous) previous.tieOpen = false;
+            break;
+          }
+
+          const startBeat = measureStart + start;
+          const tieTypes = Array.from(child.querySelectorAll(':scope > tie')).map(t => t.getAttribute('type'));
+
+          if (isChord) {
+            // Sing the top line of any chord written in the vocal voice
+            if (previous && previous.startBeat === startBeat && pitch > previous.pitch) previous.pitch = pitch;
+            break;
+          }
+
+          if (tieTypes.includes('stop') && previous && previous.tieOpen && previous.pitch === pitch) {
+            previous.endBeat = startBeat + length;
+            previous.tieOpen = tieTypes.includes('start');
+            break;
+          }
+
+          beatNotes.push({
+            startBeat,
+            endBeat: startBeat + length,
+            pitch,
+            lyric: readLyric(child, pass),
+            tieOpen: tieTypes.includes('start')
+          });
+          break;
+        }
+      }
+      measureLength = Math.max(measureLength, cursor);
+    });
+
+    // Pickup and irregular measures advance by their actual content
+    measureStart += measureLength;
+  });
+
+  const beatToSeconds = createBeatToSeconds(tempoChanges);
+  const notes: Note[] = beatNotes.map((n, i) => {
+    const time = beatToSeconds(n.startBeat);
+    return {
+      id: String(i + 1),
+      time,
+      duration: beatToSeconds(n.endBeat) - time,
+      pitch: n.pitch,
+      name: getMidiNoteNameOnly(n.pitch),
+      frequency: midiToFrequency(n.pitch),
+      velocity: 80,
+      lyric: n.lyric
+    };
+  });
+
+  const workTitle = doc.querySelector('work > work-title')?.textContent?.trim() || doc.querySelector('movement-title')?.textContent?.trim();
+  const creator = doc.querySelector('identification > creator[type="composer"]') || doc.querySelector('identification > creator');
+  const songTitle = workTitle || title;
+  const maxTime = notes.reduce((max, n) => Math.max(max, n.time + n.duration), 0);
+  const initialTempo = tempoChanges.find(t => t.beat === 0)?.bpm ?? 120;
+
+  return analyzeSong({
+    id: createSongId(slugifyTitle(songTitle), notes),
+    title: songTitle,
+    artist: creator?.textContent?.trim() || artist,
+    tempo: Math.round(initialTempo),
+    duration: Math.ceil(maxTime + 2),
+    timeSignature: timeSignature ?? [4, 4],
+    key: key ?? 'C Major',
+    notes
+  }, { key: key === null });
+}
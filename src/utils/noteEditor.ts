@@ -0,0 +1,161 @@
+import { Song, Note, NoteEditHistory, NoteDragMode } from '../types';
+import { midiToFrequency, getMidiNoteNameOnly, secondsPerSignatureBeat, slugifyTitle } from './musicUtils';
+import { analyzeSong } from './songAnalysis';
+import { createSongId } from './songIdentity';
+
+const MIN_NOTE_DURATION = 0.05;
+const MAX_HISTORY = 100;
+const MIN_PITCH = 0;
+const MAX_PITCH = 127;
+
+// Grid step in seconds for 1/division of a beat, or null when snapping is off
+export function getGridStep(song: Song, division: number | null): number | null {
+  if (!division) return null;
+  return secondsPerSignatureBeat(song.tempo > 0 ? song.tempo : 120, song.timeSignature) / division;
+}
+
+export function snapTime(time: number, gridStep: number | null): number {
+  return gridStep ? Math.round(time / gridStep) * gridStep : time;
+}
+
+const sortNotes = (notes: Note[]): Note[] => [...notes].sort((a, b) => a.time - b.time || a.pitch - b.pitch);
+
+const clampPitch = (pitch: number): number => Math.max(MIN_PITCH, Math.min(MAX_PITCH, pitch));
+
+const withPitch = (note: Note, pitch: number): Note => ({
+  ...note,
+  pitch,
+  name: getMidiNoteNameOnly(pitch),
+  frequency: midiToFrequency(pitch)
+});
+
+// Note IDs only need to be unique within the song
+const nextNoteId = (notes: Note[]): string =>
+  String(notes.reduce((max, n) => Math.max(max, Number(n.id) || 0), 0) + 1);
+
+export function createHistory(notes: Note[]): NoteEditHistory {
+  return { past: [], present: notes, future: [] };
+}
+
+export function pushHistory(history: NoteEditHistory, notes: Note[]): NoteEditHistory {
+  return { past: [...history.past, history.present].slice(-MAX_HISTORY), present: notes, future: [] };
+}
+
+export function undoHistory(history: NoteEditHistory): NoteEditHistory {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+}
+
+export function redoHistory(history: NoteEditHistory): NoteEditHistory {
+  if (history.future.length === 0) return history;
+  return { past: [...history.past, history.present], present: history.future[0], future: history.future.slice(1) };
+}
+
+export function addNote(notes: Note[], time: number, pitch: number, duration: number): { notes: Note[]; id: string } {
+  const id = nextNoteId(notes);
+  const note = withPitch({ id, time: Math.max(0, time), duration: Math.max(MIN_NOTE_DURATION, duration), pitch, name: '', frequency: 0, velocity: 80 }, clampPitch(pitch));
+  return { notes: sortNotes([...notes, note]), id };
+}
+
+export function deleteNotes(notes: Note[], ids: Set<string>): Note[] {
+  return notes.filter(n => !ids.has(n.id));
+}
+
+/**
+ * Moves or resizes the selected notes by a drag of `deltaTime` seconds and `deltaPitch`
+ * semitones. The anchor note (the one under the pointer) snaps to the grid and the
+ * rest of the selection follows by the same amount.
+ */
+export function dragNotes(
+  notes: Note[],
+  ids: Set<string>,
+  anchorId: string,
+  mode: NoteDragMode,
+  deltaTime: number,
+  deltaPitch: number,
+  gridStep: number | null
+): Note[] {
+  const anchor = notes.find(n => n.id === anchorId);
+  if (!anchor) return notes;
+
+  if (mode === 'move') {
+    const earliest = Math.min(...notes.filter(n => ids.has(n.id)).map(n => n.time));
+    const snappedDelta = Math.max(snapTime(anchor.time + deltaTime, gridStep) - anchor.time, -earliest);
+    return sortNotes(notes.map(n => ids.has(n.id)
+      ? withPitch({ ...n, time: n.time + snappedDelta }, clampPitch(n.pitch + deltaPitch))
+      : n));
+  }
+
+  const anchorEnd = anchor.time + anchor.duration;
+  const snappedDelta = snapTime(anchorEnd + deltaTime, gridStep) - anchorEnd;
+  const minDuration = gridStep ?? MIN_NOTE_DURATION;
+  return notes.map(n => ids.has(n.id)
+    ? { ...n, duration: Math.max(Math.min(minDuration, n.duration), n.duration + snappedDelta) }
+    : n);
+}
+
+// Splits every selected note that spans `time`; the lyric stays on the first half
+export function splitNotes(notes: Note[], ids: Set<string>, time: number): { notes: Note[]; splitIds: string[] } {
+  const result = [...notes];
+  const splitIds: string[] = [];
+  notes.forEach(note => {
+    const offset = time - note.time;
+    if (!ids.has(note.id) || offset < MIN_NOTE_DURATION || note.duration - offset < MIN_NOTE_DURATION) return;
+    const id = nextNoteId(result);
+    const index = result.findIndex(n => n.id === note.id);
+    result[index] = { ...note, duration: offset };
+    result.push({ ...note, id, time, duration: note.duration - offset, lyric: undefined, phraseStart: undefined });
+    splitIds.push(id);
+  });
+  return { notes: sortNotes(result), splitIds };
+}
+
+// "Hap-" + "-py" -> "Happy"; whole words are joined with a space
+const joinLyrics = (a: string | undefined, b: string | undefined): string | undefined => {
+  if (!a || !b) return a || b;
+  if (a.endsWith('-') || b.startsWith('-')) {
+    return a.replace(/-$/, '') + b.replace(/^-/, '');
+  }
+  return `${a} ${b}`;
+};
+
+// Joins the selected notes into one note at the pitch of the first
+export function mergeNotes(notes: Note[], ids: Set<string>): { notes: Note[]; mergedId: string | null } {
+  const selected = sortNotes(notes.filter(n => ids.has(n.id)));
+  if (selected.length < 2) return { notes, mergedId: null };
+
+  const first = selected[0];
+  const end = Math.max(...selected.map(n => n.time + n.duration));
+  const merged: Note = {
+    ...first,
+    duration: end - first.time,
+    lyric: selected.slice(1).reduce<string | undefined>((lyric, n) => joinLyrics(lyric, n.lyric), first.lyric)
+  };
+  return { notes: sortNotes([...notes.filter(n => !ids.has(n.id)), merged]), mergedId: first.id };
+}
+
+export function setNoteLyric(notes: Note[], id: string, lyric: string): Note[] {
+  const trimmed = lyric.trim();
+  return notes.map(n => n.id === id ? { ...n, lyric: trimmed || undefined } : n);
+}
+
+/**
+ * Builds the song to save from the edited notes. Built-in songs cannot be overwritten,
+ * so edits to them become a new song.
+ */
+export function buildEditedSong(song: Song, notes: Note[], isUserSong: boolean): Song {
+  const sorted = sortNotes(notes);
+  const end = sorted.reduce((max, n) => Math.max(max, n.time + n.duration), 0);
+  const title = isUserSong ? song.title : `${song.title} (edited)`;
+  return analyzeSong({
+    ...song,
+    id: isUserSong ? song.id : createSongId(slugifyTitle(title), sorted),
+    title,
+    notes: sorted,
+    duration: Math.ceil(end + 2)
+  });
+}
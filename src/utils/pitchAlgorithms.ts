@@ -0,0 +1,357 @@
+// Pitch estimators behind one interface, run by PitchDetector on the main thread or in
+// the AudioWorklet. Nothing here may touch the DOM: the worklet scope has no window.
+import { PitchAlgorithm, PitchAlgorithmId, PitchAnalysis, PitchCandidate, PitchDetectionResult, PitchDetectorConfig } from '../types';
+import { frequencyToMidi, getMidiNoteName, getMidiNoteNameOnly } from './musicUtils';
+
+export const DEFAULT_PITCH_CONFIG: PitchDetectorConfig = {
+  algorithm: 'yin',
+  windowSize: 4096, // ≈ 93 ms at 44.1kHz, long enough for an 80Hz fundamental
+  minFreq: 80,
+  maxFreq: 2000,
+  rmsThreshold: 0.01
+};
+
+export const PITCH_ALGORITHMS: { id: PitchAlgorithmId; label: string; description: string }[] = [
+  { id: 'yin', label: 'YIN', description: 'Precise on clear singing, but breathy tones can make it jump an octave.' },
+  { id: 'mpm', label: 'McLeod (MPM)', description: 'Takes the first strong period, so it keeps the right octave on soft or breathy singing.' },
+  { id: 'autocorrelation', label: 'Autocorrelation', description: 'Simple and forgiving. Steadiest on low voices, less exact up high.' }
+];
+
+const YIN_THRESHOLD = 0.15; // Typical 0.1–0.2
+const MPM_PEAK_RATIO = 0.9; // First NSDF peak within this share of the highest wins
+const MPM_MIN_CLARITY = 0.5;
+const ACF_PEAK_RATIO = 0.9; // Same rule for autocorrelation peaks, to avoid sub-octaves
+const ACF_MIN_CLARITY = 0.5;
+
+// pYIN-style candidates: a Beta(2, 18) prior over dip thresholds (mean 0.1)
+const THRESHOLD_STEPS = 100;
+const THRESHOLD_PRIOR = (() => {
+  const weights = Array.from({ length: THRESHOLD_STEPS }, (_, k) => {
+    const s = (k + 0.5) / THRESHOLD_STEPS;
+    return s * Math.pow(1 - s, 17);
+  });
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => w / total);
+})();
+const ABSOLUTE_MIN_WEIGHT = 0.01; // Share given to the deepest dip when none is under the threshold
+const MAX_CANDIDATES = 6;
+
+interface PeriodEstimate {
+  period: number; // Samples, possibly fractional
+  clarity: number; // 0-1, how periodic the frame is
+}
+
+export function computeRms(buf: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < buf.length; i++) {
+    const v = buf[i];
+    sum += v * v;
+  }
+  return Math.sqrt(sum / buf.length);
+}
+
+function buildPitchResult(frequency: number, clarity: number, rms: number): PitchDetectionResult {
+  const pitch = frequencyToMidi(frequency);
+  // Blend with RMS for a more intuitive confidence
+  const confidence = Math.max(0, Math.min(1, 0.5 * clarity + 0.5 * Math.min(1, rms / 0.1)));
+  return {
+    frequency,
+    pitch,
+    noteName: getMidiNoteName(pitch),
+    noteNameOnly: getMidiNoteNameOnly(pitch),
+    confidence,
+    clarity: Math.max(0, Math.min(1, clarity)),
+    timestamp: Date.now()
+  };
+}
+
+// Offset of the true peak from index i, fitted through its neighbours
+function parabolicOffset(values: Float32Array, i: number): number {
+  const x0 = values[i - 1];
+  const x1 = values[i];
+  const x2 = values[i + 1];
+  const denom = 2 * (2 * x1 - x0 - x2);
+  return Math.abs(denom) > 1e-12 ? (x2 - x0) / denom : 0;
+}
+
+/**
+ * Frames where no dip is found under a threshold give that threshold's weight (scaled
+ * down) to the deepest dip, so the candidates' probabilities also say how voiced the
+ * frame is. Dips are local minima of the dissimilarity curve, in lag order.
+ */
+function findCandidates(d: Float32Array, minLag: number, maxLag: number, sampleRate: number): PitchCandidate[] {
+  const dips: number[] = [];
+  for (let tau = minLag; tau < maxLag; tau++) {
+    if (d[tau] < d[tau - 1] && d[tau] <= d[tau + 1]) dips.push(tau);
+  }
+  if (dips.length === 0) return [];
+
+  const weights = new Array(dips.length).fill(0);
+  let deepest = 0;
+  dips.forEach((tau, i) => {
+    if (d[tau] < d[dips[deepest]]) deepest = i;
+  });
+  THRESHOLD_PRIOR.forEach((prior, k) => {
+    const threshold = (k + 1) / THRESHOLD_STEPS;
+    const first = dips.findIndex(tau => d[tau] < threshold);
+    if (first === -1) {
+      weights[deepest] += prior * ABSOLUTE_MIN_WEIGHT;
+    } else {
+      weights[first] += prior;
+    }
+  });
+
+  return dips
+    .map((tau, i) => ({ frequency: sampleRate / (tau + parabolicOffset(d, tau)), probability: weights[i] }))
+    .filter(candidate => candidate.probability > 1e-4)
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Shared frame handling: the energy gate, the lag range from the frequency bounds,
+ * candidates and the result. Subclasses compute a dissimilarity curve over lags (low
+ * where the frame repeats) and pick the period of a voiced frame from it.
+ */
+abstract class LagPitchAlgorithm implements PitchAlgorithm {
+  abstract readonly id: PitchAlgorithmId;
+  protected scratch = new Float32Array(0);
+
+  constructor(protected readonly config: PitchDetectorConfig) {}
+
+  detect(frame: Float32Array, sampleRate: number): PitchDetectionResult | null {
+    return this.analyze(frame, sampleRate).result;
+  }
+
+  analyze(frame: Float32Array, sampleRate: number): PitchAnalysis {
+    const rms = computeRms(frame);
+    const silent: PitchAnalysis = { result: null, candidates: [], rms: isFinite(rms) ? rms : 0 };
+    if (!isFinite(rms) || rms < this.config.rmsThreshold) {
+      return silent;
+    }
+
+    if (this.scratch.length < frame.length) {
+      this.scratch = new Float32Array(frame.length);
+    }
+    const minLag = Math.max(2, Math.floor(sampleRate / this.config.maxFreq)); // high freq -> small lag
+    const maxLag = Math.min(frame.length - 2, Math.floor(sampleRate / this.config.minFreq));
+    if (maxLag <= minLag) return silent;
+
+    const d = this.scratch;
+    this.computeDissimilarity(frame, d, maxLag + 1);
+    const inRange = (frequency: number) => isFinite(frequency) && frequency >= this.config.minFreq && frequency <= this.config.maxFreq;
+    const candidates = findCandidates(d, minLag, maxLag, sampleRate).filter(c => inRange(c.frequency));
+
+    const estimate = this.pickPeriod(d, minLag, maxLag);
+    const frequency = estimate ? sampleRate / estimate.period : NaN;
+    return {
+      result: estimate && inRange(frequency) ? buildPitchResult(frequency, estimate.clarity, rms) : null,
+      candidates,
+      rms
+    };
+  }
+
+  // Fills d[0..lastLag]
+  protected abstract computeDissimilarity(x: Float32Array, d: Float32Array, lastLag: number): void;
+  protected abstract pickPeriod(d: Float32Array, minLag: number, maxLag: number): PeriodEstimate | null;
+}
+
+/**
+ * YIN CMNDF implementation with parabolic interpolation and subharmonic (octave) check.
+ */
+class YinAlgorithm extends LagPitchAlgorithm {
+  readonly id = 'yin';
+
+  protected computeDissimilarity(x: Float32Array, yin: Float32Array, lastLag: number): void {
+    const N = x.length;
+
+    // 1) Difference function d(tau)
+    for (let tau = 1; tau <= lastLag; tau++) {
+      let sum = 0;
+      for (let i = 0, lim = N - tau; i < lim; i++) {
+        const diff = x[i] - x[i + tau];
+        sum += diff * diff;
+      }
+      yin[tau] = sum;
+    }
+
+    // 2) Cumulative mean normalized difference function CMND
+    let runningSum = 0;
+    yin[0] = 1;
+    for (let tau = 1; tau <= lastLag; tau++) {
+      runningSum += yin[tau];
+      yin[tau] = (yin[tau] * tau) / (runningSum || 1e-12);
+    }
+  }
+
+  protected pickPeriod(yin: Float32Array, minTau: number, maxTau: number): PeriodEstimate | null {
+    // 3) Absolute threshold search
+    let tauEstimate = -1;
+    let yinMin = 1;
+    for (let tau = minTau; tau <= maxTau; tau++) {
+      const val = yin[tau];
+      if (val < YIN_THRESHOLD && val <= yinMin) {
+        // local minimum check
+        if (tau + 1 <= maxTau && val <= yin[tau + 1]) {
+          tauEstimate = tau;
+          yinMin = val;
+          break;
+        }
+      }
+      if (val < yinMin) yinMin = val;
+    }
+
+    // If no threshold crossing, fall back to global minimum in range
+    if (tauEstimate === -1) {
+      let minV = Infinity;
+      let minI = -1;
+      for (let tau = minTau; tau <= maxTau; tau++) {
+        if (yin[tau] < minV) {
+          minV = yin[tau];
+          minI = tau;
+        }
+      }
+      tauEstimate = minI;
+      yinMin = minV === Infinity ? 1 : minV;
+      if (tauEstimate <= 0) {
+        return null;
+      }
+    }
+
+    // 4) Parabolic interpolation around tauEstimate on CMND curve
+    let betterTau = tauEstimate;
+    if (tauEstimate > 1 && tauEstimate < maxTau) {
+      betterTau = tauEstimate + parabolicOffset(yin, tauEstimate);
+    }
+
+    // 5) Subharmonic check: prefer 1/2 or 1/3 frequency if CMND significantly better
+    let finalTau = betterTau;
+    const valueAt = (tau: number): number => {
+      // simple linear interp on CMND to estimate value at non-integer lag
+      const i = Math.floor(tau);
+      const yA = yin[i];
+      const yB = i + 1 <= maxTau ? yin[i + 1] : yA;
+      return yA + (yB - yA) * (tau - i);
+    };
+    const checkAndMaybeReplace = (mult: number, margin: number) => {
+      const tau2 = betterTau * mult;
+      if (tau2 <= maxTau && valueAt(tau2) + margin < valueAt(betterTau)) {
+        finalTau = tau2;
+      }
+    };
+
+    // Try 2x and 3x tau (i.e., f/2 and f/3)
+    checkAndMaybeReplace(2, 0.015);
+    checkAndMaybeReplace(3, 0.02);
+
+    return { period: finalTau, clarity: 1 - yinMin };
+  }
+}
+
+/**
+ * McLeod Pitch Method: normalised square difference function (NSDF), taking the first
+ * key maximum close to the highest one. The curve is stored as 1 - NSDF.
+ */
+class McLeodAlgorithm extends LagPitchAlgorithm {
+  readonly id = 'mpm';
+
+  protected computeDissimilarity(x: Float32Array, d: Float32Array, lastLag: number): void {
+    const N = x.length;
+
+    // m(tau) = sum of x[j]^2 + x[j+tau]^2 over the overlap, updated as the overlap shrinks
+    let m = 0;
+    for (let i = 0; i < N; i++) m += 2 * x[i] * x[i];
+    for (let tau = 0; tau <= lastLag; tau++) {
+      if (tau > 0) m -= x[tau - 1] * x[tau - 1] + x[N - tau] * x[N - tau];
+      let r = 0;
+      for (let i = 0, lim = N - tau; i < lim; i++) {
+        r += x[i] * x[i + tau];
+      }
+      d[tau] = 1 - (m > 1e-12 ? (2 * r) / m : 0);
+    }
+  }
+
+  protected pickPeriod(d: Float32Array, minLag: number, maxLag: number): PeriodEstimate | null {
+    const nsdf = (tau: number) => 1 - d[tau];
+
+    // Key maxima: the highest point of each positive stretch after the first zero crossing
+    const peaks: number[] = [];
+    let tau = 1;
+    while (tau <= maxLag && nsdf(tau) > 0) tau++;
+    let best = -1;
+    for (; tau <= maxLag; tau++) {
+      if (nsdf(tau) > 0 && nsdf(tau - 1) <= 0) best = tau;
+      if (best !== -1 && nsdf(tau) > nsdf(best)) best = tau;
+      if (best !== -1 && nsdf(tau) <= 0 && nsdf(tau - 1) > 0) {
+        if (best >= minLag) peaks.push(best);
+        best = -1;
+      }
+    }
+    if (best >= minLag) peaks.push(best);
+    if (peaks.length === 0) return null;
+
+    const highest = Math.max(...peaks.map(nsdf));
+    const chosen = peaks.find(p => nsdf(p) >= MPM_PEAK_RATIO * highest)!;
+    const clarity = nsdf(chosen);
+    if (clarity < MPM_MIN_CLARITY) return null;
+
+    return { period: chosen + parabolicOffset(d, chosen), clarity };
+  }
+}
+
+/**
+ * Normalised autocorrelation, taking the shortest lag whose peak is close to the
+ * strongest one so that period multiples do not read as lower octaves. The curve is
+ * stored as 1 - autocorrelation.
+ */
+class AutocorrelationAlgorithm extends LagPitchAlgorithm {
+  readonly id = 'autocorrelation';
+
+  protected computeDissimilarity(x: Float32Array, d: Float32Array, lastLag: number): void {
+    const N = x.length;
+
+    let energy = 0;
+    for (let i = 0; i < N; i++) energy += x[i] * x[i];
+
+    for (let tau = 0; tau <= lastLag; tau++) {
+      let r = 0;
+      for (let i = 0, lim = N - tau; i < lim; i++) {
+        r += x[i] * x[i + tau];
+      }
+      // Scaled for the shrinking overlap, so long lags are not penalised
+      d[tau] = 1 - (energy > 1e-12 ? (r / energy) * (N / (N - tau)) : 0);
+    }
+  }
+
+  protected pickPeriod(d: Float32Array, minLag: number, maxLag: number): PeriodEstimate | null {
+    const acf = (tau: number) => 1 - d[tau];
+
+    let strongest = minLag;
+    for (let tau = minLag; tau <= maxLag; tau++) {
+      if (acf(tau) > acf(strongest)) strongest = tau;
+    }
+    let chosen = strongest;
+    for (let tau = minLag; tau < strongest; tau++) {
+      const isPeak = acf(tau) >= acf(tau - 1) && acf(tau) >= acf(tau + 1);
+      if (isPeak && acf(tau) >= ACF_PEAK_RATIO * acf(strongest)) {
+        chosen = tau;
+        break;
+      }
+    }
+    const clarity = Math.min(1, acf(chosen));
+    if (clarity < ACF_MIN_CLARITY) return null;
+
+    return { period: chosen + parabolicOffset(d, chosen), clarity };
+  }
+}
+
+export function createPitchAlgorithm(config: PitchDetectorConfig): PitchAlgorithm {
+  switch (config.algorithm) {
+    case 'mpm':
+      return new McLeodAlgorithm(config);
+    case 'autocorrelation':
+      return new AutocorrelationAlgorithm(config);
+    default:
+      return new YinAlgorithm(config);
+  }
+}
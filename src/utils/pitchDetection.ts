@@ -1,24 +1,64 @@
-import { PitchDetectionResult } from '../types';
-import { frequencyToMidi, getMidiNoteName, getMidiNoteNameOnly } from './musicUtils';
+import { PitchAlgorithm, PitchDetectionResult, PitchDetectorConfig, PitchObservation, PitchWorkletOptions, PitchWorkletFrame } from '../types';
+import { DEFAULT_PITCH_CONFIG, createPitchAlgorithm } from './pitchAlgorithms';
+import { InputDevice, describeInputDevice, getMicCalibration } from './micCalibration';
+import pitchProcessorUrl from '../worklets/pitchProcessor.ts?worker&url';
+
+export type PitchListener = (observation: PitchObservation) => void;
+
+export interface PitchDetectorOptions {
+  rawInput?: boolean; // No echo cancellation or noise suppression, so the app's own test tones are heard
+  calibrated?: boolean; // Apply the input device's stored calibration; on by default
+}
+
+// Results older than this are stale; the worklet posts every ~23 ms while it runs
+const WORKLET_RESULT_MAX_AGE = 250; // ms
 
 export class PitchDetector {
   private audioContext: AudioContext | null = null;
   private analyserNode: AnalyserNode | null = null;
+  private workletNode: AudioWorkletNode | null = null;
   private microphone: MediaStream | null = null;
 
-  // Time-domain buffers
+  // Worklet results: the latest for polling callers, and listeners for every hop
+  private latestObservation: PitchObservation | null = null;
+  private readonly listeners = new Set<PitchListener>();
+
+  // Time-domain buffer for the AnalyserNode fallback
   private timeData: Float32Array | null = null;
-  private yinBuffer: Float32Array | null = null; // CMNDF values
   private timeBufferSize: number = 0;
 
-  // Config
-  private readonly minFreq = 80;    // Hz
-  private readonly maxFreq = 2000;  // Hz
-  private readonly yinThreshold = 0.15; // Typical 0.1–0.2
-  private readonly vadRmsThreshold = 0.01; // Simple energy threshold for VAD
+  // Config; initialize() swaps in the input device's calibrated gate
+  private currentConfig: PitchDetectorConfig;
+  private algorithm: PitchAlgorithm; // Used on the main thread by the fallback
+  private readonly hopSize = 1024; // Worklet analyses every ≈ 23 ms at 44.1kHz
+  private readonly options: PitchDetectorOptions;
+
+  // From the calibration: seconds between a played note and it coming back through the microphone
+  private latency = 0;
+  private device: InputDevice | null = null;
 
   private isInitialized: boolean = false;
 
+  constructor(config: Partial<PitchDetectorConfig> = {}, options: PitchDetectorOptions = {}) {
+    this.currentConfig = { ...DEFAULT_PITCH_CONFIG, ...config };
+    this.algorithm = createPitchAlgorithm(this.currentConfig);
+    this.options = options;
+  }
+
+  get config(): PitchDetectorConfig {
+    return this.currentConfig;
+  }
+
+  // The microphone in use, known once initialized
+  get inputDevice(): InputDevice | null {
+    return this.device;
+  }
+
+  // Observations are already stamped this much earlier; callers that keep their own clock subtract it
+  get inputLatency(): number {
+    return this.latency;
+  }
+
   async initialize(): Promise<void> {
     if (this.isInitialized) {
       console.warn('PitchDetector already initialized');
@@ -28,14 +68,18 @@ export class PitchDetector {
     try {
       const constraints = {
         audio: {
-          echoCancellation: true,
+          echoCancellation: !this.options.rawInput,
           autoGainControl: false,
-          noiseSuppression: true,
+          noiseSuppression: !this.options.rawInput,
           ...(window.AudioContext && { sampleRate: 44100 }),
         },
       } as MediaStreamConstraints;
 
       this.microphone = await navigator.mediaDevices.getUserMedia(constraints);
+      this.device = describeInputDevice(this.microphone);
+      if (this.options.calibrated !== false) {
+        this.applyCalibration();
+      }
 
       const AudioContextClass = (window.AudioContext || (window as any).webkitAudioContext);
       if (!AudioContextClass) {
@@ -56,210 +100,129 @@ export class PitchDetector {
         }
       }
 
-      this.analyserNode = this.audioContext.createAnalyser();
-      // For time-domain YIN we want enough window length for ~80Hz fundamental
-      // 4096 at 44.1kHz ≈ 93 ms — достаточно, и остаётся интерактивным
-      this.analyserNode.fftSize = 4096;
-      this.analyserNode.smoothingTimeConstant = 0; // no smoothing in time-domain buffer
-
-      this.timeBufferSize = this.analyserNode.fftSize; // full time-domain size
-      this.timeData = new Float32Array(this.timeBufferSize);
-      this.yinBuffer = new Float32Array(this.timeBufferSize);
-
       const source = this.audioContext.createMediaStreamSource(this.microphone);
-      source.connect(this.analyserNode);
+      // Analyse every hop off the main thread where supported, else poll an AnalyserNode
+      if (!(await this.connectWorklet(source))) {
+        this.connectAnalyser(source);
+      }
 
       this.isInitialized = true;
-      console.log('PitchDetector initialized successfully (YIN)');
+      console.log(`PitchDetector initialized successfully (${this.config.algorithm}, ${this.workletNode ? 'AudioWorklet' : 'AnalyserNode'})`);
     } catch (error) {
       this.cleanup();
       throw new Error(`Failed to access microphone: ${error}`);
     }
   }
 
-  detectPitch(): PitchDetectionResult | null {
-    if (!this.isInitialized || !this.analyserNode || !this.timeData || !this.yinBuffer || !this.audioContext) {
-      return null;
+  // Uses the gate and latency measured for this microphone by the calibration wizard
+  private applyCalibration(): void {
+    const calibration = this.device ? getMicCalibration(this.device.key) : null;
+    if (!calibration) return;
+    this.currentConfig = { ...this.currentConfig, rmsThreshold: calibration.rmsThreshold };
+    this.algorithm = createPitchAlgorithm(this.currentConfig);
+    this.latency = calibration.latency;
+  }
+
+  private async connectWorklet(source: MediaStreamAudioSourceNode): Promise<boolean> {
+    const context = this.audioContext;
+    if (!context || !context.audioWorklet || typeof AudioWorkletNode === 'undefined') {
+      return false;
     }
 
     try {
-      // Fill time-domain buffer (cross-browser: try float first, then byte fallback)
-      try {
-        (this.analyserNode as any).getFloatTimeDomainData(this.timeData);
-      } catch {
-        const byteArray = new Uint8Array(this.timeBufferSize);
-        this.analyserNode.getByteTimeDomainData(byteArray);
-        for (let i = 0; i < this.timeBufferSize; i++) {
-          // Convert [0..255] to [-1..1]
-          this.timeData[i] = (byteArray[i] - 128) / 128;
-        }
-      }
-
-      // --- VAD: simple RMS energy gate ---
-      const rms = this.computeRMS(this.timeData);
-      if (!isFinite(rms) || rms < this.vadRmsThreshold) {
-        return null;
-      }
-
-      const sampleRate = this.audioContext.sampleRate || 44100;
-      const minTau = Math.max(2, Math.floor(sampleRate / this.maxFreq)); // high freq -> small lag
-      const maxTau = Math.min(this.timeBufferSize - 1, Math.floor(sampleRate / this.minFreq));
-
-      const freq = this.yinDetectFrequency(this.timeData, this.yinBuffer, minTau, maxTau, sampleRate);
-      if (!isFinite(freq) || freq < this.minFreq || freq > this.maxFreq) {
-        return null;
-      }
-
-      const pitch = frequencyToMidi(freq);
-      const noteName = getMidiNoteName(pitch);
-      const noteNameOnly = getMidiNoteNameOnly(pitch);
-
-      // Confidence/clarity from YIN minimum (stored by yinDetectFrequency via lastYinMin)
-      const yinMin = this._lastYinMin;
-      const clarity = Math.max(0, Math.min(1, 1 - yinMin));
-      // Blend with RMS for a more intuitive confidence
-      const confidence = Math.max(0, Math.min(1, 0.5 * clarity + 0.5 * Math.min(1, rms / 0.1)));
-
-      return {
-        frequency: freq,
-        pitch,
-        noteName,
-        noteNameOnly,
-        confidence,
-        clarity,
-        timestamp: Date.now(),
-      };
+      await context.audioWorklet.addModule(pitchProcessorUrl);
+      const processorOptions: PitchWorkletOptions = { config: this.config, hopSize: this.hopSize };
+      // No outputs: the node only listens, and is processed without reaching the speakers
+      const node = new AudioWorkletNode(context, 'pitch-processor', {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions,
+      });
+      node.port.onmessage = (event: MessageEvent<PitchWorkletFrame>) => this.handleWorkletFrame(event.data);
+      source.connect(node);
+      this.workletNode = node;
+      return true;
     } catch (error) {
-      console.error('Error during pitch detection (YIN):', error);
-      return null;
+      console.warn('AudioWorklet pitch detection unavailable, falling back to AnalyserNode:', error);
+      return false;
     }
   }
 
-  private _lastYinMin: number = 1;
+  private connectAnalyser(source: MediaStreamAudioSourceNode): void {
+    if (!this.audioContext) return;
+    this.analyserNode = this.audioContext.createAnalyser();
+    this.analyserNode.fftSize = this.config.windowSize;
+    this.analyserNode.smoothingTimeConstant = 0; // no smoothing in time-domain buffer
 
-  private computeRMS(buf: Float32Array): number {
-    let sum = 0;
-    for (let i = 0; i < buf.length; i++) {
-      const v = buf[i];
-      sum += v * v;
-    }
-    return Math.sqrt(sum / buf.length);
+    this.timeBufferSize = this.analyserNode.fftSize; // full time-domain size
+    this.timeData = new Float32Array(this.timeBufferSize);
+
+    source.connect(this.analyserNode);
+  }
+
+  private handleWorkletFrame(frame: PitchWorkletFrame): void {
+    if (!this.audioContext) return;
+    // The frame's audio time is turned into the wall-clock moment the sound was made,
+    // which is earlier still by the round trip through the speakers and microphone
+    const age = Math.max(0, this.audioContext.currentTime - frame.time) + this.latency;
+    const timestamp = Date.now() - age * 1000;
+    const { result, candidates, rms } = frame.analysis;
+    const observation: PitchObservation = { timestamp, candidates, rms, result: result ? { ...result, timestamp } : null };
+    this.latestObservation = observation;
+    this.listeners.forEach(listener => listener(observation));
   }
 
   /**
-   * YIN CMNDF implementation with parabolic interpolation and subharmonic (octave) check.
-   * Returns detected frequency in Hz, or NaN if not found.
+   * Calls the listener with every analysis hop and returns an unsubscribe function.
+   * Only the AudioWorklet path produces hops; check `usesWorklet` and poll `observe`
+   * otherwise.
    */
-  private yinDetectFrequency(
-    x: Float32Array,
-    yin: Float32Array,
-    minTau: number,
-    maxTau: number,
-    sampleRate: number,
-  ): number {
-    const N = x.length;
-    const maxTauClamped = Math.min(maxTau, N - 1);
-
-    // 1) Difference function d(tau)
-    // We reuse yin[] temporarily as the raw difference function to save allocations.
-    // After computing CMND we overwrite yin[] with normalized values.
-    for (let tau = 0; tau <= maxTauClamped; tau++) {
-      yin[tau] = 0;
-    }
-
-    for (let tau = 1; tau <= maxTauClamped; tau++) {
-      let sum = 0;
-      for (let i = 0, lim = N - tau; i < lim; i++) {
-        const diff = x[i] - x[i + tau];
-        sum += diff * diff;
-      }
-      yin[tau] = sum;
-    }
+  onPitch(listener: PitchListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
 
-    // 2) Cumulative mean normalized difference function CMND
-    let runningSum = 0;
-    yin[0] = 1;
-    for (let tau = 1; tau <= maxTauClamped; tau++) {
-      runningSum += yin[tau];
-      yin[tau] = (yin[tau] * tau) / (runningSum || 1e-12);
-    }
+  get usesWorklet(): boolean {
+    return this.workletNode !== null;
+  }
 
-    // 3) Absolute threshold search
-    let tauEstimate = -1;
-    let yinMin = 1;
-    for (let tau = Math.max(2, minTau); tau <= maxTauClamped; tau++) {
-      const val = yin[tau];
-      if (val < this.yinThreshold && val <= yinMin) {
-        // local minimum check
-        if (tau + 1 <= maxTauClamped && val <= yin[tau + 1]) {
-          tauEstimate = tau;
-          yinMin = val;
-          break;
-        }
-      }
-      if (val < yinMin) yinMin = val;
-    }
+  detectPitch(): PitchDetectionResult | null {
+    return this.observe()?.result ?? null;
+  }
 
-    // If no threshold crossing, fall back to global minimum in range
-    if (tauEstimate === -1) {
-      let minV = Infinity;
-      let minI = -1;
-      for (let tau = Math.max(2, minTau); tau <= maxTauClamped; tau++) {
-        if (yin[tau] < minV) {
-          minV = yin[tau];
-          minI = tau;
-        }
-      }
-      tauEstimate = minI;
-      yinMin = minV === Infinity ? 1 : minV;
-      if (tauEstimate <= 0) {
-        this._lastYinMin = 1;
-        return NaN;
-      }
+  // The current frame's best pitch and candidates; null when nothing can be analysed
+  observe(): PitchObservation | null {
+    if (this.workletNode) {
+      const observation = this.latestObservation;
+      return observation && Date.now() - observation.timestamp <= WORKLET_RESULT_MAX_AGE + this.latency * 1000 ? observation : null;
     }
 
-    // 4) Parabolic interpolation around tauEstimate on CMND curve
-    let betterTau = tauEstimate;
-    if (tauEstimate > 1 && tauEstimate < maxTauClamped) {
-      const x0 = yin[tauEstimate - 1];
-      const x1 = yin[tauEstimate];
-      const x2 = yin[tauEstimate + 1];
-      const denom = 2 * (2 * x1 - x0 - x2);
-      if (Math.abs(denom) > 1e-12) {
-        const delta = (x2 - x0) / denom; // in [-0.5, 0.5] typically
-        betterTau = tauEstimate + delta;
-      }
+    if (!this.isInitialized || !this.analyserNode || !this.timeData || !this.audioContext) {
+      return null;
     }
 
-    // 5) Subharmonic check: prefer 1/2 or 1/3 frequency if CMND significantly better
-    let finalTau = betterTau;
-    const checkAndMaybeReplace = (mult: number, margin = 0.02) => {
-      const tau2 = betterTau * mult;
-      if (tau2 <= maxTauClamped) {
-        // simple linear interp on CMND to estimate value at non-integer lag
-        const i = Math.floor(tau2);
-        const frac = tau2 - i;
-        const yA = yin[i];
-        const yB = i + 1 <= maxTauClamped ? yin[i + 1] : yA;
-        const yTau2 = yA + (yB - yA) * frac;
-        const i0 = Math.floor(betterTau);
-        const frac0 = betterTau - i0;
-        const yA0 = yin[i0];
-        const yB0 = i0 + 1 <= maxTauClamped ? yin[i0 + 1] : yA0;
-        const yTau = yA0 + (yB0 - yA0) * frac0;
-        if (yTau2 + margin < yTau) {
-          finalTau = tau2;
+    try {
+      // Fill time-domain buffer (cross-browser: try float first, then byte fallback)
+      try {
+        (this.analyserNode as any).getFloatTimeDomainData(this.timeData);
+      } catch {
+        const byteArray = new Uint8Array(this.timeBufferSize);
+        this.analyserNode.getByteTimeDomainData(byteArray);
+        for (let i = 0; i < this.timeBufferSize; i++) {
+          // Convert [0..255] to [-1..1]
+          this.timeData[i] = (byteArray[i] - 128) / 128;
         }
       }
-    };
-
-    // Try 2x and 3x tau (i.e., f/2 and f/3)
-    checkAndMaybeReplace(2, 0.015);
-    checkAndMaybeReplace(3, 0.02);
 
-    this._lastYinMin = yinMin;
-    const freq = sampleRate / finalTau;
-    return freq;
+      return { ...this.algorithm.analyze(this.timeData, this.audioContext.sampleRate || 44100), timestamp: Date.now() - this.latency * 1000 };
+    } catch (error) {
+      console.error(`Error during pitch detection (${this.config.algorithm}):`, error);
+      return null;
+    }
   }
 
   cleanup(): void {
@@ -280,9 +243,17 @@ export class PitchDetector {
       this.audioContext = null;
     }
 
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+      this.workletNode.disconnect();
+      this.workletNode = null;
+    }
+    this.latestObservation = null;
+    this.listeners.clear();
+    this.device = null;
+
     this.analyserNode = null;
     this.timeData = null;
-    this.yinBuffer = null;
     this.timeBufferSize = 0;
 
     console.log('PitchDetector cleaned up completely');
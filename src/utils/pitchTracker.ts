@@ -0,0 +1,171 @@
+import { PitchDetectorConfig, PitchObservation, TrackedPitch, PitchDetectionResult } from '../types';
+import { frequencyToMidi, getMidiNoteName, getMidiNoteNameOnly } from './musicUtils';
+
+// HMM tuning, per analysis hop (≈ 23 ms from the worklet)
+const BINS_PER_SEMITONE = 4; // 25-cent pitch states
+const MAX_GLIDE = 8; // Bins a voiced pitch can slide in one hop without counting as a jump
+const JUMP_PROBABILITY = 0.02; // Leaping to any pitch, e.g. the next note of the melody
+const VOICING_SWITCH = 0.05; // Chance of starting or stopping voicing each hop
+// Unvoiced frames score (1 - candidate total) times this; below 1 so breathy but steady singing stays voiced
+const UNVOICED_WEIGHT = 0.1;
+const LOOK_AHEAD_MS = 90; // Frames are decided once this much later audio has been seen
+const LOG_FLOOR = -1e9;
+
+interface TrackerFrame {
+  observation: PitchObservation;
+  voicedProbability: number;
+  backpointers: Int32Array; // Best previous state for each state
+}
+
+/**
+ * Smooths per-frame pitch candidates into one pitch track, pYIN style: an HMM over
+ * 25-cent pitch states plus one unvoiced state, decoded with online Viterbi. Each frame
+ * is decided LOOK_AHEAD_MS after it arrives, so a one-frame octave slip or dropout
+ * is outvoted by the frames around it.
+ */
+export class PitchTracker {
+  private readonly minMidi: number;
+  private readonly binCount: number;
+  private readonly unvoiced: number; // Index of the unvoiced state
+  private readonly glideLog: Float64Array; // Log transition weight by bin distance, within MAX_GLIDE
+  private readonly jumpLog: number;
+  private readonly switchLog: number;
+  private readonly stayLog: number; // Keeping the same voicing
+
+  private delta: Float64Array; // Best log probability of ending in each state
+  private frames: TrackerFrame[] = []; // Undecided frames, oldest first
+
+  constructor(config: Pick<PitchDetectorConfig, 'minFreq' | 'maxFreq'>) {
+    this.minMidi = 12 * Math.log2(config.minFreq / 440) + 69;
+    const maxMidi = 12 * Math.log2(config.maxFreq / 440) + 69;
+    this.binCount = Math.ceil((maxMidi - this.minMidi) * BINS_PER_SEMITONE) + 1;
+    this.unvoiced = this.binCount;
+
+    // Triangular glide weights, mixed with the uniform jump. They peak at 1 rather than
+    // summing to 1, so holding a pitch costs no more than holding the single unvoiced state.
+    this.glideLog = Float64Array.from({ length: MAX_GLIDE + 1 }, (_, k) =>
+      Math.log((1 - JUMP_PROBABILITY) * (MAX_GLIDE + 1 - k) / (MAX_GLIDE + 1) + JUMP_PROBABILITY / this.binCount)
+    );
+    this.jumpLog = Math.log(JUMP_PROBABILITY / this.binCount);
+    this.switchLog = Math.log(VOICING_SWITCH);
+    this.stayLog = Math.log(1 - VOICING_SWITCH);
+
+    this.delta = new Float64Array(this.binCount + 1);
+    this.reset();
+  }
+
+  reset(): void {
+    // Start unvoiced
+    this.delta.fill(LOG_FLOOR);
+    this.delta[this.unvoiced] = 0;
+    this.frames = [];
+  }
+
+  /**
+   * Adds a frame and returns the frames that are now decided, oldest first (usually
+   * zero or one).
+   */
+  push(observation: PitchObservation): TrackedPitch[] {
+    const n = this.binCount;
+    const observationLog = new Float64Array(n + 1).fill(Math.log(1e-6));
+    let voicedProbability = 0;
+    observation.candidates.forEach(candidate => {
+      const bin = this.binOf(candidate.frequency);
+      if (bin < 0 || bin >= n) return;
+      voicedProbability += candidate.probability;
+      observationLog[bin] = Math.log(Math.exp(observationLog[bin]) + candidate.probability);
+    });
+    voicedProbability = Math.min(1, voicedProbability);
+    observationLog[this.unvoiced] = Math.log(Math.max(1e-6, (1 - voicedProbability) * UNVOICED_WEIGHT));
+
+    // Best predecessor of every state: a nearby voiced bin, a jump from the best voiced bin, or unvoiced
+    const previous = this.delta;
+    const next = new Float64Array(n + 1);
+    const backpointers = new Int32Array(n + 1);
+    let bestVoiced = 0;
+    for (let i = 1; i < n; i++) {
+      if (previous[i] > previous[bestVoiced]) bestVoiced = i;
+    }
+    const fromUnvoiced = previous[this.unvoiced] + this.switchLog + Math.log(1 / n);
+
+    for (let j = 0; j < n; j++) {
+      let best = previous[bestVoiced] + this.stayLog + this.jumpLog;
+      let from = bestVoiced;
+      for (let i = Math.max(0, j - MAX_GLIDE), last = Math.min(n - 1, j + MAX_GLIDE); i <= last; i++) {
+        const score = previous[i] + this.stayLog + this.glideLog[Math.abs(i - j)];
+        if (score > best) {
+          best = score;
+          from = i;
+        }
+      }
+      if (fromUnvoiced > best) {
+        best = fromUnvoiced;
+        from = this.unvoiced;
+      }
+      next[j] = best + observationLog[j];
+      backpointers[j] = from;
+    }
+
+    const stayUnvoiced = previous[this.unvoiced] + this.stayLog;
+    const stopVoicing = previous[bestVoiced] + this.switchLog;
+    next[this.unvoiced] = Math.max(stayUnvoiced, stopVoicing) + observationLog[this.unvoiced];
+    backpointers[this.unvoiced] = stayUnvoiced >= stopVoicing ? this.unvoiced : bestVoiced;
+
+    // Keep the numbers near zero
+    const top = next.reduce((max, v) => Math.max(max, v), LOG_FLOOR);
+    for (let s = 0; s <= n; s++) next[s] = Math.max(LOG_FLOOR, next[s] - top);
+    this.delta = next;
+    this.frames.push({ observation, voicedProbability, backpointers });
+
+    // Decide every frame that has enough later audio behind it
+    const decided: TrackedPitch[] = [];
+    const newest = observation.timestamp;
+    const ready = this.frames.filter(frame => newest - frame.observation.timestamp >= LOOK_AHEAD_MS).length;
+    if (ready > 0) {
+      const states = this.traceBack();
+      this.frames.splice(0, ready).forEach((frame, i) => decided.push(this.toTrackedPitch(frame, states[i])));
+    }
+    return decided;
+  }
+
+  // Most likely state of each undecided frame, oldest first
+  private traceBack(): number[] {
+    let state = 0;
+    for (let s = 1; s < this.delta.length; s++) {
+      if (this.delta[s] > this.delta[state]) state = s;
+    }
+    const states = new Array<number>(this.frames.length);
+    for (let f = this.frames.length - 1; f >= 0; f--) {
+      states[f] = state;
+      state = this.frames[f].backpointers[state];
+    }
+    return states;
+  }
+
+  private binOf(frequency: number): number {
+    return Math.round((12 * Math.log2(frequency / 440) + 69 - this.minMidi) * BINS_PER_SEMITONE);
+  }
+
+  private toTrackedPitch(frame: TrackerFrame, state: number): TrackedPitch {
+    const { observation, voicedProbability } = frame;
+    if (state === this.unvoiced) {
+      return { timestamp: observation.timestamp, result: null, voicedProbability };
+    }
+
+    // The frame's own candidate in the chosen bin is more exact than the bin centre
+    const candidate = observation.candidates.find(c => Math.abs(this.binOf(c.frequency) - state) <= 1);
+    const frequency = candidate?.frequency ?? 440 * Math.pow(2, (this.minMidi + state / BINS_PER_SEMITONE - 69) / 12);
+    const pitch = frequencyToMidi(frequency);
+    const raw = observation.result;
+    const result: PitchDetectionResult = {
+      frequency,
+      pitch,
+      noteName: getMidiNoteName(pitch),
+      noteNameOnly: getMidiNoteNameOnly(pitch),
+      confidence: raw?.confidence ?? voicedProbability,
+      clarity: raw?.clarity ?? voicedProbability,
+      timestamp: observation.timestamp
+    };
+    return { timestamp: observation.timestamp, result, voicedProbability };
+  }
+}
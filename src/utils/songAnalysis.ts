@@ -0,0 +1,114 @@
+import { Song, Note, VocalRange, SongDifficulty } from '../types';
+
+// Krumhansl-Kessler key profiles, indexed by semitones above the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Conventional tonic spellings (fewest accidentals in the key signature)
+const MAJOR_TONICS = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const MINOR_TONICS = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'G#', 'A', 'Bb', 'B'];
+
+// Every key name estimateKey() can produce, majors first
+export const KEY_NAMES = [...MAJOR_TONICS.map(t => `${t} Major`), ...MINOR_TONICS.map(t => `${t} Minor`)];
+
+const correlation = (a: number[], b: number[]): number => {
+  const meanA = a.reduce((sum, v) => sum + v, 0) / a.length;
+  const meanB = b.reduce((sum, v) => sum + v, 0) / b.length;
+  let num = 0;
+  let denA = 0;
+  let denB = 0;
+  for (let i = 0; i < a.length; i++) {
+    num += (a[i] - meanA) * (b[i] - meanB);
+    denA += (a[i] - meanA) ** 2;
+    denB += (b[i] - meanB) ** 2;
+  }
+  return denA > 0 && denB > 0 ? num / Math.sqrt(denA * denB) : 0;
+};
+
+// Correlates the duration-weighted pitch-class histogram with all 24 rotated key profiles
+export function estimateKey(notes: Note[]): string | null {
+  const histogram = new Array(12).fill(0);
+  notes.forEach(note => {
+    histogram[((note.pitch % 12) + 12) % 12] += Math.max(note.duration, 0.05);
+  });
+  if (histogram.every(v => v === 0)) return null;
+
+  let best = { score: -Infinity, tonic: 0, isMinor: false };
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = histogram.map((_, i) => histogram[(i + tonic) % 12]);
+    const majorScore = correlation(rotated, MAJOR_PROFILE);
+    const minorScore = correlation(rotated, MINOR_PROFILE);
+    if (majorScore > best.score) best = { score: majorScore, tonic, isMinor: false };
+    if (minorScore > best.score) best = { score: minorScore, tonic, isMinor: true };
+  }
+
+  return best.isMinor ? `${MINOR_TONICS[best.tonic]} Minor` : `${MAJOR_TONICS[best.tonic]} Major`;
+}
+
+/**
+ * Picks the beat length that best explains the inter-onset intervals as whole or half beats,
+ * with a mild preference for moderate tempos to avoid doubling/halving.
+ */
+export function estimateTempo(notes: Note[]): number | null {
+  const onsets = notes.map(n => n.time).sort((a, b) => a - b);
+  const intervals: number[] = [];
+  for (let i = 1; i < onsets.length; i++) {
+    const interval = onsets[i] - onsets[i - 1];
+    if (interval > 0.08 && interval < 2.5) intervals.push(interval);
+  }
+  if (intervals.length < 4) return null;
+
+  let best = { score: -Infinity, bpm: 120 };
+  for (let bpm = 50; bpm <= 200; bpm++) {
+    const beat = 60 / bpm;
+    let fit = 0;
+    for (const interval of intervals) {
+      const beats = interval / beat;
+      const nearest = Math.max(0.5, Math.round(beats * 2) / 2);
+      const weight = Number.isInteger(nearest) ? 1 : 0.6;
+      fit += weight * Math.exp(-((beats - nearest) ** 2) / (2 * 0.06 ** 2));
+    }
+    const prior = Math.exp(-0.5 * (Math.log2(bpm / 110) / 0.6) ** 2);
+    const score = (fit / intervals.length) * prior;
+    if (score > best.score) best = { score, bpm };
+  }
+
+  return best.bpm;
+}
+
+export function getVocalRange(notes: Note[]): VocalRange | null {
+  if (notes.length === 0) return null;
+  return notes.reduce(
+    (range, n) => ({ lowest: Math.min(range.lowest, n.pitch), highest: Math.max(range.highest, n.pitch) }),
+    { lowest: notes[0].pitch, highest: notes[0].pitch }
+  );
+}
+
+/**
+ * Stores the vocal range on the song and, where the source file did not declare them,
+ * replaces the default key and tempo with estimates from the notes.
+ */
+/**
+ * Rates a song without a difficulty from its pack manifest. A wide range, a fast tempo and
+ * many notes per second each add a point; beginner songs have at most one.
+ */
+export function estimateDifficulty(song: Song): SongDifficulty {
+  const range = song.vocalRange ?? getVocalRange(song.notes);
+  const span = range ? range.highest - range.lowest : 0;
+  const start = song.notes.reduce((min, n) => Math.min(min, n.time), Infinity);
+  const end = song.notes.reduce((max, n) => Math.max(max, n.time + n.duration), 0);
+  const notesPerSecond = song.notes.length > 0 ? song.notes.length / Math.max(1, end - start) : 0;
+  const points = [span > 10, span > 15, song.tempo > 140, notesPerSecond > 2.5, notesPerSecond > 4].filter(Boolean).length;
+  return points <= 1 ? 'beginner' : points <= 3 ? 'intermediate' : 'advanced';
+}
+
+export function analyzeSong(song: Song, estimate: { key?: boolean; tempo?: boolean } = {}): Song {
+  const key = estimate.key ? estimateKey(song.notes) : null;
+  const tempo = estimate.tempo ? estimateTempo(song.notes) : null;
+  return {
+    ...song,
+    key: key ?? song.key,
+    tempo: tempo ?? song.tempo,
+    vocalRange: getVocalRange(song.notes) ?? undefined
+  };
+}
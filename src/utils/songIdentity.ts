@@ -0,0 +1,96 @@
+import { Song, Note, SongMatch } from '../types';
+
+// Onsets and durations closer than this count as the same rhythm
+const TIMING_TOLERANCE = 0.03;
+
+const normalizeLyric = (lyric: string | undefined): string => (lyric ?? '').trim().replace(/\s+/g, ' ');
+
+const sortNotes = (notes: Note[]): Note[] => [...notes].sort((a, b) => a.time - b.time || a.pitch - b.pitch);
+
+// cyrb53: 53-bit string hash, enough to keep different songs apart in one library
+const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * Hash of the notes with times rounded to milliseconds and lyrics trimmed, so the same
+ * song read from differently formatted files gets the same hash.
+ */
+export function getNotesHash(notes: Note[]): string {
+  return hashString(
+    sortNotes(notes)
+      .map(n => `${Math.round(n.time * 1000)},${Math.round(n.duration * 1000)},${n.pitch},${normalizeLyric(n.lyric)}`)
+      .join(';')
+  );
+}
+
+export function createSongId(titleSlug: string, notes: Note[]): string {
+  return `${titleSlug}-${getNotesHash(notes)}`;
+}
+
+// Same intervals and rhythm, wherever the melody starts in time or pitch
+const getTransposition = (a: Note[], b: Note[]): number | null => {
+  if (a.length === 0 || a.length !== b.length) return null;
+  const shift = b[0].pitch - a[0].pitch;
+  const offset = b[0].time - a[0].time;
+  for (let i = 0; i < a.length; i++) {
+    if (b[i].pitch - a[i].pitch !== shift) return null;
+    if (Math.abs(b[i].time - a[i].time - offset) > TIMING_TOLERANCE) return null;
+    if (Math.abs(b[i].duration - a[i].duration) > TIMING_TOLERANCE) return null;
+  }
+  return shift;
+};
+
+/**
+ * Finds library songs with the same melody as `song`: exact copies first,
+ * then the same tune with other lyrics or in another key.
+ */
+export function findDuplicateSongs(song: Song, library: Song[]): SongMatch[] {
+  const notes = sortNotes(song.notes);
+  const hash = getNotesHash(notes);
+
+  return library
+    .flatMap(other => {
+      const otherNotes = sortNotes(other.notes);
+      const transposition = getTransposition(otherNotes, notes);
+      if (transposition === null) return [];
+      const lyricsDiffer = otherNotes.some((n, i) => normalizeLyric(n.lyric) !== normalizeLyric(notes[i].lyric));
+      return [{
+        song: other,
+        exact: transposition === 0 && !lyricsDiffer && getNotesHash(otherNotes) === hash,
+        transposition,
+        lyricsDiffer
+      }];
+    })
+    .sort((a, b) => Number(b.exact) - Number(a.exact));
+}
+
+/**
+ * Keeps the existing song and fills in what the import adds: lyrics for notes that
+ * have none and sections if the song has none.
+ */
+export function mergeDuplicateSong(existing: Song, imported: Song): Song {
+  const importedNotes = sortNotes(imported.notes);
+  return {
+    ...existing,
+    notes: sortNotes(existing.notes).map((note, i) => ({
+      ...note,
+      lyric: note.lyric || importedNotes[i]?.lyric
+    })),
+    sections: existing.sections ?? imported.sections
+  };
+}
+
+// Takes the imported notes under the existing ID, so scores and tags stay attached
+export function replaceDuplicateSong(existing: Song, imported: Song): Song {
+  return { ...imported, id: existing.id, title: existing.title, artist: existing.artist };
+}
@@ -0,0 +1,203 @@
+import { Song, SongPack, SongResults, SongLibraryInfo, SongDetails, DeletedSong, LibraryItem, LibraryLength, LibraryView } from '../types';
+import { getSetting, setSetting, getAllSongInfo, putSongInfo, deleteSongInfo } from './storage';
+import { saveSongToStorage, deleteSavedSong, getScoreHistory, saveScoreHistory, slugifyTitle } from './musicUtils';
+import { getVocalRange, estimateDifficulty } from './songAnalysis';
+
+const VIEW_SETTING = 'vocalCoach_libraryView';
+const LAST_SELECTED_SETTING = 'vocalCoach_lastSelectedSong';
+
+export const DEFAULT_LIBRARY_VIEW: LibraryView = {
+  query: '',
+  tag: null,
+  favoritesOnly: false,
+  key: null,
+  rangeLow: null,
+  rangeHigh: null,
+  difficulty: null,
+  length: null,
+  sort: 'default'
+};
+
+// Upper bounds in seconds; anything longer is "long"
+const LENGTH_LIMITS: Record<Exclude<LibraryLength, 'long'>, number> = {
+  short: 60,
+  medium: 180
+};
+
+export function getLibraryView(): LibraryView {
+  return { ...DEFAULT_LIBRARY_VIEW, ...getSetting<Partial<LibraryView>>(VIEW_SETTING, {}) };
+}
+
+export function saveLibraryView(view: LibraryView): void {
+  setSetting(VIEW_SETTING, view);
+}
+
+// Search and filters narrow the list; the default sort keeps the sections
+export function isLibraryViewFiltered(view: LibraryView): boolean {
+  return (Object.keys(DEFAULT_LIBRARY_VIEW) as (keyof LibraryView)[])
+    .some(key => key !== 'sort' && view[key] !== DEFAULT_LIBRARY_VIEW[key]);
+}
+
+// Filters by key, range, length, lyrics or difficulty need the notes, so pack songs must be fetched first
+export function needsSongData(view: LibraryView): boolean {
+  return view.query.trim() !== '' || view.key !== null || view.rangeLow !== null || view.rangeHigh !== null || view.length !== null
+    || view.difficulty !== null;
+}
+
+export function getSongInfo(songId: string): SongLibraryInfo {
+  return getAllSongInfo()[songId] ?? { songId, tags: [], favorite: false };
+}
+
+export function toggleFavorite(songId: string): void {
+  const info = getSongInfo(songId);
+  putSongInfo({ ...info, favorite: !info.favorite });
+}
+
+export function setSongTags(songId: string, tags: string[]): void {
+  const unique = Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+  putSongInfo({ ...getSongInfo(songId), tags: unique });
+}
+
+export function markSongPlayed(songId: string): void {
+  putSongInfo({ ...getSongInfo(songId), lastPlayedAt: Date.now() });
+}
+
+export function updateSongDetails(song: Song, details: SongDetails): Song {
+  const updated = { ...song, ...details, title: details.title.trim(), artist: details.artist.trim() };
+  saveSongToStorage(updated);
+  return updated;
+}
+
+// Saves a copy under a new ID, e.g. as the starting point for an arrangement
+export function duplicateSong(song: Song): Song {
+  const copy: Song = {
+    ...song,
+    id: `${slugifyTitle(song.title)}-copy-${Date.now().toString(36)}`,
+    title: `${song.title} (copy)`
+  };
+  saveSongToStorage(copy);
+  return copy;
+}
+
+/**
+ * Deletes a user song with its tags and scores. If it was the last selected song,
+ * the setting is cleared so the app does not try to open it on the next start.
+ */
+export function removeSong(song: Song): DeletedSong {
+  const history = getScoreHistory();
+  const deleted: DeletedSong = {
+    song,
+    info: getAllSongInfo()[song.id],
+    history: history[song.id],
+    wasLastSelected: getSetting<string | null>(LAST_SELECTED_SETTING, null) === song.id
+  };
+
+  deleteSavedSong(song.id);
+  deleteSongInfo(song.id);
+  if (deleted.history) {
+    delete history[song.id];
+    saveScoreHistory(history);
+  }
+  if (deleted.wasLastSelected) {
+    setSetting(LAST_SELECTED_SETTING, null);
+  }
+  return deleted;
+}
+
+export function restoreDeletedSong(deleted: DeletedSong): void {
+  saveSongToStorage(deleted.song);
+  if (deleted.info) putSongInfo(deleted.info);
+  if (deleted.history) {
+    saveScoreHistory({ ...getScoreHistory(), [deleted.song.id]: deleted.history });
+  }
+  if (deleted.wasLastSelected) {
+    setSetting(LAST_SELECTED_SETTING, deleted.song.id);
+  }
+}
+
+export function getBestScore(history: SongResults[] | undefined): number | null {
+  return history?.length ? Math.max(...history.map(r => r.scorePercentage)) : null;
+}
+
+export function buildLibraryItems(songs: Song[], savedSongs: Record<string, Song>, packs: SongPack[], packSongs: Record<string, Song>): LibraryItem[] {
+  const items: LibraryItem[] = songs.map(song => ({
+    songId: song.id,
+    title: song.title,
+    artist: song.artist,
+    source: savedSongs[song.id] ? 'user' : 'builtin',
+    song,
+    difficulty: estimateDifficulty(song),
+    presetTags: []
+  }));
+  packs.forEach(pack => {
+    pack.entries.forEach(entry => {
+      items.push({
+        songId: entry.songId,
+        title: entry.title,
+        artist: entry.artist,
+        source: 'pack',
+        song: packSongs[entry.songId],
+        difficulty: entry.difficulty ?? (packSongs[entry.songId] ? estimateDifficulty(packSongs[entry.songId]) : undefined),
+        presetTags: entry.tags
+      });
+    });
+  });
+  return items;
+}
+
+export function getItemTags(item: LibraryItem, info: Record<string, SongLibraryInfo>): string[] {
+  return Array.from(new Set([...item.presetTags, ...(info[item.songId]?.tags ?? [])]));
+}
+
+const getLength = (song: Song): LibraryLength =>
+  song.duration <= LENGTH_LIMITS.short ? 'short' : song.duration <= LENGTH_LIMITS.medium ? 'medium' : 'long';
+
+const matchesQuery = (item: LibraryItem, words: string[]): boolean => {
+  const lyrics = item.song?.notes.map(n => n.lyric ?? '').join(' ').replace(/-\s*-?/g, '') ?? '';
+  const text = `${item.title} ${item.artist} ${lyrics}`.toLowerCase();
+  return words.every(word => text.includes(word));
+};
+
+// Songs whose notes are unknown (unfetched pack songs) never match filters that need them,
+// including difficulty when the manifest does not give one
+const matchesView = (item: LibraryItem, view: LibraryView, info: Record<string, SongLibraryInfo>): boolean => {
+  const words = view.query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length > 0 && !matchesQuery(item, words)) return false;
+  if (view.tag && !getItemTags(item, info).includes(view.tag)) return false;
+  if (view.favoritesOnly && !info[item.songId]?.favorite) return false;
+  if (view.difficulty && item.difficulty !== view.difficulty) return false;
+
+  if (view.key || view.length || view.rangeLow !== null || view.rangeHigh !== null) {
+    if (!item.song) return false;
+    if (view.key && item.song.key !== view.key) return false;
+    if (view.length && getLength(item.song) !== view.length) return false;
+    const range = item.song.vocalRange ?? getVocalRange(item.song.notes);
+    if (!range) return false;
+    if (view.rangeLow !== null && range.lowest < view.rangeLow) return false;
+    if (view.rangeHigh !== null && range.highest > view.rangeHigh) return false;
+  }
+  return true;
+};
+
+/**
+ * Applies the search, filters and sort order. The default order keeps the list as given;
+ * songs never played or scored go last when sorting by those.
+ */
+export function filterLibraryItems(
+  items: LibraryItem[],
+  view: LibraryView,
+  info: Record<string, SongLibraryInfo>,
+  history: Record<string, SongResults[]>
+): LibraryItem[] {
+  const filtered = items.filter(item => matchesView(item, view, info));
+  switch (view.sort) {
+    case 'title':
+      return filtered.sort((a, b) => a.title.localeCompare(b.title));
+    case 'last-played':
+      return filtered.sort((a, b) => (info[b.songId]?.lastPlayedAt ?? 0) - (info[a.songId]?.lastPlayedAt ?? 0));
+    case 'best-score':
+      return filtered.sort((a, b) => (getBestScore(history[b.songId]) ?? -1) - (getBestScore(history[a.songId]) ?? -1));
+    default:
+      return filtered;
+  }
+}
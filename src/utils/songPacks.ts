@@ -0,0 +1,92 @@
+import { Song, SongPack, SongPackEntry, SongDifficulty } from '../types';
+import { loadExternalTSV } from './musicUtils';
+
+// Served next to the build (public/songs), so packs can change without rebuilding the app
+const MANIFEST_PATH = 'songs/manifest.json';
+const DIFFICULTIES: SongDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+// Manifest as written on disk
+interface ManifestSong {
+  id?: unknown;
+  title?: unknown;
+  artist?: unknown;
+  difficulty?: unknown;
+  tags?: unknown;
+  file?: unknown;
+}
+
+interface ManifestPack {
+  id?: unknown;
+  title?: unknown;
+  description?: unknown;
+  songs?: ManifestSong[];
+}
+
+let packsPromise: Promise<SongPack[]> | null = null;
+const songCache: Record<string, Promise<Song>> = {};
+
+const readEntry = (packId: string, song: ManifestSong, manifestUrl: URL): SongPackEntry | null => {
+  if (typeof song.id !== 'string' || typeof song.file !== 'string') {
+    console.warn(`Skipping song without id or file in pack "${packId}"`);
+    return null;
+  }
+  return {
+    songId: `${packId}/${song.id}`,
+    title: typeof song.title === 'string' ? song.title : song.id,
+    artist: typeof song.artist === 'string' ? song.artist : 'Unknown',
+    difficulty: DIFFICULTIES.includes(song.difficulty as SongDifficulty) ? song.difficulty as SongDifficulty : undefined,
+    tags: Array.isArray(song.tags) ? song.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    // Relative paths point next to the manifest; absolute URLs may point anywhere
+    url: new URL(song.file, manifestUrl).href
+  };
+};
+
+const fetchSongPacks = async (): Promise<SongPack[]> => {
+  const manifestUrl = new URL(MANIFEST_PATH, document.baseURI);
+  const res = await fetch(manifestUrl);
+  if (!res.ok) throw new Error(`Failed to fetch song manifest: ${manifestUrl.href}`);
+  const manifest: { packs?: ManifestPack[] } = await res.json();
+
+  return (manifest.packs ?? []).flatMap(pack => {
+    if (typeof pack.id !== 'string' || !Array.isArray(pack.songs)) {
+      console.warn('Skipping song pack without id or songs');
+      return [];
+    }
+    const packId = pack.id;
+    return [{
+      id: packId,
+      title: typeof pack.title === 'string' ? pack.title : packId,
+      description: typeof pack.description === 'string' ? pack.description : undefined,
+      entries: pack.songs
+        .map(song => readEntry(packId, song, manifestUrl))
+        .filter((entry): entry is SongPackEntry => entry !== null)
+    }];
+  });
+};
+
+// Lists the packs in the manifest; a missing or broken manifest just means no packs
+export function getSongPacks(): Promise<SongPack[]> {
+  packsPromise ??= fetchSongPacks().catch(error => {
+    console.error('Failed to load song packs:', error);
+    return [];
+  });
+  return packsPromise;
+}
+
+/**
+ * Fetches a pack song by its ID, or returns null if no pack lists it.
+ * The manifest's title and artist win over the file header.
+ */
+export async function loadPackSong(songId: string): Promise<Song | null> {
+  const packs = await getSongPacks();
+  const entry = packs.flatMap(pack => pack.entries).find(e => e.songId === songId);
+  if (!entry) return null;
+
+  songCache[songId] ??= loadExternalTSV(entry.url)
+    .then(song => ({ ...song, id: entry.songId, title: entry.title, artist: entry.artist }))
+    .catch(error => {
+      delete songCache[songId]; // Allow another try, e.g. after going back online
+      throw error;
+    });
+  return songCache[songId];
+}
@@ -0,0 +1,270 @@
+import { Song, Note, SharedSong } from '../types';
+import { midiToFrequency, getMidiNoteNameOnly, slugifyTitle } from './musicUtils';
+import { analyzeSong } from './songAnalysis';
+import { createSongId } from './songIdentity';
+
+const FRAGMENT_PREFIX = '#song=';
+const FORMAT_VERSION = 1;
+const COMPRESSION_NONE = 0;
+const COMPRESSION_DEFLATE = 1;
+
+// Per-note flag bits
+const FLAG_LYRIC = 1;
+const FLAG_GOLDEN = 2;
+const FLAG_FREESTYLE = 4;
+const FLAG_PHRASE_START = 8;
+const FLAG_VELOCITY = 16; // Velocity differs from the default 80
+
+const DEFAULT_VELOCITY = 80;
+
+class ByteWriter {
+  private bytes: number[] = [];
+  private encoder = new TextEncoder();
+
+  byte(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  // Unsigned LEB128 varint
+  uint(value: number) {
+    let v = Math.max(0, Math.round(value));
+    while (v >= 0x80) {
+      this.bytes.push((v % 0x80) | 0x80);
+      v = Math.floor(v / 0x80);
+    }
+    this.bytes.push(v);
+  }
+
+  // Zigzag-encoded signed varint
+  int(value: number) {
+    const v = Math.round(value);
+    this.uint(v < 0 ? -v * 2 - 1 : v * 2);
+  }
+
+  string(value: string) {
+    const encoded = this.encoder.encode(value);
+    this.uint(encoded.length);
+    encoded.forEach(b => this.bytes.push(b));
+  }
+
+  toBytes(): Uint8Array<ArrayBuffer> {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+  private decoder = new TextDecoder();
+
+  constructor(private bytes: Uint8Array) {}
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('Share link is incomplete');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  uint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const b = this.byte();
+      value += (b & 0x7f) * scale;
+      if (b < 0x80) return value;
+      scale *= 0x80;
+    }
+  }
+
+  int(): number {
+    const v = this.uint();
+    return v % 2 === 1 ? -(v + 1) / 2 : v / 2;
+  }
+
+  string(): string {
+    const length = this.uint();
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Share link is incomplete');
+    }
+    const text = this.decoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return text;
+  }
+}
+
+const pipeBytes = async (data: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> => {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array<ArrayBuffer> => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const writeSong = (song: Song, transposition: number): Uint8Array<ArrayBuffer> => {
+  const w = new ByteWriter();
+  w.string(song.title);
+  w.string(song.artist);
+  w.string(song.key);
+  w.uint(song.tempo * 100);
+  w.uint(song.timeSignature[0]);
+  w.uint(song.timeSignature[1]);
+  w.int(transposition);
+
+  const sections = song.sections ?? [];
+  w.uint(sections.length);
+  sections.forEach(section => {
+    w.string(section.name);
+    w.uint(section.time * 1000);
+  });
+
+  // Times are milliseconds; starts are stored as differences from the previous note
+  w.uint(song.notes.length);
+  let previousStart = 0;
+  song.notes.forEach(note => {
+    const start = Math.round(note.time * 1000);
+    const velocity = Math.round(note.velocity);
+    const flags =
+      (note.lyric ? FLAG_LYRIC : 0) |
+      (note.golden ? FLAG_GOLDEN : 0) |
+      (note.freestyle ? FLAG_FREESTYLE : 0) |
+      (note.phraseStart ? FLAG_PHRASE_START : 0) |
+      (velocity !== DEFAULT_VELOCITY ? FLAG_VELOCITY : 0);
+    w.int(start - previousStart);
+    w.uint(note.duration * 1000);
+    w.byte(note.pitch);
+    w.byte(flags);
+    if (flags & FLAG_VELOCITY) w.byte(velocity);
+    if (note.lyric) w.string(note.lyric);
+    previousStart = start;
+  });
+
+  return w.toBytes();
+};
+
+const readSong = (payload: Uint8Array): SharedSong => {
+  const r = new ByteReader(payload);
+  const title = r.string();
+  const artist = r.string();
+  const key = r.string();
+  const tempo = r.uint() / 100;
+  const timeSignature: [number, number] = [r.uint(), r.uint()];
+  const transposition = r.int();
+
+  const sectionCount = r.uint();
+  const sections = Array.from({ length: sectionCount }, () => ({ name: r.string(), time: r.uint() / 1000 }));
+
+  const noteCount = r.uint();
+  const notes: Note[] = [];
+  let start = 0;
+  for (let i = 0; i < noteCount; i++) {
+    start += r.int();
+    const duration = r.uint() / 1000;
+    const pitch = r.byte();
+    const flags = r.byte();
+    const velocity = flags & FLAG_VELOCITY ? r.byte() : DEFAULT_VELOCITY;
+    notes.push({
+      id: String(i + 1),
+      time: start / 1000,
+      duration,
+      pitch,
+      name: getMidiNoteNameOnly(pitch),
+      frequency: midiToFrequency(pitch),
+      velocity,
+      lyric: flags & FLAG_LYRIC ? r.string() : undefined,
+      golden: flags & FLAG_GOLDEN ? true : undefined,
+      freestyle: flags & FLAG_FREESTYLE ? true : undefined,
+      phraseStart: flags & FLAG_PHRASE_START ? true : undefined
+    });
+  }
+
+  const maxTime = notes.reduce((max, n) => Math.max(max, n.time + n.duration), 0);
+  return {
+    song: analyzeSong({
+      // Derived from the notes like imported songs, so opening a link twice gives the same ID
+      id: createSongId(slugifyTitle(title), notes),
+      title,
+      artist,
+      tempo,
+      duration: Math.ceil(maxTime + 2),
+      timeSignature,
+      key,
+      notes,
+      sections: sections.length > 0 ? sections : undefined
+    }),
+    transposition
+  };
+};
+
+export function isSongShareFragment(hash: string): boolean {
+  return hash.startsWith(FRAGMENT_PREFIX) && hash.length > FRAGMENT_PREFIX.length;
+}
+
+/**
+ * Encodes a song and its transposition as a "#song=..." URL fragment.
+ * The payload is deflated where the browser supports CompressionStream with 'deflate-raw'.
+ */
+export async function encodeSongShareFragment(song: Song, transposition: number = 0): Promise<string> {
+  let payload = writeSong(song, transposition);
+  let compression = COMPRESSION_NONE;
+  if (typeof CompressionStream !== 'undefined') {
+    // Older browsers have CompressionStream without 'deflate-raw'; send those links uncompressed
+    try {
+      const compressed = await pipeBytes(payload, new CompressionStream('deflate-raw'));
+      if (compressed.length < payload.length) {
+        payload = compressed;
+        compression = COMPRESSION_DEFLATE;
+      }
+    } catch (error) {
+      console.error('Song compression failed, sharing uncompressed:', error);
+    }
+  }
+
+  const bytes = new Uint8Array(payload.length + 2);
+  bytes[0] = FORMAT_VERSION;
+  bytes[1] = compression;
+  bytes.set(payload, 2);
+  return FRAGMENT_PREFIX + toBase64Url(bytes);
+}
+
+export async function decodeSongShareFragment(hash: string): Promise<SharedSong> {
+  if (!isSongShareFragment(hash)) {
+    throw new Error('Not a song share link');
+  }
+
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes = fromBase64Url(decodeURIComponent(hash.slice(FRAGMENT_PREFIX.length)));
+  } catch {
+    throw new Error('Share link is damaged');
+  }
+  if (bytes.length < 2 || bytes[0] !== FORMAT_VERSION) {
+    throw new Error('Share link was created by an unsupported version of the app');
+  }
+
+  let payload = bytes.subarray(2);
+  if (bytes[1] === COMPRESSION_DEFLATE) {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('Compressed share links are not supported in this browser');
+    }
+    try {
+      payload = await pipeBytes(payload.slice(), new DecompressionStream('deflate-raw'));
+    } catch {
+      throw new Error('Share link is damaged');
+    }
+  } else if (bytes[1] !== COMPRESSION_NONE) {
+    throw new Error('Share link uses an unknown compression');
+  }
+
+  return readSong(payload);
+}
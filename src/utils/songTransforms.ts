@@ -0,0 +1,155 @@
+import { Song, Note, SongTransform } from '../types';
+import { midiToFrequency, getMidiNoteNameOnly, secondsPerSignatureBeat, modeFifths } from './musicUtils';
+import { KEY_NAMES, getVocalRange } from './songAnalysis';
+
+// Notes of one melisma may be this far apart and still be joined
+const MELISMA_GAP = 0.05;
+
+const roundToMs = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+const getEnd = (notes: Note[]): number => notes.reduce((max, n) => Math.max(max, n.time + n.duration), 0);
+
+// Rebuilds the fields that follow from the notes
+const withNotes = (song: Song, notes: Note[]): Song => ({
+  ...song,
+  notes,
+  duration: Math.ceil(getEnd(notes) + 2),
+  vocalRange: getVocalRange(notes) ?? undefined
+});
+
+/**
+ * Snaps each note's start and end to the grid. Notes keep at least one grid step and are
+ * shortened where a snapped neighbour would overlap them.
+ */
+export function quantizeSong(song: Song, division: number): Song {
+  const grid = secondsPerSignatureBeat(song.tempo > 0 ? song.tempo : 120, song.timeSignature) / division;
+  const notes: Note[] = [];
+  [...song.notes].sort((a, b) => a.time - b.time).forEach(note => {
+    const previous = notes[notes.length - 1];
+    let start = Math.max(0, Math.round(note.time / grid) * grid);
+    if (previous && start <= previous.time) start = previous.time + grid;
+    const end = Math.max(Math.round((note.time + note.duration) / grid) * grid, start + grid);
+    if (previous && previous.time + previous.duration > start) {
+      previous.duration = roundToMs(start - previous.time);
+    }
+    notes.push({ ...note, time: roundToMs(start), duration: roundToMs(end - start) });
+  });
+  const sections = song.sections?.map(section => ({ ...section, time: roundToMs(Math.round(section.time / grid) * grid) }));
+  return { ...withNotes(song, notes), sections };
+}
+
+// Slower or faster by `factor`; the tempo changes with it so beats stay where they were
+export function stretchSong(song: Song, factor: number): Song {
+  const notes = song.notes.map(note => ({ ...note, time: roundToMs(note.time * factor), duration: roundToMs(note.duration * factor) }));
+  return {
+    ...withNotes(song, notes),
+    tempo: Math.round((song.tempo / factor) * 100) / 100,
+    sections: song.sections?.map(section => ({ ...section, time: roundToMs(section.time * factor) })),
+    tempoChanges: song.tempoChanges?.map(change => ({ time: change.time * factor, bpm: Math.round((change.bpm / factor) * 100) / 100 })),
+    meterChanges: song.meterChanges?.map(change => ({ ...change, time: change.time * factor }))
+  };
+}
+
+// Moves the song in time; an earlier shift stops when the first note reaches zero
+export function shiftSong(song: Song, seconds: number): Song {
+  const firstStart = song.notes.reduce((min, n) => Math.min(min, n.time), Infinity);
+  const offset = Number.isFinite(firstStart) ? Math.max(seconds, -firstStart) : 0;
+  const notes = song.notes.map(note => ({ ...note, time: roundToMs(note.time + offset) }));
+  return {
+    ...withNotes(song, notes),
+    sections: song.sections?.map(section => ({ ...section, time: roundToMs(Math.max(0, section.time + offset)) })),
+    tempoChanges: song.tempoChanges?.map(change => ({ ...change, time: change.time + offset })),
+    meterChanges: song.meterChanges?.map(change => ({ ...change, time: change.time + offset }))
+  };
+}
+
+const PITCH_CLASSES: Record<string, number> = {
+  'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3, 'E': 4, 'F': 5,
+  'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8, 'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11
+};
+
+// Note names along the circle of fifths, starting one fifth below C
+const FIFTHS_LETTERS = 'FCGDAEB';
+
+const noteAtFifths = (position: number): string => {
+  const index = position + 1;
+  const accidentals = Math.floor(index / 7);
+  return FIFTHS_LETTERS[((index % 7) + 7) % 7] + (accidentals >= 0 ? '#'.repeat(accidentals) : 'b'.repeat(-accidentals));
+};
+
+// The key moved by `semitones`, spelled the way key signatures are written (Bb Major, not
+// A# Major). Other modes keep their name, with the tonic spelled to match their signature.
+export function respellKey(key: string, semitones: number): string {
+  const [tonic, ...modeWords] = key.trim().split(/\s+/);
+  const mode = modeWords.join(' ') || 'Major';
+  if (!(tonic in PITCH_CLASSES)) return key;
+  const pitchClass = (((PITCH_CLASSES[tonic] + semitones) % 12) + 12) % 12;
+  if (/^(maj|min)/i.test(mode)) {
+    // KEY_NAMES lists the twelve majors, then the twelve minors, by tonic pitch class
+    return KEY_NAMES[(/^min/i.test(mode) ? 12 : 0) + pitchClass];
+  }
+  const offset = modeFifths(mode);
+  let signature = (((pitchClass * 7 + offset) % 12) + 12) % 12;
+  if (signature > 6) signature -= 12;
+  return `${noteAtFifths(signature - offset)} ${mode}`;
+}
+
+export function transposeSong(song: Song, semitones: number): Song {
+  const notes = song.notes.map(note => {
+    const pitch = note.pitch + semitones;
+    return { ...note, pitch, name: getMidiNoteNameOnly(pitch), frequency: midiToFrequency(pitch) };
+  });
+  return { ...withNotes(song, notes), key: respellKey(song.key, semitones) };
+}
+
+/**
+ * Folds the extra notes of each melisma (notes without a syllable that follow a sung note
+ * straight away) into the note that carries the syllable, keeping its pitch.
+ * Songs without lyrics are left as they are.
+ */
+export function simplifyMelismas(song: Song): Song {
+  if (!song.notes.some(n => n.lyric)) return song;
+  const notes: Note[] = [];
+  [...song.notes].sort((a, b) => a.time - b.time).forEach(note => {
+    const previous = notes[notes.length - 1];
+    const continuesMelisma = previous && !note.lyric && !note.phraseStart
+      && note.time - (previous.time + previous.duration) <= MELISMA_GAP;
+    if (continuesMelisma) {
+      previous.duration = roundToMs(note.time + note.duration - previous.time);
+    } else {
+      notes.push({ ...note });
+    }
+  });
+  return withNotes(song, notes);
+}
+
+export function applySongTransform(song: Song, transform: SongTransform): Song {
+  switch (transform.kind) {
+    case 'quantize':
+      return quantizeSong(song, transform.division);
+    case 'stretch':
+      return stretchSong(song, transform.factor);
+    case 'shift':
+      return shiftSong(song, transform.seconds);
+    case 'transpose':
+      return transposeSong(song, transform.semitones);
+    case 'simplify-melismas':
+      return simplifyMelismas(song);
+  }
+}
+
+// Short label for the list of pending changes
+export function describeSongTransform(transform: SongTransform): string {
+  switch (transform.kind) {
+    case 'quantize':
+      return `Quantize to ${transform.division === 1 ? '1 beat' : `1/${transform.division} beat`}`;
+    case 'stretch':
+      return `Stretch ×${transform.factor}`;
+    case 'shift':
+      return `Shift ${transform.seconds > 0 ? '+' : ''}${transform.seconds}s`;
+    case 'transpose':
+      return `Transpose ${transform.semitones > 0 ? '+' : ''}${transform.semitones}`;
+    case 'simplify-melismas':
+      return 'Simplify melismas';
+  }
+}
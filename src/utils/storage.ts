@@ -0,0 +1,337 @@
+import { Song, SongResults, SongRecording, SongLibraryInfo } from '../types';
+
+const DB_NAME = 'vocalCoach';
+const MIGRATED_FLAG = 'vocalCoach_migratedFromLocalStorage';
+
+// localStorage keys used before the IndexedDB store existed
+const LEGACY_SONGS_KEY = 'vocalCoach_savedSongs';
+const LEGACY_HISTORY_KEY = 'vocalCoach_scoreHistory';
+// Only written by the localStorage fallback; song info never existed before IndexedDB
+const FALLBACK_SONG_INFO_KEY = 'vocalCoach_songInfo';
+const LEGACY_SETTING_KEYS = [
+  'vocalCoach_transposition',
+  'vocalCoach_noteSoundEnabled',
+  'vocalCoach_microphoneMuted',
+  'vocalCoach_lastSelectedSong'
+];
+
+type StoreName = 'songs' | 'settings' | 'sessions' | 'recordings' | 'songInfo';
+
+// One finished take; the key keeps re-imported results from being stored twice
+interface SessionRecord {
+  id: string; // `${songId}:${completedAt}`
+  songId: string;
+  results: SongResults;
+}
+
+/**
+ * Schema steps, applied in order when the database is opened with a newer version.
+ * Never edit a released step; append a new one instead.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // 1: initial stores
+  db => {
+    db.createObjectStore('songs', { keyPath: 'id' });
+    db.createObjectStore('settings');
+    db.createObjectStore('sessions', { keyPath: 'id' }).createIndex('songId', 'songId');
+    db.createObjectStore('recordings', { keyPath: 'id' }).createIndex('songId', 'songId');
+  },
+  // 2: tags, favourites and last-played times for any song, including built-in ones
+  db => {
+    db.createObjectStore('songInfo', { keyPath: 'songId' });
+  }
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+// Songs, settings, sessions and song info are small and read synchronously all over the app,
+// so they are loaded once by initStorage() and written through to the database
+const cache = {
+  songs: {} as Record<string, Song>,
+  settings: {} as Record<string, unknown>,
+  sessions: {} as Record<string, SongResults[]>,
+  songInfo: {} as Record<string, SongLibraryInfo>
+};
+
+let db: IDBDatabase | null = null;
+let initPromise: Promise<void> | null = null;
+const pendingWrites = new Set<Promise<void>>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Storage transaction aborted'));
+  });
+
+// While another tab holds an older version open the upgrade waits; onBlocked lets the page
+// ask the user to close it, since falling back to localStorage would split their data
+const openDatabase = (onBlocked?: () => void): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](request.result, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const database = request.result;
+      // Let a newer version in another tab upgrade instead of blocking it
+      database.onversionchange = () => {
+        database.close();
+        alert('Vocal Coach was updated in another tab. Reload this page to keep saving your changes.');
+      };
+      resolve(database);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => {
+      console.warn('Storage upgrade is waiting for other Vocal Coach tabs to close');
+      onBlocked?.();
+    };
+  });
+
+// Legacy values were JSON, except the last selected song which was a bare ID
+const readLegacyValue = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+// One unreadable key is skipped rather than losing everything else
+const readLegacyJson = <T>(key: string, fallback: T): T => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Ignoring unreadable saved data in ${key}:`, error);
+    return fallback;
+  }
+};
+
+const readLegacyStorage = () => {
+  const songs = readLegacyJson<Record<string, Song>>(LEGACY_SONGS_KEY, {});
+  const sessions = readLegacyJson<Record<string, SongResults[]>>(LEGACY_HISTORY_KEY, {});
+  const songInfo = readLegacyJson<Record<string, SongLibraryInfo>>(FALLBACK_SONG_INFO_KEY, {});
+  const settings: Record<string, unknown> = {};
+  LEGACY_SETTING_KEYS.forEach(key => {
+    const raw = localStorage.getItem(key);
+    if (raw !== null) settings[key] = readLegacyValue(raw);
+  });
+  return { songs, sessions, settings, songInfo };
+};
+
+// Mirrors the cache into the old localStorage keys when IndexedDB is unavailable
+const writeLegacyStorage = (store: StoreName) => {
+  try {
+    if (store === 'songs') {
+      localStorage.setItem(LEGACY_SONGS_KEY, JSON.stringify(cache.songs));
+    } else if (store === 'sessions') {
+      localStorage.setItem(LEGACY_HISTORY_KEY, JSON.stringify(cache.sessions));
+    } else if (store === 'songInfo') {
+      localStorage.setItem(FALLBACK_SONG_INFO_KEY, JSON.stringify(cache.songInfo));
+    } else if (store === 'settings') {
+      Object.entries(cache.settings).forEach(([key, value]) => {
+        localStorage.setItem(key, typeof value === 'string' ? value : JSON.stringify(value));
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to save ${store}:`, error);
+  }
+};
+
+const toSessionRecords = (songId: string, results: SongResults[]): SessionRecord[] =>
+  results.map(r => ({ id: `${songId}:${r.completedAt}`, songId, results: r }));
+
+// Copies existing localStorage data into the database once, then clears the old keys
+const migrateLocalStorage = async (database: IDBDatabase) => {
+  const flag = await requestToPromise(database.transaction('settings').objectStore('settings').get(MIGRATED_FLAG));
+  if (flag) return;
+
+  const legacy = readLegacyStorage();
+  const tx = database.transaction(['songs', 'settings', 'sessions', 'songInfo'], 'readwrite');
+  Object.values(legacy.songs).forEach(song => tx.objectStore('songs').put(song));
+  Object.values(legacy.songInfo).forEach(info => tx.objectStore('songInfo').put(info));
+  Object.entries(legacy.settings).forEach(([key, value]) => tx.objectStore('settings').put(value, key));
+  Object.entries(legacy.sessions).forEach(([songId, results]) => {
+    toSessionRecords(songId, results).forEach(record => tx.objectStore('sessions').put(record));
+  });
+  tx.objectStore('settings').put(true, MIGRATED_FLAG);
+  await transactionDone(tx);
+
+  [LEGACY_SONGS_KEY, LEGACY_HISTORY_KEY, FALLBACK_SONG_INFO_KEY, ...LEGACY_SETTING_KEYS].forEach(key => localStorage.removeItem(key));
+  console.log(`Moved ${Object.keys(legacy.songs).length} songs from localStorage to IndexedDB`);
+};
+
+const loadCache = async (database: IDBDatabase) => {
+  const tx = database.transaction(['songs', 'settings', 'sessions', 'songInfo']);
+  const settingsStore = tx.objectStore('settings');
+  const [songs, sessions, songInfo, settingKeys, settingValues] = await Promise.all([
+    requestToPromise<Song[]>(tx.objectStore('songs').getAll()),
+    requestToPromise<SessionRecord[]>(tx.objectStore('sessions').getAll()),
+    requestToPromise<SongLibraryInfo[]>(tx.objectStore('songInfo').getAll()),
+    requestToPromise(settingsStore.getAllKeys()),
+    requestToPromise(settingsStore.getAll())
+  ]);
+
+  cache.songs = Object.fromEntries(songs.map(song => [song.id, song]));
+  cache.songInfo = Object.fromEntries(songInfo.map(info => [info.songId, info]));
+  cache.settings = Object.fromEntries(settingKeys.map((key, i) => [String(key), settingValues[i]]));
+  cache.sessions = {};
+  sessions
+    .sort((a, b) => a.results.completedAt - b.results.completedAt)
+    .forEach(record => {
+      (cache.sessions[record.songId] ??= []).push(record.results);
+    });
+};
+
+/**
+ * Opens the database, runs schema and localStorage migrations and fills the cache.
+ * Falls back to localStorage when IndexedDB cannot be opened (e.g. some private modes).
+ * `onBlocked` is called if an upgrade has to wait for other tabs to close.
+ */
+export function initStorage(onBlocked?: () => void): Promise<void> {
+  initPromise ??= (async () => {
+    try {
+      const database = await openDatabase(onBlocked);
+      await migrateLocalStorage(database);
+      await loadCache(database);
+      db = database;
+    } catch (error) {
+      console.error('IndexedDB unavailable, using localStorage:', error);
+      try {
+        Object.assign(cache, readLegacyStorage());
+      } catch (legacyError) {
+        console.error('Failed to load saved data:', legacyError);
+      }
+    }
+  })();
+  return initPromise;
+}
+
+// Applies a change to one store in the background; the cache has already been updated
+const write = (store: StoreName, change: (objectStore: IDBObjectStore) => void) => {
+  if (!db) {
+    writeLegacyStorage(store);
+    return;
+  }
+  try {
+    const tx = db.transaction(store, 'readwrite');
+    change(tx.objectStore(store));
+    const done = transactionDone(tx)
+      .catch(error => console.error(`Failed to save ${store}:`, error))
+      .finally(() => pendingWrites.delete(done));
+    pendingWrites.add(done);
+  } catch (error) {
+    console.error(`Failed to save ${store}:`, error);
+  }
+};
+
+// Resolves once all background writes have finished, e.g. before reloading the page
+export async function flushStorage(): Promise<void> {
+  await Promise.all(pendingWrites);
+}
+
+// Songs
+
+export function getStoredSongs(): Record<string, Song> {
+  return { ...cache.songs };
+}
+
+export function putStoredSong(song: Song): void {
+  cache.songs[song.id] = song;
+  write('songs', store => store.put(song));
+}
+
+export function deleteStoredSong(songId: string): void {
+  delete cache.songs[songId];
+  write('songs', store => store.delete(songId));
+}
+
+// Settings
+
+export function getSetting<T>(key: string, fallback: T): T {
+  return key in cache.settings ? (cache.settings[key] as T) : fallback;
+}
+
+export function setSetting(key: string, value: unknown): void {
+  cache.settings[key] = value;
+  write('settings', store => store.put(value, key));
+}
+
+// Sessions (score history), oldest first per song ID
+
+export function getSessions(): Record<string, SongResults[]> {
+  return Object.fromEntries(Object.entries(cache.sessions).map(([songId, results]) => [songId, [...results]]));
+}
+
+export function addSession(songId: string, results: SongResults, keep: number): void {
+  const all = [...(cache.sessions[songId] ?? []), results];
+  const dropped = all.slice(0, Math.max(0, all.length - keep));
+  cache.sessions[songId] = all.slice(-keep);
+  write('sessions', store => {
+    store.put(toSessionRecords(songId, [results])[0]);
+    toSessionRecords(songId, dropped).forEach(record => store.delete(record.id));
+  });
+}
+
+export function replaceSessions(history: Record<string, SongResults[]>): void {
+  cache.sessions = Object.fromEntries(Object.entries(history).map(([songId, results]) => [songId, [...results]]));
+  write('sessions', store => {
+    store.clear();
+    Object.entries(history).forEach(([songId, results]) => {
+      toSessionRecords(songId, results).forEach(record => store.put(record));
+    });
+  });
+}
+
+// Song info (tags, favourites, last played) by song ID
+
+export function getAllSongInfo(): Record<string, SongLibraryInfo> {
+  return { ...cache.songInfo };
+}
+
+export function putSongInfo(info: SongLibraryInfo): void {
+  cache.songInfo[info.songId] = info;
+  write('songInfo', store => store.put(info));
+}
+
+export function deleteSongInfo(songId: string): void {
+  delete cache.songInfo[songId];
+  write('songInfo', store => store.delete(songId));
+}
+
+// Recordings hold audio blobs, so they stay in the database and are read on demand
+
+const recordingsStore = (mode: IDBTransactionMode = 'readonly'): IDBObjectStore => {
+  if (!db) {
+    throw new Error('Recordings cannot be stored in this browser');
+  }
+  return db.transaction('recordings', mode).objectStore('recordings');
+};
+
+export async function saveRecording(recording: SongRecording): Promise<void> {
+  const store = recordingsStore('readwrite');
+  store.put(recording);
+  await transactionDone(store.transaction);
+}
+
+export async function getRecordings(songId: string): Promise<SongRecording[]> {
+  const recordings = await requestToPromise<SongRecording[]>(recordingsStore().index('songId').getAll(songId));
+  return recordings.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  const store = recordingsStore('readwrite');
+  store.delete(id);
+  await transactionDone(store.transaction);
+}
@@ -0,0 +1,151 @@
+import { Song, Note } from '../types';
+import { midiToFrequency, getMidiNoteNameOnly, slugifyTitle } from './musicUtils';
+import { analyzeSong } from './songAnalysis';
+import { createSongId } from './songIdentity';
+
+// UltraStar pitch 0 is C4
+const ULTRASTAR_PITCH_OFFSET = 60;
+
+// UltraStar beats are quarters of a #BPM beat
+const beatSeconds = (bpm: number) => 60 / (bpm * 4);
+
+const parseHeaderNumber = (value: string): number => parseFloat(value.trim().replace(',', '.'));
+
+export function isUltraStarText(text: string): boolean {
+  return /^\s*#(TITLE|BPM)\s*:/im.test(text) && /^[:*FRG]\s+-?\d+\s+\d+\s+-?\d+/m.test(text);
+}
+
+export function parseUltraStarToSong(text: string, title: string = 'Untitled song', artist: string = 'Untitled author'): Song {
+  const headers: { [key: string]: string } = {};
+  const rawNotes: { type: string; beat: number; length: number; pitch: number; syllable: string; phraseStart: boolean }[] = [];
+  let lineOffset = 0; // Start beat of the current line in #RELATIVE files
+  let nextIsPhraseStart = true;
+
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  for (const line of lines) {
+    if (line.startsWith('#')) {
+      const sep = line.indexOf(':');
+      if (sep > 1) headers[line.slice(1, sep).trim().toUpperCase()] = line.slice(sep + 1).trim();
+      continue;
+    }
+
+    const marker = line.charAt(0);
+    if (marker === 'E') break;
+    // Duets: only the first singer is imported
+    if (marker === 'P' && /^P\s*[2-9]/.test(line)) break;
+
+    if (marker === '-') {
+      const [, first, second] = line.trim().split(/\s+/);
+      if (headers['RELATIVE']?.toLowerCase() === 'yes') {
+        lineOffset += parseInt(second ?? first, 10) || 0;
+      }
+      nextIsPhraseStart = true;
+      continue;
+    }
+
+    const m = line.match(/^([:*FRG])\s+(-?\d+)\s+(\d+)\s+(-?\d+)\s?(.*)$/);
+    if (!m) continue;
+    rawNotes.push({
+      type: m[1],
+      beat: parseInt(m[2], 10) + lineOffset,
+      length: parseInt(m[3], 10),
+      pitch: parseInt(m[4], 10),
+      syllable: m[5],
+      phraseStart: nextIsPhraseStart
+    });
+    nextIsPhraseStart = false;
+  }
+
+  const bpm = parseHeaderNumber(headers['BPM'] ?? '');
+  if (!isFinite(bpm) || bpm <= 0) {
+    throw new Error('UltraStar file has no valid #BPM header');
+  }
+  const gap = (parseHeaderNumber(headers['GAP'] ?? '0') || 0) / 1000;
+  const step = beatSeconds(bpm);
+
+  const notes: Note[] = rawNotes.map((n, i) => {
+    const midi = n.pitch + ULTRASTAR_PITCH_OFFSET;
+    // A syllable continues the previous word unless a space separates them
+    const previous = rawNotes[i - 1];
+    const next = rawNotes[i + 1];
+    const syllable = n.syllable.trim();
+    const continuesWord = !!previous && !n.phraseStart && !/\s$/.test(previous.syllable) && !/^\s/.test(n.syllable) && previous.syllable.trim() !== '~';
+    const wordContinues = !!next && !next.phraseStart && !/\s$/.test(n.syllable) && !/^\s/.test(next.syllable) && next.syllable.trim() !== '~';
+    let lyric: string | undefined;
+    if (syllable && syllable !== '~') {
+      lyric = `${continuesWord ? '-' : ''}${syllable}${wordContinues ? '-' : ''}`;
+    }
+
+    return {
+      id: String(i + 1),
+      time: gap + n.beat * step,
+      duration: n.length * step,
+      pitch: midi,
+      name: getMidiNoteNameOnly(midi),
+      frequency: midiToFrequency(midi),
+      velocity: 80,
+      lyric,
+      golden: n.type === '*' || n.type === 'G' || undefined,
+      freestyle: n.type === 'F' || n.type === 'R' || undefined,
+      phraseStart: n.phraseStart || undefined
+    };
+  });
+
+  const songTitle = headers['TITLE'] || title;
+  const maxTime = notes.reduce((max, n) => Math.max(max, n.time + n.duration), 0);
+
+  // UltraStar files carry no key
+  return analyzeSong({
+    id: createSongId(slugifyTitle(songTitle), notes),
+    title: songTitle,
+    artist: headers['ARTIST'] || artist,
+    tempo: Math.round(bpm),
+    duration: Math.ceil(maxTime + 2),
+    timeSignature: [4, 4],
+    key: 'C Major',
+    notes
+  }, { key: true });
+}
+
+/**
+ * Writes an UltraStar .txt using the song tempo as #BPM and the first note as #GAP.
+ * Note times are rounded to UltraStar beats (a sixteenth of the song tempo).
+ */
+export function exportSongToUltraStar(song: Song): string {
+  const bpm = song.tempo > 0 ? song.tempo : 120;
+  const step = beatSeconds(bpm);
+  const gap = song.notes.length > 0 ? song.notes[0].time : 0;
+  const toBeat = (seconds: number) => Math.round((seconds - gap) / step);
+
+  // Without explicit phrases, break lines after sentence punctuation
+  const hasPhrases = song.notes.some(n => n.phraseStart);
+  const startsPhrase = (index: number) =>
+    hasPhrases
+      ? !!song.notes[index].phraseStart
+      : /[.,!?;:]$/.test(song.notes[index - 1]?.lyric ?? '');
+
+  const lines: string[] = [
+    `#TITLE:${song.title}`,
+    `#ARTIST:${song.artist}`,
+    `#BPM:${bpm}`,
+    `#GAP:${Math.round(gap * 1000)}`
+  ];
+
+  song.notes.forEach((note, i) => {
+    const beat = toBeat(note.time);
+    if (i > 0 && startsPhrase(i)) {
+      const previous = song.notes[i - 1];
+      lines.push(`- ${Math.min(beat, toBeat(previous.time + previous.duration))}`);
+    }
+
+    const marker = note.golden ? '*' : note.freestyle ? 'F' : ':';
+    const length = Math.max(1, toBeat(note.time + note.duration) - beat);
+    const lyric = note.lyric ?? '';
+    // Hyphenated syllables join without a space; word ends get a trailing space
+    const syllable = lyric ? lyric.replace(/^-/, '').replace(/-$/, '') + (lyric.endsWith('-') ? '' : ' ') : '~';
+    lines.push(`${marker} ${beat} ${length} ${note.pitch - ULTRASTAR_PITCH_OFFSET} ${syllable}`);
+  });
+
+  lines.push('E');
+  return lines.join('\n');
+}
@@ -0,0 +1,107 @@
+import { VocalRange, VoiceProfile, VoiceProfileId } from '../types';
+import { DEFAULT_PITCH_CONFIG } from './pitchAlgorithms';
+import { midiToFrequency } from './musicUtils';
+
+// Pitches the timeline showed before voice profiles (C3 to C6)
+export const DEFAULT_TIMELINE_RANGE: VocalRange = { lowest: 48, highest: 84 };
+
+export const DEFAULT_CUSTOM_VOICE_RANGE: VocalRange = { lowest: 48, highest: 72 };
+
+// Headroom around the sung range: the search bounds allow for scoops and slides past the
+// extremes, and the timeline leaves a little space above and below the notes
+const SEARCH_MARGIN = 5;
+const TIMELINE_MARGIN = 4;
+
+// Window sizes the AnalyserNode fallback accepts, shortest first; the shortest that holds
+// three periods of the lowest frequency keeps high voices responsive
+const WINDOW_SIZES = [1024, 2048, 4096];
+const MAX_SAMPLE_RATE = 48000; // Most samples per period among common input rates
+
+// Typical ranges. Narrower search bounds than "any voice" stop a bass being read an octave
+// up and a child an octave down. Low voices get a lower gate because small microphones
+// pick up less of their energy.
+export const VOICE_PROFILES: VoiceProfile[] = [
+  {
+    id: 'any',
+    label: 'Any voice',
+    range: null,
+    detector: {
+      windowSize: DEFAULT_PITCH_CONFIG.windowSize,
+      minFreq: DEFAULT_PITCH_CONFIG.minFreq,
+      maxFreq: DEFAULT_PITCH_CONFIG.maxFreq,
+      rmsThreshold: DEFAULT_PITCH_CONFIG.rmsThreshold
+    },
+    timelineRange: DEFAULT_TIMELINE_RANGE
+  },
+  {
+    id: 'bass',
+    label: 'Bass',
+    range: { lowest: 40, highest: 64 }, // E2–E4
+    detector: { windowSize: 4096, minFreq: 60, maxFreq: 440, rmsThreshold: 0.006 },
+    timelineRange: { lowest: 36, highest: 68 }
+  },
+  {
+    id: 'baritone',
+    label: 'Baritone',
+    range: { lowest: 45, highest: 69 }, // A2–A4
+    detector: { windowSize: 2048, minFreq: 80, maxFreq: 590, rmsThreshold: 0.008 },
+    timelineRange: { lowest: 41, highest: 73 }
+  },
+  {
+    id: 'tenor',
+    label: 'Tenor',
+    range: { lowest: 48, highest: 72 }, // C3–C5
+    detector: { windowSize: 2048, minFreq: 95, maxFreq: 700, rmsThreshold: 0.01 },
+    timelineRange: { lowest: 44, highest: 76 }
+  },
+  {
+    id: 'alto',
+    label: 'Alto',
+    range: { lowest: 53, highest: 77 }, // F3–F5
+    detector: { windowSize: 2048, minFreq: 130, maxFreq: 930, rmsThreshold: 0.01 },
+    timelineRange: { lowest: 49, highest: 81 }
+  },
+  {
+    id: 'soprano',
+    label: 'Soprano',
+    range: { lowest: 60, highest: 84 }, // C4–C6
+    detector: { windowSize: 1024, minFreq: 195, maxFreq: 1400, rmsThreshold: 0.01 },
+    timelineRange: { lowest: 56, highest: 88 }
+  },
+  {
+    id: 'child',
+    label: 'Child',
+    range: { lowest: 57, highest: 81 }, // A3–A5
+    detector: { windowSize: 1024, minFreq: 165, maxFreq: 1180, rmsThreshold: 0.01 },
+    timelineRange: { lowest: 53, highest: 85 }
+  }
+];
+
+export const CUSTOM_VOICE_PROFILE_LABEL = 'Custom';
+
+// A profile for the singer's own lowest and highest notes, tuned the same way as the presets
+export function createCustomVoiceProfile(range: VocalRange): VoiceProfile {
+  const lowest = Math.min(range.lowest, range.highest);
+  const highest = Math.max(range.lowest, range.highest);
+  const minFreq = Math.round(midiToFrequency(lowest - SEARCH_MARGIN));
+  const longestPeriod = MAX_SAMPLE_RATE / minFreq;
+  const windowSize = WINDOW_SIZES.find(size => size >= 3 * longestPeriod) ?? WINDOW_SIZES[WINDOW_SIZES.length - 1];
+
+  return {
+    id: 'custom',
+    label: CUSTOM_VOICE_PROFILE_LABEL,
+    range: { lowest, highest },
+    detector: {
+      windowSize,
+      minFreq,
+      maxFreq: Math.round(midiToFrequency(highest + SEARCH_MARGIN)),
+      rmsThreshold: lowest < 45 ? 0.006 : lowest < 48 ? 0.008 : 0.01
+    },
+    timelineRange: { lowest: lowest - TIMELINE_MARGIN, highest: highest + TIMELINE_MARGIN }
+  };
+}
+
+export function getVoiceProfile(id: VoiceProfileId, customRange: VocalRange = DEFAULT_CUSTOM_VOICE_RANGE): VoiceProfile {
+  if (id === 'custom') return createCustomVoiceProfile(customRange);
+  return VOICE_PROFILES.find(profile => profile.id === id) ?? VOICE_PROFILES[0];
+}
@@ -0,0 +1,83 @@
+// Minimal ZIP reader for compressed MusicXML (.mxl) archives
+
+interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+const readEntries = (view: DataView): ZipEntry[] => {
+  // The end-of-central-directory record sits within the last 64 KB (its comment can be that long)
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const inflateRaw = async (data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('Compressed archives are not supported in this browser');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export async function readZipTextFiles(buffer: ArrayBuffer): Promise<Record<string, string>> {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+
+  for (const entry of readEntries(view)) {
+    if (entry.name.endsWith('/')) continue; // directory
+    const header = entry.localHeaderOffset;
+    if (view.getUint32(header, true) !== LOCAL_SIGNATURE) {
+      throw new Error(`Corrupt ZIP entry: ${entry.name}`);
+    }
+    const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const data = new Uint8Array(buffer.slice(dataStart, dataStart + entry.compressedSize));
+
+    if (entry.method === 0) {
+      files[entry.name] = decoder.decode(data);
+    } else if (entry.method === 8) {
+      files[entry.name] = decoder.decode(await inflateRaw(data));
+    } else {
+      console.warn(`Skipping ZIP entry with unsupported compression: ${entry.name}`);
+    }
+  }
+
+  return files;
+}
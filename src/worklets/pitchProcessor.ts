@@ -0,0 +1,60 @@
+// AudioWorklet processor that runs the chosen pitch algorithm on every hop of the microphone stream.
+// Bundled separately (see PitchDetector) and loaded with audioWorklet.addModule.
+import { PitchAlgorithm, PitchWorkletOptions, PitchWorkletFrame } from '../types';
+import { createPitchAlgorithm } from '../utils/pitchAlgorithms';
+
+// Globals of the AudioWorkletGlobalScope, which the DOM lib does not describe
+declare const sampleRate: number;
+declare const currentFrame: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: { processorOptions?: unknown });
+}
+
+class PitchProcessor extends AudioWorkletProcessor {
+  private readonly algorithm: PitchAlgorithm;
+  private readonly windowSize: number;
+  private readonly hopSize: number;
+  private readonly ring: Float32Array; // Last windowSize samples, oldest at writeIndex
+  private readonly window: Float32Array;
+  private writeIndex = 0;
+  private filled = 0;
+  private sinceHop = 0;
+
+  constructor(options: { processorOptions: PitchWorkletOptions }) {
+    super(options);
+    const { config, hopSize } = options.processorOptions;
+    this.algorithm = createPitchAlgorithm(config);
+    this.windowSize = config.windowSize;
+    this.hopSize = hopSize;
+    this.ring = new Float32Array(this.windowSize);
+    this.window = new Float32Array(this.windowSize);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      this.ring[this.writeIndex] = channel[i];
+      this.writeIndex = (this.writeIndex + 1) % this.windowSize;
+      if (this.filled < this.windowSize) this.filled++;
+      if (++this.sinceHop >= this.hopSize && this.filled === this.windowSize) {
+        this.sinceHop = 0;
+        // The sample just written is the window's last; its frame number gives an exact time
+        this.analyse((currentFrame + i + 1 - this.windowSize / 2) / sampleRate);
+      }
+    }
+    return true;
+  }
+
+  private analyse(time: number): void {
+    this.window.set(this.ring.subarray(this.writeIndex), 0);
+    this.window.set(this.ring.subarray(0, this.writeIndex), this.windowSize - this.writeIndex);
+    const frame: PitchWorkletFrame = { time, analysis: this.algorithm.analyze(this.window, sampleRate) };
+    this.port.postMessage(frame);
+  }
+}
+
+registerProcessor('pitch-processor', PitchProcessor);